@@ -0,0 +1,34 @@
+import { Request } from 'express';
+import { requestHasPermission, requestIsAdmin } from '../middleware/admin.middleware';
+
+jest.mock('../config/environment.config', () => ({
+  env: { adminTwoFactorRequired: true }
+}));
+
+const asRequest = (user: any, mfaVerifiedAt?: Date) => ({ user, authSession: { mfaVerifiedAt } }) as unknown as Request;
+
+describe('Admin Middleware', () => {
+  const staff = { role: 'staff', permissions: ['orders'] };
+  const admin = { role: 'admin', permissions: [] };
+
+  describe('requestHasPermission', () => {
+    it('should grant staff powers only on a session that passed 2FA', () => {
+      expect(requestHasPermission(asRequest(staff, new Date()), 'orders')).toBe(true);
+      expect(requestHasPermission(asRequest(staff), 'orders')).toBe(false);
+      expect(requestHasPermission(asRequest(admin), 'support')).toBe(false);
+    });
+
+    it('should still require the permission itself', () => {
+      expect(requestHasPermission(asRequest(staff, new Date()), 'support')).toBe(false);
+      expect(requestHasPermission(asRequest({ role: 'customer' }, new Date()), 'orders')).toBe(false);
+    });
+  });
+
+  describe('requestIsAdmin', () => {
+    it('should only accept admins on a 2FA-verified session', () => {
+      expect(requestIsAdmin(asRequest(admin, new Date()))).toBe(true);
+      expect(requestIsAdmin(asRequest(admin))).toBe(false);
+      expect(requestIsAdmin(asRequest(staff, new Date()))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { diffSnapshots, toAuditSnapshot } from '../utils/audit.utils';
+
+describe('Audit Utilities', () => {
+  describe('diffSnapshots', () => {
+    it('should list changed fields only', () => {
+      const changes = diffSnapshots(
+        { name: 'Prompt Pack', price: 499, isActive: true },
+        { name: 'Prompt Pack', price: 399, isActive: false }
+      );
+
+      expect(changes).toEqual([
+        { path: 'price', before: 499, after: 399 },
+        { path: 'isActive', before: true, after: false }
+      ]);
+    });
+
+    it('should compare nested objects by path and arrays as a whole', () => {
+      const changes = diffSnapshots(
+        { seo: { title: 'Old', keywords: ['a'] }, tags: ['x', 'y'] },
+        { seo: { title: 'New', keywords: ['a'] }, tags: ['y', 'x'] }
+      );
+
+      expect(changes).toEqual([
+        { path: 'seo.title', before: 'Old', after: 'New' },
+        { path: 'tags', before: ['x', 'y'], after: ['y', 'x'] }
+      ]);
+    });
+
+    it('should record creates and deletes against an empty side', () => {
+      expect(diffSnapshots(undefined, { code: 'SAVE10' })).toEqual([{ path: 'code', before: undefined, after: 'SAVE10' }]);
+      expect(diffSnapshots({ code: 'SAVE10' }, undefined)).toEqual([{ path: 'code', before: 'SAVE10', after: undefined }]);
+    });
+
+    it('should ignore bookkeeping fields', () => {
+      expect(diffSnapshots(
+        { _id: '1', __v: 0, updatedAt: '2025-01-01', title: 'Demo' },
+        { _id: '1', __v: 1, updatedAt: '2025-02-01', title: 'Demo' }
+      )).toEqual([]);
+    });
+  });
+
+  describe('toAuditSnapshot', () => {
+    it('should drop secrets and serialise dates', () => {
+      const snapshot = toAuditSnapshot({
+        email: 'staff@example.com',
+        password: 'hashed',
+        twoFactor: { secret: 'abc' },
+        pdfPassword: 'open-sesame',
+        updated: new Date('2025-06-01T00:00:00Z')
+      });
+
+      expect(snapshot).toEqual({ email: 'staff@example.com', updated: '2025-06-01T00:00:00.000Z' });
+    });
+
+    it('should use toObject for documents', () => {
+      const doc = { toObject: () => ({ title: 'Demo' }) };
+      expect(toAuditSnapshot(doc)).toEqual({ title: 'Demo' });
+      expect(toAuditSnapshot(null)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import express from 'express';
+import request from 'supertest';
+import { User } from '../models/User.model';
+
+// Signed-in requests carry the user as authenticate loads it: without the password hash
+let signedInUser: any;
+jest.mock('../middleware/auth.middleware', () => ({
+  authenticate: (req: any, _res: any, next: any) => {
+    req.user = signedInUser;
+    next();
+  },
+  authenticateGuest: (_req: any, _res: any, next: any) => next()
+}));
+
+import authRoutes from '../routes/auth.routes';
+
+const createApp = () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth', authRoutes);
+  return app;
+};
+
+const loadWithoutPassword = (fields: Record<string, unknown>) =>
+  User.hydrate({ _id: '64b000000000000000000001', name: 'Asha', email: 'asha@example.com', ...fields });
+
+describe('Auth Routes', () => {
+  describe('GET /me', () => {
+    it('should report a password for an account that has one', async () => {
+      signedInUser = loadWithoutPassword({ hasPassword: true });
+
+      const res = await request(createApp()).get('/api/auth/me').expect(200);
+
+      expect(res.body.user.hasPassword).toBe(true);
+      expect(res.body.user.password).toBeUndefined();
+    });
+
+    it('should report no password for a Google-only account', async () => {
+      signedInUser = loadWithoutPassword({ googleId: 'google-1', hasPassword: false });
+
+      const res = await request(createApp()).get('/api/auth/me').expect(200);
+
+      expect(res.body.user.hasPassword).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { hashAuthToken, getResendThrottle } from '../utils/auth.utils';
+
+describe('Auth Utilities', () => {
+  describe('hashAuthToken', () => {
+    it('should hash tokens deterministically without storing the raw value', () => {
+      const token = 'a'.repeat(64);
+      const hash = hashAuthToken(token);
+
+      expect(hash).toBe(hashAuthToken(token));
+      expect(hash).not.toContain(token);
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should produce different hashes for different tokens', () => {
+      expect(hashAuthToken('token-one')).not.toBe(hashAuthToken('token-two'));
+    });
+  });
+
+  describe('getResendThrottle', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+    const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60 * 1000);
+
+    it('should allow the first resend', () => {
+      expect(getResendThrottle([], now)).toEqual({ allowed: true });
+    });
+
+    it('should make users wait between resends', () => {
+      const throttle = getResendThrottle([new Date(now.getTime() - 20 * 1000)], now);
+      expect(throttle).toEqual({ allowed: false, retryAfterSeconds: 40 });
+    });
+
+    it('should cap resends per day and ignore older sends', () => {
+      const sent = [10, 60, 120, 180, 240].map(minutesAgo);
+      expect(getResendThrottle(sent, now).allowed).toBe(false);
+
+      const older = [10, 60, 120, 180, 25 * 60].map(minutesAgo);
+      expect(getResendThrottle(older, now)).toEqual({ allowed: true });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import mongoose from 'mongoose';
+import {
+  getOrderDeliverables,
+  findDeliverable,
+  getDeliveredProductIds,
+  findRepeatedDelivery
+} from '../utils/bundle.utils';
+import { IOrderItem } from '../models/Order.model';
+
+const id = () => new mongoose.Types.ObjectId();
+
+const single = id();
+const bundle = id();
+const first = id();
+const second = id();
+
+const items = [
+  { product: single, name: 'Caption Pack', price: 199, quantity: 1, deliveryStatus: 'ready', deliveryPassword: 'AAAA-BBBB-CCCC' },
+  {
+    product: bundle,
+    name: 'Creator Bundle',
+    price: 799,
+    quantity: 1,
+    bundleItems: [
+      { product: first, name: 'Wedding Prompts', deliveryStatus: 'pending' },
+      { product: second, name: 'Portrait Prompts' }
+    ]
+  }
+] as unknown as IOrderItem[];
+
+describe('Bundle Utilities', () => {
+  describe('getOrderDeliverables', () => {
+    it('should expand bundle lines into the products they contain', () => {
+      const deliverables = getOrderDeliverables(items);
+
+      expect(deliverables.map(item => item.name)).toEqual(['Caption Pack', 'Wedding Prompts', 'Portrait Prompts']);
+      expect(deliverables[0]).toMatchObject({ line: single, deliveryPassword: 'AAAA-BBBB-CCCC' });
+      expect(deliverables[0].bundleName).toBeUndefined();
+      expect(deliverables[1]).toMatchObject({ line: bundle, bundleName: 'Creator Bundle', deliveryStatus: 'pending' });
+    });
+  });
+
+  describe('findDeliverable', () => {
+    it('should find products inside bundles but not the bundle itself', () => {
+      expect(findDeliverable(items, second.toString())?.bundleName).toBe('Creator Bundle');
+      expect(findDeliverable(items, bundle.toString())).toBeUndefined();
+    });
+  });
+
+  describe('getDeliveredProductIds', () => {
+    it('should return the products delivered by the given lines', () => {
+      expect(getDeliveredProductIds(items, [bundle.toString()])).toEqual([first.toString(), second.toString()]);
+      expect(getDeliveredProductIds(items, [single.toString()])).toEqual([single.toString()]);
+    });
+  });
+
+  describe('findRepeatedDelivery', () => {
+    it('should catch a pack bought alongside a bundle that contains it', () => {
+      expect(findRepeatedDelivery([
+        { productId: 'a' },
+        { productId: 'bundle', contains: ['b', 'a'] }
+      ])).toBe('a');
+    });
+
+    it('should allow carts that deliver each product once', () => {
+      expect(findRepeatedDelivery([
+        { productId: 'a' },
+        { productId: 'bundle', contains: ['b', 'c'] }
+      ])).toBeNull();
+    });
+  });
+});
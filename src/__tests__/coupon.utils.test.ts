@@ -0,0 +1,92 @@
+import { evaluateCoupon, CartLine, CouponRules } from '../utils/coupon.utils';
+import { combineDiscounts } from '../utils/discount.utils';
+
+const cart: CartLine[] = [
+  { productId: 'prod_image', category: 'Image Prompts', price: 499, quantity: 1 },
+  { productId: 'prod_writing', category: 'Writing Prompts', price: 299, quantity: 2 }
+];
+
+const baseCoupon: CouponRules = {
+  code: 'DIWALI20',
+  discountType: 'percentage',
+  discountValue: 20,
+  isActive: true
+};
+
+describe('Coupon Utilities', () => {
+  describe('evaluateCoupon', () => {
+    it('should apply a percentage coupon to the whole cart', () => {
+      const result = evaluateCoupon(baseCoupon, cart);
+      expect(result.valid).toBe(true);
+      expect(result.eligibleSubtotal).toBe(1097);
+      expect(result.discountAmount).toBe(219.4);
+    });
+
+    it('should cap a percentage coupon at maxDiscountAmount', () => {
+      const result = evaluateCoupon({ ...baseCoupon, maxDiscountAmount: 100 }, cart);
+      expect(result.discountAmount).toBe(100);
+    });
+
+    it('should never discount more than the eligible subtotal for flat coupons', () => {
+      const result = evaluateCoupon(
+        { ...baseCoupon, discountType: 'flat', discountValue: 1000, applicableProducts: ['prod_image'] },
+        cart
+      );
+      expect(result.eligibleSubtotal).toBe(499);
+      expect(result.discountAmount).toBe(499);
+    });
+
+    it('should only discount lines in the scoped categories', () => {
+      const result = evaluateCoupon({ ...baseCoupon, applicableCategories: ['Writing Prompts'] }, cart);
+      expect(result.eligibleSubtotal).toBe(598);
+      expect(result.discountAmount).toBe(119.6);
+    });
+
+    it('should reject a coupon that does not apply to any cart item', () => {
+      const result = evaluateCoupon({ ...baseCoupon, applicableProducts: ['prod_other'] }, cart);
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject a cart below the minimum order amount', () => {
+      const result = evaluateCoupon({ ...baseCoupon, minOrderAmount: 2000 }, cart);
+      expect(result.valid).toBe(false);
+      expect(result.discountAmount).toBe(0);
+    });
+
+    it('should reject coupons outside their validity window', () => {
+      const now = new Date('2025-10-25T00:00:00Z');
+      expect(evaluateCoupon({ ...baseCoupon, validFrom: new Date('2025-11-01') }, cart, now).valid).toBe(false);
+      expect(evaluateCoupon({ ...baseCoupon, validUntil: new Date('2025-10-01') }, cart, now).valid).toBe(false);
+    });
+
+    it('should reject coupons that reached their global usage limit', () => {
+      const result = evaluateCoupon({ ...baseCoupon, usageLimit: 5, usedCount: 5 }, cart);
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('combineDiscounts', () => {
+    it('should stack a stackable coupon with the first-time discount', () => {
+      const result = combineDiscounts(1000, 200, true, true);
+      expect(result.couponDiscount).toBe(200);
+      expect(result.firstTimeDiscount).toBe(80);
+      expect(result.totalAmount).toBe(720);
+    });
+
+    it('should keep only the larger discount when the coupon is not stackable', () => {
+      const couponWins = combineDiscounts(1000, 200, false, true);
+      expect(couponWins.couponDiscount).toBe(200);
+      expect(couponWins.firstTimeDiscount).toBe(0);
+
+      const firstTimeWins = combineDiscounts(1000, 50, false, true);
+      expect(firstTimeWins.couponDiscount).toBe(0);
+      expect(firstTimeWins.firstTimeDiscount).toBe(100);
+      expect(firstTimeWins.totalAmount).toBe(900);
+    });
+
+    it('should leave the subtotal untouched without discounts', () => {
+      const result = combineDiscounts(1000, 0, false, false);
+      expect(result.totalAmount).toBe(1000);
+    });
+  });
+});
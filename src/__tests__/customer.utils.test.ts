@@ -0,0 +1,31 @@
+import { summarizeCustomerOrders } from '../utils/customer.utils';
+
+describe('Customer Utilities', () => {
+  describe('summarizeCustomerOrders', () => {
+    it('should total completed orders and find the first and last purchase', () => {
+      const stats = summarizeCustomerOrders([
+        { totalAmount: 299, createdAt: new Date('2025-03-01') },
+        { totalAmount: 199.5, createdAt: new Date('2025-01-15') },
+        { totalAmount: 500, createdAt: new Date('2025-02-10') }
+      ]);
+
+      expect(stats).toEqual({
+        totalOrders: 3,
+        totalSpent: 998.5,
+        averageOrderValue: 332.83,
+        firstPurchaseDate: new Date('2025-01-15'),
+        lastPurchaseDate: new Date('2025-03-01')
+      });
+    });
+
+    it('should return zeros for customers without orders', () => {
+      expect(summarizeCustomerOrders([])).toEqual({
+        totalOrders: 0,
+        totalSpent: 0,
+        averageOrderValue: 0,
+        firstPurchaseDate: undefined,
+        lastPurchaseDate: undefined
+      });
+    });
+  });
+});
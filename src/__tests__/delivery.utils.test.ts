@@ -0,0 +1,47 @@
+import { PDFDocument } from '@cantoo/pdf-lib';
+import { createBuyerCopy, generateDeliveryPassword, getDeliveryKey, getStampText } from '../utils/delivery.utils';
+
+const stamp = { name: 'Asha Rao', email: 'asha@example.com', purchaseId: 'AB12CD34' };
+
+const createSourcePdf = async (): Promise<Buffer> => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([595, 842]);
+  pdfDoc.addPage([595, 842]);
+  return Buffer.from(await pdfDoc.save());
+};
+
+describe('Delivery Utilities', () => {
+  describe('generateDeliveryPassword', () => {
+    it('should generate unique grouped passwords', () => {
+      const password = generateDeliveryPassword();
+      expect(password).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+      expect(generateDeliveryPassword()).not.toBe(password);
+    });
+  });
+
+  describe('getDeliveryKey', () => {
+    it('should scope the buyer copy to the order', () => {
+      expect(getDeliveryKey('order1', 'prod1')).toBe('deliveries/order1/prod1.pdf');
+    });
+  });
+
+  describe('getStampText', () => {
+    it('should include the buyer details and drop characters the PDF font cannot draw', () => {
+      const text = getStampText({ ...stamp, name: 'Asha Rao ✨' });
+      expect(text).toContain('asha@example.com');
+      expect(text).toContain('AB12CD34');
+      expect(text).not.toContain('✨');
+    });
+  });
+
+  describe('createBuyerCopy', () => {
+    it('should return an encrypted copy that opens with the buyer password', async () => {
+      const copy = await createBuyerCopy(await createSourcePdf(), stamp, 'ABCD-EFGH-JKLM');
+      expect(copy.toString('latin1')).toContain('/Encrypt');
+
+      const opened = await PDFDocument.load(copy, { password: 'ABCD-EFGH-JKLM' });
+      expect(opened.getPageCount()).toBe(2);
+      await expect(PDFDocument.load(copy, { password: 'WRONG-PASS-WORD' })).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import * as jwt from 'jsonwebtoken';
+import {
+  evaluateEntitlement,
+  EntitlementState,
+  signDownloadToken,
+  verifyDownloadToken,
+  getRenewedUsage,
+  isOwnerDownload
+} from '../utils/download.utils';
+import { env } from '../config/environment.config';
+
+const now = new Date('2025-10-25T00:00:00Z');
+
+const baseEntitlement: EntitlementState = {
+  maxDownloads: 3,
+  maxDevices: 2,
+  maxIpAddresses: 2,
+  downloadCount: 1,
+  devices: ['device-a'],
+  ipAddresses: ['1.1.1.1'],
+  expiresAt: new Date('2025-11-01T00:00:00Z')
+};
+
+const client = { fingerprint: 'device-a', ipAddress: '1.1.1.1' };
+
+describe('Download Utilities', () => {
+  describe('evaluateEntitlement', () => {
+    it('should allow a known device within its limits', () => {
+      expect(evaluateEntitlement(baseEntitlement, client, now).allowed).toBe(true);
+    });
+
+    it('should reject revoked, expired and exhausted entitlements', () => {
+      expect(evaluateEntitlement({ ...baseEntitlement, revokedAt: now }, client, now).allowed).toBe(false);
+      expect(evaluateEntitlement(baseEntitlement, client, new Date('2025-11-02T00:00:00Z')).allowed).toBe(false);
+      expect(evaluateEntitlement({ ...baseEntitlement, downloadCount: 3 }, client, now).reason).toBe('Download limit reached');
+    });
+
+    it('should reject a new device or network once their limits are used up', () => {
+      const full = { ...baseEntitlement, devices: ['device-a', 'device-b'], ipAddresses: ['1.1.1.1', '2.2.2.2'] };
+      expect(evaluateEntitlement(full, { ...client, fingerprint: 'device-c' }, now).allowed).toBe(false);
+      expect(evaluateEntitlement(full, { ...client, ipAddress: '3.3.3.3' }, now).allowed).toBe(false);
+      expect(evaluateEntitlement(full, { fingerprint: 'device-b', ipAddress: '2.2.2.2' }, now).allowed).toBe(true);
+    });
+  });
+
+  describe('owner downloads', () => {
+    const expired = { ...baseEntitlement, expiresAt: new Date('2025-10-01T00:00:00Z') };
+
+    it('should not apply the link expiry to account and guest-session downloads', () => {
+      expect(isOwnerDownload('account')).toBe(true);
+      expect(isOwnerDownload('guest')).toBe(true);
+      expect(isOwnerDownload('token')).toBe(false);
+
+      expect(evaluateEntitlement(expired, client, now, { ignoreExpiry: true }).allowed).toBe(true);
+      expect(evaluateEntitlement(expired, client, now).reason).toBe('Download link has expired');
+    });
+
+    it('should still apply revocation and download limits to owners', () => {
+      expect(evaluateEntitlement({ ...expired, revokedAt: now }, client, now, { ignoreExpiry: true }).allowed).toBe(false);
+      expect(evaluateEntitlement({ ...expired, downloadCount: 3 }, client, now, { ignoreExpiry: true }).allowed).toBe(false);
+    });
+  });
+
+  describe('getRenewedUsage', () => {
+    it('should give a buyer whose entitlement expired a working link for a new version', () => {
+      const expired = { ...baseEntitlement, downloadCount: 3, expiresAt: new Date('2025-09-01T00:00:00Z') };
+      const usage = getRenewedUsage(expired, now)!;
+
+      expect(usage.downloadCount).toBe(0);
+      expect(usage.expiresAt.getTime()).toBe(now.getTime() + env.downloads.tokenTtlDays * 24 * 60 * 60 * 1000);
+      expect(evaluateEntitlement({ ...expired, ...usage }, client, now).allowed).toBe(true);
+    });
+
+    it('should keep a later expiry and never renew a revoked entitlement', () => {
+      const longLived = { ...baseEntitlement, expiresAt: new Date('2030-01-01T00:00:00Z') };
+      expect(getRenewedUsage(longLived, now)!.expiresAt).toEqual(longLived.expiresAt);
+      expect(getRenewedUsage({ ...baseEntitlement, revokedAt: now }, now)).toBeNull();
+    });
+  });
+
+  describe('download tokens', () => {
+    it('should round-trip a token bound to the order and product', () => {
+      const token = signDownloadToken({
+        _id: 'ent1',
+        order: 'order1',
+        product: 'prod1',
+        tokenVersion: 2,
+        expiresAt: new Date(Date.now() + 60 * 1000)
+      } as any);
+
+      const payload = verifyDownloadToken(token);
+      expect(payload).toMatchObject({ entitlementId: 'ent1', orderId: 'order1', productId: 'prod1', version: 2 });
+    });
+
+    it('should not accept login tokens as download tokens', () => {
+      const loginToken = jwt.sign({ userId: 'user1' }, env.jwtSecret, { expiresIn: '1h' });
+      expect(verifyDownloadToken(loginToken)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  amountInWords,
+  formatInvoiceNumber,
+  getFinancialYear,
+  getStateCodeFromGstin,
+  isValidGstin,
+  splitInclusiveGst
+} from '../utils/invoice.utils';
+
+describe('Invoice Utilities', () => {
+  describe('getFinancialYear', () => {
+    it('should roll over on 1 April in IST', () => {
+      expect(getFinancialYear(new Date('2025-03-31T18:30:00Z'))).toBe('2025-26');
+      expect(getFinancialYear(new Date('2025-03-31T18:29:00Z'))).toBe('2024-25');
+      expect(getFinancialYear(new Date('2026-01-15T00:00:00Z'))).toBe('2025-26');
+    });
+  });
+
+  describe('formatInvoiceNumber', () => {
+    it('should pad the sequence and use the short financial year', () => {
+      expect(formatInvoiceNumber('DP', '2025-26', 42)).toBe('DP/25-26/000042');
+    });
+  });
+
+  describe('amountInWords', () => {
+    it('should use the Indian numbering system', () => {
+      expect(amountInWords(123456.5)).toBe('Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Fifty Paise Only');
+      expect(amountInWords(499)).toBe('Rupees Four Hundred Ninety Nine Only');
+    });
+  });
+
+  describe('splitInclusiveGst', () => {
+    it('should split an intra-state amount into equal CGST and SGST', () => {
+      const result = splitInclusiveGst(499, 18, true);
+      expect(result).toEqual({ taxableValue: 422.88, cgst: 38.06, sgst: 38.06, igst: 0 });
+    });
+
+    it('should charge IGST for inter-state supply and add back to the total', () => {
+      const result = splitInclusiveGst(299.99, 18, false);
+      expect(result.cgst).toBe(0);
+      expect(result.sgst).toBe(0);
+      expect(Math.round((result.taxableValue + result.igst) * 100)).toBe(29999);
+    });
+  });
+
+  describe('GSTIN helpers', () => {
+    it('should validate GSTIN format and read the state code', () => {
+      expect(isValidGstin('27AAPFU0939F1ZV')).toBe(true);
+      expect(isValidGstin('27AAPFU0939F1Z')).toBe(false);
+      expect(getStateCodeFromGstin('29AAPFU0939F1ZV')).toBe('29');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { createGoogleOAuthState, verifyGoogleOAuthState, getCookie } from '../utils/oauth.utils';
+
+describe('OAuth Utilities', () => {
+  describe('verifyGoogleOAuthState', () => {
+    it('should accept the state with the cookie of the browser that started the flow', () => {
+      const { state, cookie } = createGoogleOAuthState('link-token');
+
+      expect(verifyGoogleOAuthState(state, cookie)).toMatchObject({ purpose: 'google_state', linkToken: 'link-token' });
+    });
+
+    it('should refuse a state replayed without its cookie or with another flow\'s cookie', () => {
+      const first = createGoogleOAuthState('link-token');
+      const second = createGoogleOAuthState();
+
+      expect(verifyGoogleOAuthState(first.state, undefined)).toBeNull();
+      expect(verifyGoogleOAuthState(first.state, second.cookie)).toBeNull();
+    });
+
+    it('should refuse a cookie whose signature does not match', () => {
+      const { state, cookie } = createGoogleOAuthState();
+      const [nonce] = cookie.split('.');
+
+      expect(verifyGoogleOAuthState(state, `${nonce}.${'0'.repeat(64)}`)).toBeNull();
+      expect(verifyGoogleOAuthState(state, nonce)).toBeNull();
+    });
+  });
+
+  describe('getCookie', () => {
+    it('should read a cookie by name from the Cookie header', () => {
+      expect(getCookie('a=1; google_oauth_state=abc.def; b=2', 'google_oauth_state')).toBe('abc.def');
+      expect(getCookie('a=1', 'google_oauth_state')).toBeUndefined();
+      expect(getCookie(undefined, 'a')).toBeUndefined();
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { verifyWebhookSignature } from '../utils/payment.utils';
+import { verifyWebhookSignature, canCompletePayment } from '../utils/payment.utils';
 import crypto from 'crypto';
 
 // Mock environment variables
@@ -63,4 +63,17 @@ describe('Payment Utilities', () => {
       expect(() => verifyWebhookSignature(body, signature)).not.toThrow();
     });
   });
-});
\ No newline at end of file
+
+  describe('canCompletePayment', () => {
+    it('should let unpaid orders complete', () => {
+      expect(canCompletePayment('pending')).toBe(true);
+      expect(canCompletePayment('processing')).toBe(true);
+      expect(canCompletePayment('failed')).toBe(true);
+    });
+
+    it('should never move a completed or refunded order', () => {
+      expect(canCompletePayment('completed')).toBe(false);
+      expect(canCompletePayment('refunded')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  getScheduledPrice,
+  scheduleAppliesTo,
+  resolveProductPrice,
+  applyPriceSchedules,
+  previewSchedule,
+  PriceRule
+} from '../utils/priceSchedule.utils';
+
+const schedule = (overrides: Partial<PriceRule>): PriceRule => ({
+  _id: 'diwali',
+  name: 'Diwali Sale',
+  discountType: 'percentage',
+  discountValue: 30,
+  products: [],
+  categories: ['festive'],
+  startsAt: new Date('2025-10-20T00:00:00Z'),
+  endsAt: new Date('2025-11-05T00:00:00Z'),
+  isActive: true,
+  ...overrides
+});
+
+const festive = { _id: 'p1', name: 'Rangoli Prompts', category: 'festive', price: 499, originalPrice: 599 };
+const business = { _id: 'p2', name: 'Cold Emails', category: 'business', price: 299 };
+
+const duringSale = new Date('2025-10-25T00:00:00Z');
+
+describe('Price Schedule Utilities', () => {
+  describe('getScheduledPrice', () => {
+    it('should apply each discount type and round to whole rupees', () => {
+      expect(getScheduledPrice(499, { discountType: 'percentage', discountValue: 30 })).toBe(349);
+      expect(getScheduledPrice(499, { discountType: 'flat', discountValue: 100 })).toBe(399);
+      expect(getScheduledPrice(499, { discountType: 'fixed', discountValue: 249 })).toBe(249);
+      expect(getScheduledPrice(99, { discountType: 'flat', discountValue: 150 })).toBe(0);
+    });
+  });
+
+  describe('scheduleAppliesTo', () => {
+    it('should target listed products or categories, or everything when neither is set', () => {
+      expect(scheduleAppliesTo(schedule({}), festive)).toBe(true);
+      expect(scheduleAppliesTo(schedule({}), business)).toBe(false);
+      expect(scheduleAppliesTo(schedule({ categories: [], products: ['p2'] }), business)).toBe(true);
+      expect(scheduleAppliesTo(schedule({ categories: [] }), business)).toBe(true);
+    });
+  });
+
+  describe('resolveProductPrice', () => {
+    it('should apply a running sale and strike through the regular price', () => {
+      expect(resolveProductPrice(festive, [schedule({})], duringSale)).toEqual({
+        price: 349,
+        originalPrice: 599,
+        sale: { scheduleId: 'diwali', name: 'Diwali Sale', endsAt: new Date('2025-11-05T00:00:00Z') }
+      });
+    });
+
+    it('should leave prices alone outside the window or when deactivated', () => {
+      const regular = { price: 499, originalPrice: 599 };
+      expect(resolveProductPrice(festive, [schedule({})], new Date('2025-11-05T00:00:00Z'))).toEqual(regular);
+      expect(resolveProductPrice(festive, [schedule({})], new Date('2025-10-19T23:59:59Z'))).toEqual(regular);
+      expect(resolveProductPrice(festive, [schedule({ isActive: false })], duringSale)).toEqual(regular);
+    });
+
+    it('should give the lowest price when schedules overlap', () => {
+      const flash = schedule({ _id: 'flash', name: 'Flash Sale', discountType: 'fixed', discountValue: 199, categories: [], products: ['p1'] });
+      expect(resolveProductPrice(festive, [schedule({}), flash], duringSale).sale?.name).toBe('Flash Sale');
+    });
+
+    it('should not show a strikethrough for a price increase', () => {
+      const increase = schedule({ discountType: 'fixed', discountValue: 399, categories: ['business'], endsAt: null });
+      expect(resolveProductPrice(business, [increase], duringSale)).toMatchObject({ price: 399, originalPrice: undefined });
+    });
+  });
+
+  describe('applyPriceSchedules', () => {
+    it('should keep the other product fields', () => {
+      const [priced] = applyPriceSchedules([festive], [schedule({})], duringSale);
+      expect(priced).toMatchObject({ name: 'Rangoli Prompts', price: 349, sale: { name: 'Diwali Sale' } });
+    });
+  });
+
+  describe('previewSchedule', () => {
+    it('should list affected products priced at the start and flag overlapping schedules', () => {
+      const flash = schedule({ _id: 'flash', name: 'Flash Sale', discountType: 'fixed', discountValue: 199, categories: [], products: ['p1'] });
+      const rows = previewSchedule(schedule({}), [festive, business], [flash], new Date('2025-10-01T00:00:00Z'));
+
+      expect(rows).toEqual([{
+        productId: 'p1',
+        name: 'Rangoli Prompts',
+        category: 'festive',
+        regularPrice: 499,
+        scheduledPrice: 349,
+        effectivePrice: 199,
+        originalPrice: 599,
+        overriddenBy: 'Flash Sale'
+      }]);
+    });
+  });
+});
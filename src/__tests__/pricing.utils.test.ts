@@ -0,0 +1,47 @@
+import { allocatePaise, buildOrderPricing, getExpectedAmountPaise } from '../utils/pricing.utils';
+import { CartLine } from '../utils/coupon.utils';
+
+const cart: CartLine[] = [
+  { productId: 'prod_a', category: 'Image Prompts', price: 499, listPrice: 999, quantity: 1 },
+  { productId: 'prod_b', category: 'Writing Prompts', price: 299, quantity: 2 }
+];
+
+describe('Pricing Utilities', () => {
+  describe('allocatePaise', () => {
+    it('should split an amount so the shares add up exactly', () => {
+      const shares = allocatePaise(100, [1, 1, 1]);
+      expect(shares.reduce((sum, share) => sum + share, 0)).toBe(100);
+      expect(shares).toEqual([34, 33, 33]);
+    });
+
+    it('should give nothing to lines with zero weight', () => {
+      expect(allocatePaise(500, [0, 10])).toEqual([0, 500]);
+    });
+  });
+
+  describe('buildOrderPricing', () => {
+    it('should spread order discounts over lines and match the payable total', () => {
+      const { lines, pricing } = buildOrderPricing(
+        cart,
+        { subtotal: 1097, couponDiscount: 100, firstTimeDiscount: 99.7, totalAmount: 897.3 },
+        ['prod_b']
+      );
+
+      expect(lines[0].couponDiscount).toBe(0);
+      expect(lines[1].couponDiscount).toBe(100);
+      expect(lines[0].firstTimeDiscount + lines[1].firstTimeDiscount).toBeCloseTo(99.7, 2);
+
+      expect(pricing.listTotal).toBe(1597);
+      expect(pricing.saleDiscount).toBe(500);
+      expect(pricing.subtotal).toBe(1097);
+      expect(pricing.totalPayable).toBe(897.3);
+      expect(pricing.totalPayablePaise).toBe(89730);
+    });
+  });
+
+  describe('getExpectedAmountPaise', () => {
+    it('should fall back to totalAmount for orders without a pricing breakdown', () => {
+      expect(getExpectedAmountPaise({ totalAmount: 499.5 } as any)).toBe(49950);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { summarizeOrderLines, summarizeBundledUnits, getRefundedProducts, addOrderToStats, ProductStatsTotals } from '../utils/productStats.utils';
+
+const item = (product: string, price: number, quantity: number = 1, lineTotal?: number): any => ({
+  product,
+  name: product,
+  price,
+  quantity,
+  lineTotal
+});
+
+describe('Product Stats Utilities', () => {
+  describe('summarizeOrderLines', () => {
+    it('should merge lines per product and prefer the discounted line total', () => {
+      const lines = summarizeOrderLines([
+        item('a', 299, 1, 249.5),
+        item('b', 199, 2),
+        item('a', 299, 1, 299)
+      ]);
+
+      expect(lines).toEqual([
+        { product: 'a', units: 2, revenue: 548.5 },
+        { product: 'b', units: 2, revenue: 398 }
+      ]);
+    });
+
+    it('should only include the requested products', () => {
+      expect(summarizeOrderLines([item('a', 100), item('b', 200)], ['b'])).toEqual([
+        { product: 'b', units: 1, revenue: 200 }
+      ]);
+    });
+  });
+
+  describe('getRefundedProducts', () => {
+    it('should combine reversed products with processed refunds only', () => {
+      expect(getRefundedProducts({
+        items: [],
+        isFakeOrder: false,
+        createdAt: new Date(),
+        salesReversedProducts: ['a'],
+        refunds: [
+          { products: ['b'], status: 'processed' },
+          { products: ['c'], status: 'failed' }
+        ]
+      }).sort()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('addOrderToStats', () => {
+    it('should split real, fake and refunded sales', () => {
+      const totals = new Map<string, ProductStatsTotals>();
+
+      addOrderToStats(totals, { items: [item('a', 300)], isFakeOrder: false, createdAt: new Date('2025-01-01') });
+      addOrderToStats(totals, { items: [item('a', 300, 2)], isFakeOrder: true, createdAt: new Date('2025-03-01') });
+      addOrderToStats(totals, {
+        items: [item('a', 300), item('b', 100)],
+        isFakeOrder: false,
+        createdAt: new Date('2025-02-01'),
+        refunds: [{ products: ['a'], status: 'processed' }]
+      });
+
+      expect(totals.get('a')).toEqual({
+        realOrders: 1,
+        realUnits: 1,
+        realRevenue: 300,
+        fakeOrders: 1,
+        fakeUnits: 2,
+        fakeRevenue: 600,
+        refundedOrders: 1,
+        refundedUnits: 1,
+        refundedRevenue: 300,
+        bundledUnits: 0,
+        lastSoldAt: new Date('2025-02-01')
+      });
+      expect(totals.get('b')).toMatchObject({ realOrders: 1, realUnits: 1, realRevenue: 100 });
+    });
+
+    it('should credit bundle sales to the bundle and count contained products as bundled units', () => {
+      const totals = new Map<string, ProductStatsTotals>();
+      const bundle = { ...item('bundle', 500), bundleItems: [{ product: 'a', name: 'a' }, { product: 'b', name: 'b' }] };
+
+      addOrderToStats(totals, { items: [bundle], isFakeOrder: false, createdAt: new Date('2025-01-01') });
+      addOrderToStats(totals, { items: [bundle], isFakeOrder: true, createdAt: new Date('2025-01-02') });
+
+      expect(totals.get('bundle')).toMatchObject({ realUnits: 1, realRevenue: 500, fakeUnits: 1 });
+      expect(totals.get('a')).toMatchObject({ realUnits: 0, realRevenue: 0, bundledUnits: 1 });
+      expect(summarizeBundledUnits([item('a', 100), { ...bundle, quantity: 2 }])).toEqual([
+        { product: 'a', units: 2 },
+        { product: 'b', units: 2 }
+      ]);
+    });
+  });
+});
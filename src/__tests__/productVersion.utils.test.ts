@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import {
+  getEntitledVersions,
+  resolveDownloadVersion,
+  collectUpdateRecipients,
+  signUpdateEmailsToken,
+  verifyUpdateEmailsToken
+} from '../utils/productVersion.utils';
+
+const versions = [
+  { version: 1, releasedAt: new Date('2025-01-01') },
+  { version: 3, releasedAt: new Date('2025-06-01') },
+  { version: 2, releasedAt: new Date('2025-03-01') }
+];
+
+const productId = new mongoose.Types.ObjectId();
+const bundleId = new mongoose.Types.ObjectId();
+
+const order = (overrides: Record<string, any>): any => ({
+  _id: new mongoose.Types.ObjectId(),
+  items: [{ product: productId, name: 'Wedding Prompts', price: 299, quantity: 1 }],
+  isFakeOrder: false,
+  createdAt: new Date('2025-04-01'),
+  ...overrides
+});
+
+describe('Product Version Utilities', () => {
+  describe('getEntitledVersions', () => {
+    it('should include the version current at purchase and every later one', () => {
+      expect(getEntitledVersions(versions, new Date('2025-04-01')).map(v => v.version)).toEqual([2, 3]);
+      expect(getEntitledVersions(versions, new Date('2025-12-01')).map(v => v.version)).toEqual([3]);
+    });
+
+    it('should include every version for purchases before the first release', () => {
+      expect(getEntitledVersions(versions, new Date('2024-01-01')).map(v => v.version)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('resolveDownloadVersion', () => {
+    it('should default to the latest version', () => {
+      expect(resolveDownloadVersion(versions, new Date('2025-04-01')).version?.version).toBe(3);
+    });
+
+    it('should allow earlier versions the buyer is entitled to only', () => {
+      expect(resolveDownloadVersion(versions, new Date('2025-04-01'), 2).version?.version).toBe(2);
+      expect(resolveDownloadVersion(versions, new Date('2025-04-01'), 1).error).toBeDefined();
+    });
+
+    it('should only offer version 1 for products without history', () => {
+      expect(resolveDownloadVersion([], new Date(), 1)).toEqual({ version: null });
+      expect(resolveDownloadVersion([], new Date(), 2).error).toBeDefined();
+    });
+  });
+
+  describe('collectUpdateRecipients', () => {
+    it('should email each buyer once, including bundle buyers', () => {
+      const recipients = collectUpdateRecipients([
+        order({ guestEmail: 'guest@example.com', guestName: 'Asha' }),
+        order({ guestEmail: 'guest@example.com', guestName: 'Asha' }),
+        order({
+          user: { email: 'Ravi@Example.com', name: 'Ravi' },
+          items: [{ product: bundleId, name: 'Bundle', price: 799, quantity: 1, bundleItems: [{ product: productId, name: 'Wedding Prompts' }] }]
+        })
+      ], productId.toString());
+
+      expect(recipients.map(r => [r.email, r.name])).toEqual([
+        ['guest@example.com', 'Asha'],
+        ['ravi@example.com', 'Ravi']
+      ]);
+    });
+
+    it('should skip fake orders, refunded lines and orders without the product', () => {
+      const recipients = collectUpdateRecipients([
+        order({ guestEmail: 'fake@example.com', isFakeOrder: true }),
+        order({ guestEmail: 'refunded@example.com', salesReversedProducts: [productId] }),
+        order({ guestEmail: 'other@example.com', items: [{ product: new mongoose.Types.ObjectId(), name: 'Other', price: 99, quantity: 1 }] })
+      ], productId.toString());
+
+      expect(recipients).toEqual([]);
+    });
+  });
+
+  describe('update email tokens', () => {
+    it('should round-trip the email and reject other tokens', () => {
+      expect(verifyUpdateEmailsToken(signUpdateEmailsToken('Buyer@Example.com'))).toBe('buyer@example.com');
+      expect(verifyUpdateEmailsToken('not-a-token')).toBeNull();
+    });
+  });
+});
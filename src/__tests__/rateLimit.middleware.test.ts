@@ -0,0 +1,42 @@
+import express from 'express';
+import request from 'supertest';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { createMemoryRateLimitStore, setRateLimitStore } from '../utils/rateLimit.utils';
+
+// Behind one proxy, as in production: the proxy appends the address it saw to X-Forwarded-For
+const createApp = () => {
+  const app = express();
+  app.set('trust proxy', 1);
+  app.get('/limited', rateLimit({ name: 'test', windowMs: 60 * 1000, perIp: 2 }), (_req, res) => {
+    res.json({ success: true });
+  });
+  return app;
+};
+
+describe('rateLimit middleware', () => {
+  beforeEach(() => {
+    setRateLimitStore(createMemoryRateLimitStore());
+  });
+
+  it('should not let a spoofed X-Forwarded-For reset the per-IP limit', async () => {
+    const app = createApp();
+
+    for (const spoofed of ['1.1.1.1', '2.2.2.2']) {
+      await request(app).get('/limited').set('X-Forwarded-For', `${spoofed}, 203.0.113.7`).expect(200);
+    }
+
+    const blocked = await request(app).get('/limited').set('X-Forwarded-For', '3.3.3.3, 203.0.113.7');
+    expect(blocked.status).toBe(429);
+    expect(blocked.body.code).toBe('RATE_LIMITED');
+  });
+
+  it('should count different clients separately', async () => {
+    const app = createApp();
+
+    for (let i = 0; i < 2; i++) {
+      await request(app).get('/limited').set('X-Forwarded-For', '203.0.113.7').expect(200);
+    }
+
+    await request(app).get('/limited').set('X-Forwarded-For', '198.51.100.4').expect(200);
+  });
+});
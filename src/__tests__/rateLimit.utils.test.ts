@@ -0,0 +1,115 @@
+import {
+  createMemoryRateLimitStore,
+  setRateLimitStore,
+  getProgressiveDelayMs,
+  checkLoginThrottle,
+  recordLoginFailure,
+  recordLoginSuccess,
+  recordPasswordSuccess,
+  isAccountLocked,
+  IP_LOGIN_FAILURE_LIMIT
+} from '../utils/rateLimit.utils';
+
+describe('Rate Limit Utilities', () => {
+  describe('createMemoryRateLimitStore', () => {
+    it('should count hits within a window and start over once it ends', async () => {
+      let now = 1_000_000;
+      const store = createMemoryRateLimitStore(() => now);
+
+      await store.increment('key', 1000);
+      const second = await store.increment('key', 1000);
+      expect(second).toEqual({ count: 2, resetAt: 1_001_000 });
+
+      now += 1000;
+      expect(await store.get('key')).toBeNull();
+      expect((await store.increment('key', 1000)).count).toBe(1);
+    });
+
+    it('should reset a key and prune expired entries', async () => {
+      let now = 0;
+      const store = createMemoryRateLimitStore(() => now);
+
+      await store.increment('a', 100);
+      await store.increment('b', 500);
+      await store.reset('a');
+      expect(await store.get('a')).toBeNull();
+
+      now = 600;
+      store.prune();
+      expect(store.size()).toBe(0);
+    });
+  });
+
+  describe('getProgressiveDelayMs', () => {
+    it('should allow the first few failures without delay', () => {
+      expect(getProgressiveDelayMs(0)).toBe(0);
+      expect(getProgressiveDelayMs(2)).toBe(0);
+    });
+
+    it('should double the delay and cap it', () => {
+      expect(getProgressiveDelayMs(3)).toBe(1000);
+      expect(getProgressiveDelayMs(4)).toBe(2000);
+      expect(getProgressiveDelayMs(6)).toBe(8000);
+      expect(getProgressiveDelayMs(20)).toBe(30000);
+    });
+  });
+
+  describe('login throttling', () => {
+    beforeEach(() => {
+      setRateLimitStore(createMemoryRateLimitStore());
+    });
+
+    it('should delay attempts after repeated failures and clear on success', async () => {
+      for (let i = 0; i < 2; i++) {
+        await recordLoginFailure('Buyer@Example.com', '1.2.3.4');
+      }
+      expect((await checkLoginThrottle('buyer@example.com', '1.2.3.4')).allowed).toBe(true);
+
+      await recordLoginFailure('buyer@example.com', '1.2.3.4');
+      const throttle = await checkLoginThrottle('buyer@example.com', '5.6.7.8');
+      expect(throttle).toMatchObject({ allowed: false, reason: 'delay', retryAfterSeconds: 1 });
+
+      await recordLoginSuccess('buyer@example.com');
+      expect((await checkLoginThrottle('buyer@example.com', '1.2.3.4')).allowed).toBe(true);
+    });
+
+    it('should block an IP that fails across many accounts', async () => {
+      for (let i = 0; i < IP_LOGIN_FAILURE_LIMIT; i++) {
+        await recordLoginFailure(`user${i}@example.com`, '9.9.9.9');
+      }
+
+      expect(await checkLoginThrottle('fresh@example.com', '9.9.9.9')).toMatchObject({ allowed: false, reason: 'ip' });
+      expect((await checkLoginThrottle('fresh@example.com', '1.1.1.1')).allowed).toBe(true);
+    });
+
+    it('should keep counting wrong 2FA codes when the password is entered again', async () => {
+      // Password right, two wrong codes, password right again, another wrong code
+      await recordPasswordSuccess('admin@example.com', true);
+      await recordLoginFailure('admin@example.com', '1.2.3.4');
+      await recordLoginFailure('admin@example.com', '1.2.3.4');
+      await recordPasswordSuccess('admin@example.com', true);
+      const { failures } = await recordLoginFailure('admin@example.com', '1.2.3.4');
+
+      expect(failures).toBe(3);
+      expect(await checkLoginThrottle('admin@example.com', '5.6.7.8')).toMatchObject({ allowed: false, reason: 'delay' });
+    });
+
+    it('should clear failures when the password completes a sign-in without 2FA', async () => {
+      for (let i = 0; i < 3; i++) {
+        await recordLoginFailure('buyer@example.com', '1.2.3.4');
+      }
+      await recordPasswordSuccess('buyer@example.com', false);
+
+      expect((await checkLoginThrottle('buyer@example.com', '1.2.3.4')).allowed).toBe(true);
+    });
+  });
+
+  describe('isAccountLocked', () => {
+    it('should only treat future lock times as locked', () => {
+      const now = new Date('2025-06-01T10:00:00Z');
+      expect(isAccountLocked({ lockedUntil: new Date('2025-06-01T10:15:00Z') }, now)).toBe(true);
+      expect(isAccountLocked({ lockedUntil: new Date('2025-06-01T09:59:00Z') }, now)).toBe(false);
+      expect(isAccountLocked({}, now)).toBe(false);
+    });
+  });
+});
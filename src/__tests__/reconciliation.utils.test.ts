@@ -0,0 +1,94 @@
+import { inspectOrder, RazorpayPaymentsClient } from '../utils/reconciliation.utils';
+
+const createMockClient = (payments: any[]): RazorpayPaymentsClient & { fetchPayment: jest.Mock; fetchOrderPayments: jest.Mock } => ({
+  fetchPayment: jest.fn(async (paymentId: string) => {
+    const payment = payments.find(item => item.id === paymentId);
+    if (!payment) throw new Error('Payment not found');
+    return payment;
+  }),
+  fetchOrderPayments: jest.fn(async () => payments)
+});
+
+const createOrder = (overrides: Record<string, any> = {}) => ({
+  _id: 'order_1',
+  orderNumber: 'DP-0001',
+  razorpayOrderId: 'order_rzp_1',
+  paymentStatus: 'pending',
+  totalAmount: 499,
+  emailSent: false,
+  pdfDelivered: false,
+  ...overrides
+}) as any;
+
+describe('Reconciliation Utilities', () => {
+  describe('inspectOrder', () => {
+    it('should report a captured payment the order missed', async () => {
+      const client = createMockClient([
+        { id: 'pay_failed', status: 'failed', amount: 49900 },
+        { id: 'pay_ok', status: 'captured', captured: true, amount: 49900 }
+      ]);
+
+      const inspection = await inspectOrder(createOrder({ paymentStatus: 'failed' }), client);
+
+      expect(inspection?.type).toBe('missed_capture');
+      expect(inspection?.payment.id).toBe('pay_ok');
+      expect(client.fetchOrderPayments).toHaveBeenCalledWith('order_rzp_1');
+    });
+
+    it('should report a capture for the wrong amount', async () => {
+      const client = createMockClient([{ id: 'pay_ok', status: 'captured', captured: true, amount: 100 }]);
+
+      const inspection = await inspectOrder(createOrder(), client);
+
+      expect(inspection?.type).toBe('amount_mismatch');
+      expect(inspection?.expectedAmountPaise).toBe(49900);
+    });
+
+    it('should leave orders already held for review alone', async () => {
+      const client = createMockClient([{ id: 'pay_ok', status: 'captured', captured: true, amount: 100 }]);
+      const order = createOrder({
+        paymentStatus: 'processing',
+        razorpayPaymentId: 'pay_ok',
+        paymentReview: { status: 'flagged', capturedAmountPaise: 100 }
+      });
+
+      expect(await inspectOrder(order, client)).toBeNull();
+    });
+
+    it('should fetch the recorded payment when the order listing does not include it', async () => {
+      const client = createMockClient([{ id: 'pay_ok', status: 'captured', captured: true, amount: 49900 }]);
+      client.fetchOrderPayments.mockResolvedValueOnce([]);
+
+      const order = createOrder({ paymentStatus: 'completed', razorpayPaymentId: 'pay_ok', emailSent: true, pdfDelivered: true });
+
+      expect(await inspectOrder(order, client)).toBeNull();
+      expect(client.fetchPayment).toHaveBeenCalledWith('pay_ok');
+    });
+
+    it('should report completed orders that were never delivered or never captured', async () => {
+      const captured = createMockClient([{ id: 'pay_ok', status: 'captured', captured: true, amount: 49900 }]);
+      const undelivered = await inspectOrder(createOrder({ paymentStatus: 'completed', razorpayPaymentId: 'pay_ok' }), captured);
+      expect(undelivered?.type).toBe('undelivered');
+
+      const notCaptured = createMockClient([{ id: 'pay_ok', status: 'failed', amount: 49900 }]);
+      const missing = await inspectOrder(createOrder({ paymentStatus: 'completed', razorpayPaymentId: 'pay_ok' }), notCaptured);
+      expect(missing?.type).toBe('completed_without_capture');
+    });
+
+    it('should report authorized payments that were never captured', async () => {
+      const client = createMockClient([{ id: 'pay_auth', status: 'authorized', captured: false, amount: 49900 }]);
+
+      expect((await inspectOrder(createOrder(), client))?.type).toBe('authorized_not_captured');
+    });
+
+    it('should skip offline payments and report fetch errors', async () => {
+      const client = createMockClient([]);
+      expect(await inspectOrder(createOrder({ paymentStatus: 'completed', razorpayPaymentId: 'manual_123' }), client)).toBeNull();
+      expect(client.fetchOrderPayments).not.toHaveBeenCalled();
+
+      client.fetchOrderPayments.mockRejectedValueOnce(new Error('Failed to fetch order payments'));
+      const inspection = await inspectOrder(createOrder(), client);
+      expect(inspection).toEqual(expect.objectContaining({ type: 'fetch_error', detail: 'Failed to fetch order payments' }));
+    });
+  });
+});
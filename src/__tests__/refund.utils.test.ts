@@ -0,0 +1,24 @@
+import { planRefundAmount } from '../utils/refund.utils';
+
+describe('Refund Utilities', () => {
+  describe('planRefundAmount', () => {
+    it('should default to a full refund of everything still refundable', () => {
+      expect(planRefundAmount(49900, 0)).toEqual({ amountPaise: 49900, isFullRefund: true });
+      expect(planRefundAmount(49900, 10000)).toEqual({ amountPaise: 39900, isFullRefund: true });
+    });
+
+    it('should allow partial refunds within the captured amount', () => {
+      expect(planRefundAmount(49900, 0, 10000)).toEqual({ amountPaise: 10000, isFullRefund: false });
+    });
+
+    it('should reject refunds beyond what is refundable', () => {
+      expect(planRefundAmount(49900, 40000, 10000).error).toBeDefined();
+      expect(planRefundAmount(49900, 49900).error).toBe('Order has already been fully refunded');
+    });
+
+    it('should reject non-positive or fractional paise amounts', () => {
+      expect(planRefundAmount(49900, 0, 0).error).toBeDefined();
+      expect(planRefundAmount(49900, 0, 10.5).error).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  tokenize,
+  boundedLevenshtein,
+  matchTerm,
+  buildSearchIndex,
+  scoreQuery,
+  parseSearchParams,
+  parseListingQuery,
+  searchCatalog,
+  autocomplete,
+  getPriceBand,
+  SearchableProduct
+} from '../utils/search.utils';
+
+const product = (overrides: Partial<SearchableProduct>): SearchableProduct => ({
+  _id: overrides.slug,
+  name: 'Pack',
+  slug: 'pack',
+  description: '',
+  category: 'marketing',
+  subcategory: 'writing',
+  tags: [],
+  price: 299,
+  averageRating: 0,
+  totalReviews: 0,
+  salesCount: 0,
+  order: 0,
+  createdAt: new Date('2025-01-01'),
+  ...overrides
+});
+
+const catalog = [
+  product({ slug: 'wedding', name: 'Wedding Photography Prompts', subcategory: 'image', category: 'photography', tags: ['wedding', 'portrait'], price: 499, averageRating: 4.6, salesCount: 40, createdAt: new Date('2025-03-01') }),
+  product({ slug: 'instagram', name: 'Instagram Caption Pack', description: 'Captions for wedding reels and posts', tags: ['social'], price: 199, averageRating: 4.1, salesCount: 90 }),
+  product({ slug: 'portrait', name: 'Portrait Lighting Prompts', subcategory: 'image', category: 'photography', tags: ['portrait'], price: 999, averageRating: 3.2, salesCount: 10, createdAt: new Date('2025-02-01') }),
+  product({ slug: 'email', name: 'Cold Email Templates', tags: ['email', 'sales'], price: 1499, averageRating: 0, salesCount: 5, order: -1 })
+];
+
+const index = buildSearchIndex(catalog);
+const slugs = (result: { products: SearchableProduct[] }) => result.products.map(item => item.slug);
+
+describe('Search Utilities', () => {
+  describe('tokenize', () => {
+    it('should lowercase, strip accents and split on punctuation', () => {
+      expect(tokenize('Café-Style  PROMPTS, v2!')).toEqual(['cafe', 'style', 'prompts', 'v2']);
+    });
+
+    it('should keep Devanagari words', () => {
+      expect(tokenize('शादी prompts')).toEqual(['शादी', 'prompts']);
+    });
+  });
+
+  describe('boundedLevenshtein', () => {
+    it('should measure edit distance and stop past the bound', () => {
+      expect(boundedLevenshtein('wedding', 'weding', 2)).toBe(1);
+      expect(boundedLevenshtein('portrait', 'protrait', 2)).toBe(2);
+      expect(boundedLevenshtein('email', 'wedding', 1)).toBe(2);
+    });
+  });
+
+  describe('matchTerm', () => {
+    it('should rank exact over prefix over typo matches', () => {
+      expect(matchTerm('wedding', 'wedding')).toBeGreaterThan(matchTerm('wed', 'wedding'));
+      expect(matchTerm('wed', 'wedding')).toBeGreaterThan(matchTerm('weding', 'wedding'));
+      expect(matchTerm('weding', 'wedding')).toBeGreaterThan(0);
+    });
+
+    it('should not tolerate typos in short words', () => {
+      expect(matchTerm('cat', 'hat')).toBe(0);
+    });
+  });
+
+  describe('scoreQuery', () => {
+    it('should weight name matches above description matches', () => {
+      const scores = scoreQuery(index, 'wedding');
+      expect(scores.get(0)).toBeGreaterThan(scores.get(1)!);
+    });
+
+    it('should require every query word to match', () => {
+      const scores = scoreQuery(index, 'portrait lighting');
+      expect(Array.from(scores.keys())).toEqual([2]);
+    });
+
+    it('should ignore filler words', () => {
+      expect(scoreQuery(index, 'prompts for the portrait').size).toBe(2);
+    });
+  });
+
+  describe('parseSearchParams', () => {
+    it('should read lists and numbers and fall back on bad values', () => {
+      const params = parseSearchParams({
+        search: ' wedding ',
+        category: 'photography,marketing',
+        priceBand: ['under_200', 'bogus'],
+        minRating: '4',
+        maxPrice: 'abc',
+        sort: 'cheapest',
+        limit: '500'
+      });
+
+      expect(params).toMatchObject({
+        q: 'wedding',
+        categories: ['photography', 'marketing'],
+        priceBands: ['under_200'],
+        minRating: 4,
+        maxPrice: undefined,
+        sort: 'relevance',
+        page: 1,
+        limit: 50
+      });
+    });
+  });
+
+  describe('parseListingQuery', () => {
+    it('should keep the listing filters when a sort is given', () => {
+      // GET /?category=x&sort=price_asc
+      const listing = parseListingQuery({ category: 'x', sort: 'price_asc' });
+
+      expect(listing.filter).toEqual({ isActive: true, category: 'x' });
+      expect(listing.sort).toEqual({ price: 1, order: 1, createdAt: -1 });
+      expect(listing).toMatchObject({ page: 1, limit: 12 });
+    });
+
+    it('should match one exact category rather than splitting it like search does', () => {
+      expect(parseListingQuery({ category: 'a,b' }).filter.category).toBe('a,b');
+    });
+
+    it('should read subcategories and the price range, and fall back to catalog order', () => {
+      const listing = parseListingQuery({ subcategory: 'wedding, birthday', minPrice: '100', maxPrice: 'abc', sort: 'cheapest' });
+
+      expect(listing.filter).toEqual({
+        isActive: true,
+        subcategory: { $in: ['wedding', 'birthday'] },
+        price: { $gte: 100 }
+      });
+      expect(listing.sort).toEqual({ order: 1, createdAt: -1 });
+    });
+  });
+
+  describe('getPriceBand', () => {
+    it('should place prices in half-open bands', () => {
+      expect(getPriceBand(199)?.value).toBe('under_200');
+      expect(getPriceBand(200)?.value).toBe('200_499');
+      expect(getPriceBand(5000)?.value).toBe('1000_plus');
+    });
+  });
+
+  describe('searchCatalog', () => {
+    it('should rank by relevance for text searches', () => {
+      const result = searchCatalog(index, parseSearchParams({ q: 'wedding' }));
+      expect(slugs(result)).toEqual(['wedding', 'instagram']);
+      expect(result.total).toBe(2);
+    });
+
+    it('should tolerate typos and prefixes', () => {
+      expect(slugs(searchCatalog(index, parseSearchParams({ q: 'weding' })))[0]).toBe('wedding');
+      expect(slugs(searchCatalog(index, parseSearchParams({ q: 'phot' })))).toEqual(['wedding', 'portrait']);
+    });
+
+    it('should use catalog order without a query', () => {
+      expect(slugs(searchCatalog(index, parseSearchParams({})))[0]).toBe('email');
+    });
+
+    it('should support each sort mode', () => {
+      expect(slugs(searchCatalog(index, parseSearchParams({ sort: 'price_asc' })))).toEqual(['instagram', 'wedding', 'portrait', 'email']);
+      expect(slugs(searchCatalog(index, parseSearchParams({ sort: 'price_desc' })))[0]).toBe('email');
+      expect(slugs(searchCatalog(index, parseSearchParams({ sort: 'rating' })))[0]).toBe('wedding');
+      expect(slugs(searchCatalog(index, parseSearchParams({ sort: 'newest' })))[0]).toBe('wedding');
+      expect(slugs(searchCatalog(index, parseSearchParams({ sort: 'bestselling' })))[0]).toBe('instagram');
+    });
+
+    it('should count each facet without its own filter', () => {
+      const result = searchCatalog(index, parseSearchParams({ category: 'photography', minRating: '4' }));
+
+      expect(slugs(result)).toEqual(['wedding']);
+      expect(result.facets.category).toEqual([
+        { value: 'marketing', count: 1 },
+        { value: 'photography', count: 1 }
+      ]);
+      expect(result.facets.rating.find(facet => facet.min === 3)?.count).toBe(2);
+      expect(result.facets.priceBand.map(band => band.count)).toEqual([0, 1, 0, 0]);
+    });
+
+    it('should paginate', () => {
+      const result = searchCatalog(index, parseSearchParams({ sort: 'price_asc', page: '2', limit: '3' }));
+      expect(slugs(result)).toEqual(['email']);
+      expect(result.pages).toBe(2);
+    });
+  });
+
+  describe('autocomplete', () => {
+    it('should complete the last word and suggest matching products', () => {
+      const suggestions = autocomplete(index, 'por');
+      expect(suggestions.terms).toEqual(['portrait']);
+      expect(suggestions.products.map(item => item.slug)).toEqual(['portrait', 'wedding']);
+    });
+
+    it('should return nothing for an empty query', () => {
+      expect(autocomplete(index, '  ')).toEqual({ terms: [], products: [] });
+    });
+  });
+});
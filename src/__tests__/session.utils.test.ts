@@ -0,0 +1,49 @@
+import * as jwt from 'jsonwebtoken';
+import { getDeviceName, parseRefreshToken, signGuestAccessToken } from '../utils/session.utils';
+
+describe('Session Utilities', () => {
+  describe('parseRefreshToken', () => {
+    it('should split a refresh token into its session id and secret', () => {
+      expect(parseRefreshToken('64b7f0c2a1b2c3d4e5f60718.abcdef')).toEqual({
+        sessionId: '64b7f0c2a1b2c3d4e5f60718',
+        secret: 'abcdef'
+      });
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(parseRefreshToken('')).toBeNull();
+      expect(parseRefreshToken('not-an-id.abcdef')).toBeNull();
+      expect(parseRefreshToken('64b7f0c2a1b2c3d4e5f60718')).toBeNull();
+      expect(parseRefreshToken('64b7f0c2a1b2c3d4e5f60718.abc.def')).toBeNull();
+    });
+  });
+
+  describe('getDeviceName', () => {
+    it('should describe common browsers and platforms', () => {
+      expect(getDeviceName('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36'))
+        .toBe('Chrome on Windows');
+      expect(getDeviceName('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'))
+        .toBe('Safari on iOS');
+      expect(getDeviceName('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36 Edg/120.0'))
+        .toBe('Edge on Windows');
+    });
+
+    it('should fall back for unknown agents', () => {
+      expect(getDeviceName(undefined)).toBe('Unknown device');
+      expect(getDeviceName('curl/8.0')).toBe('Unknown device');
+    });
+  });
+
+  describe('signGuestAccessToken', () => {
+    it('should scope guest tokens to an email and session without a user', () => {
+      const decoded = jwt.decode(signGuestAccessToken('buyer@example.com', '64b7f0c2a1b2c3d4e5f60718')) as any;
+
+      expect(decoded).toEqual(expect.objectContaining({
+        scope: 'guest',
+        guestEmail: 'buyer@example.com',
+        sessionId: '64b7f0c2a1b2c3d4e5f60718'
+      }));
+      expect(decoded.userId).toBeUndefined();
+    });
+  });
+});
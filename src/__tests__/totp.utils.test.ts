@@ -0,0 +1,68 @@
+import {
+  base32Encode,
+  base32Decode,
+  getTotpCode,
+  getTotpStep,
+  verifyTotpCode,
+  getOtpauthUri,
+  generateRecoveryCodes,
+  encryptTotpSecret,
+  decryptTotpSecret
+} from '../utils/totp.utils';
+
+// Secret from the RFC 6238 test vectors ("12345678901234567890")
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP Utilities', () => {
+  describe('base32', () => {
+    it('should round-trip bytes', () => {
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(RFC_SECRET);
+      expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    });
+  });
+
+  describe('getTotpCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(getTotpCode(RFC_SECRET, getTotpStep(new Date(59 * 1000)))).toBe('287082');
+      expect(getTotpCode(RFC_SECRET, getTotpStep(new Date(1111111109 * 1000)))).toBe('081804');
+      expect(getTotpCode(RFC_SECRET, getTotpStep(new Date(1234567890 * 1000)))).toBe('005924');
+    });
+  });
+
+  describe('verifyTotpCode', () => {
+    const now = new Date(1234567890 * 1000);
+
+    it('should accept the current code and allow one step of drift', () => {
+      const step = getTotpStep(now);
+      expect(verifyTotpCode(RFC_SECRET, '005924', now)).toBe(step);
+      expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+      expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step - 2), now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotpCode(RFC_SECRET, '', now)).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, '12345', now)).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, 'abcdef', now)).toBeNull();
+    });
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = getOtpauthUri(RFC_SECRET, 'admin@example.com');
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Desi%20Prompts%3Aadmin%40example\.com\?/);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('issuer=Desi+Prompts');
+  });
+
+  it('should generate distinct recovery codes', () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+  });
+
+  it('should encrypt secrets at rest', () => {
+    const encrypted = encryptTotpSecret(RFC_SECRET);
+    expect(encrypted).not.toContain(RFC_SECRET);
+    expect(decryptTotpSecret(encrypted)).toBe(RFC_SECRET);
+  });
+});
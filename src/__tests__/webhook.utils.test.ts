@@ -0,0 +1,15 @@
+import { getWebhookEventId } from '../utils/webhook.utils';
+
+describe('Webhook Utilities', () => {
+  describe('getWebhookEventId', () => {
+    it('should use the Razorpay event id header when present', () => {
+      expect(getWebhookEventId('evt_123', '{"event":"payment.captured"}')).toBe('evt_123');
+    });
+
+    it('should fall back to a stable hash of the body', () => {
+      const body = '{"event":"refund.processed"}';
+      expect(getWebhookEventId(undefined, body)).toBe(getWebhookEventId(undefined, body));
+      expect(getWebhookEventId(undefined, body)).not.toBe(getWebhookEventId(undefined, '{"event":"refund.created"}'));
+    });
+  });
+});
@@ -9,10 +9,14 @@ interface EnvironmentConfig {
   nodeEnv: string;
   mongoUri: string;
   jwtSecret: string;
-  jwtExpiresIn: string;
+  jwtExpiresIn: string; // Access token lifetime; sessions are kept alive with refresh tokens
+  refreshTokenTtlDays: number;
+  adminTwoFactorRequired: boolean;
+  twoFactorEncryptionKey?: string; // Encrypts TOTP secrets at rest; derived from the JWT secret when unset
   frontendUrl: string;
   adminUrl: string;
   corsOrigins: string[];
+  trustProxyHops: number; // Reverse proxies in front of the API; client IPs are read from X-Forwarded-For past these hops only
   google: {
     clientId: string;
     clientSecret: string;
@@ -34,6 +38,31 @@ interface EnvironmentConfig {
     secretAccessKey: string;
     endpoint: string;
   };
+  invoice: {
+    prefix: string;
+    sellerName: string;
+    sellerGstin: string;
+    sellerAddress: string;
+    sellerStateCode: string;
+    sacCode: string;
+    gstRate: number;
+  };
+  downloads: {
+    maxDownloads: number;
+    maxDevices: number;
+    maxIpAddresses: number;
+    tokenTtlDays: number;
+    linkTtlSeconds: number; // Lifetime of the signed S3 URL handed out per download
+  };
+  reconciliation: {
+    intervalMinutes: number; // 0 disables the scheduled run
+    lookbackHours: number;
+    minAgeMinutes: number; // Leave orders alone while the buyer may still be at checkout
+  };
+  accountLockout: {
+    maxFailures: number; // Failed sign-ins within the window before the account is locked
+    durationMinutes: number;
+  };
 }
 
 const getEnvironmentConfig = (): EnvironmentConfig => {
@@ -52,7 +81,10 @@ const getEnvironmentConfig = (): EnvironmentConfig => {
     jwtSecret: isProduction
       ? process.env.JWT_SECRET_PROD || process.env.JWT_SECRET || 'fallback-production-secret'
       : process.env.JWT_SECRET_DEV || process.env.JWT_SECRET || 'fallback-development-secret',
-    jwtExpiresIn: process.env.JWT_EXPIRES_IN || '7d',
+    jwtExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30'),
+    adminTwoFactorRequired: process.env.ADMIN_2FA_REQUIRED !== 'false',
+    twoFactorEncryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY,
     frontendUrl: isProduction
       ? process.env.FRONTEND_URL_PROD || process.env.FRONTEND_URL || 'https://desiprompts.in'
       : process.env.FRONTEND_URL_DEV || process.env.FRONTEND_URL || 'http://localhost:5173',
@@ -62,6 +94,7 @@ const getEnvironmentConfig = (): EnvironmentConfig => {
     corsOrigins: (isProduction
       ? process.env.CORS_ORIGINS_PROD || process.env.CORS_ORIGINS || 'https://desiprompts.in,https://www.desiprompts.in'
       : process.env.CORS_ORIGINS_DEV || process.env.CORS_ORIGINS || 'http://localhost:5173,http://localhost:5174').split(','),
+    trustProxyHops: parseInt(process.env.TRUST_PROXY_HOPS || '1'),
     google: {
       clientId: process.env.GOOGLE_CLIENT_ID || '',
       clientSecret: process.env.GOOGLE_CLIENT_SECRET || '',
@@ -79,6 +112,31 @@ const getEnvironmentConfig = (): EnvironmentConfig => {
       accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
       secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
       endpoint: process.env.S3_ENDPOINT || 'https://s3.eu-north-1.amazonaws.com',
+    },
+    invoice: {
+      prefix: process.env.INVOICE_PREFIX || 'DP',
+      sellerName: process.env.INVOICE_SELLER_NAME || 'Desi Prompts',
+      sellerGstin: process.env.INVOICE_SELLER_GSTIN || '',
+      sellerAddress: process.env.INVOICE_SELLER_ADDRESS || '',
+      sellerStateCode: process.env.INVOICE_SELLER_STATE_CODE || '',
+      sacCode: process.env.INVOICE_SAC_CODE || '998431', // Online text based information
+      gstRate: parseFloat(process.env.INVOICE_GST_RATE || '18'),
+    },
+    downloads: {
+      maxDownloads: parseInt(process.env.DOWNLOAD_MAX_COUNT || '5'),
+      maxDevices: parseInt(process.env.DOWNLOAD_MAX_DEVICES || '3'),
+      maxIpAddresses: parseInt(process.env.DOWNLOAD_MAX_IPS || '5'),
+      tokenTtlDays: parseInt(process.env.DOWNLOAD_TOKEN_TTL_DAYS || '15'),
+      linkTtlSeconds: parseInt(process.env.DOWNLOAD_LINK_TTL_SECONDS || '300'),
+    },
+    reconciliation: {
+      intervalMinutes: parseInt(process.env.RECONCILIATION_INTERVAL_MINUTES || '30'),
+      lookbackHours: parseInt(process.env.RECONCILIATION_LOOKBACK_HOURS || '72'),
+      minAgeMinutes: parseInt(process.env.RECONCILIATION_MIN_AGE_MINUTES || '15'),
+    },
+    accountLockout: {
+      maxFailures: parseInt(process.env.ACCOUNT_LOCKOUT_MAX_FAILURES || '10'),
+      durationMinutes: parseInt(process.env.ACCOUNT_LOCKOUT_MINUTES || '15'),
     }
   };
 
@@ -111,6 +169,10 @@ const getEnvironmentConfig = (): EnvironmentConfig => {
     console.warn('⚠️  S3 credentials not configured. File uploads will be disabled.');
   }
 
+  if (!config.invoice.sellerGstin) {
+    console.warn('⚠️  Seller GSTIN not configured. Tax invoices will be issued without a GSTIN.');
+  }
+
   // Validate required Google OAuth credentials
   if (!config.google.clientId || !config.google.clientSecret) {
     console.warn('⚠️  Google OAuth credentials not configured. Google authentication will be disabled.');
@@ -133,6 +195,15 @@ export const isGoogleOAuthEnabled = (): boolean => {
   return !!(env.google.clientId && env.google.clientSecret);
 };
 
+// Public URL of this API, used for links that point back at the backend (e.g. download links in emails)
+export const getBackendUrl = (): string => {
+  const backendUrl = env.mode === 'production'
+    ? process.env.BACKEND_URL_PROD || process.env.BACKEND_URL || 'https://desi-prompts-backend2-3.onrender.com'
+    : process.env.BACKEND_URL_DEV || process.env.BACKEND_URL || `http://localhost:${env.port}`;
+
+  return backendUrl.replace(/\/$/, '');
+};
+
 // Helper to get the correct callback URL based on environment
 export const getGoogleCallbackUrl = (): string => {
   // For the callback URL, we need to use the backend URL, not the frontend URL
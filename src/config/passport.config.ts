@@ -2,6 +2,8 @@ import passport from 'passport';
 import { Strategy as GoogleStrategy } from 'passport-google-oauth20';
 import { User } from '../models/User.model';
 import { env, isGoogleOAuthEnabled, getGoogleCallbackUrl } from './environment.config';
+import { claimGuestRecords } from '../utils/customer.utils';
+import { verifyGoogleLinkToken } from '../utils/oauth.utils';
 
 // Configure Google OAuth strategy only if credentials are available
 if (isGoogleOAuthEnabled()) {
@@ -11,40 +13,62 @@ if (isGoogleOAuthEnabled()) {
         clientID: env.google.clientId,
         clientSecret: env.google.clientSecret,
         callbackURL: getGoogleCallbackUrl(),
+        passReqToCallback: true
       },
-    async (_accessToken, _refreshToken, profile, done) => {
+    async (req, _accessToken, _refreshToken, profile, done) => {
       try {
-        // Check if user already exists with this Google ID
-        let user = await User.findOne({ 
-          $or: [
-            { googleId: profile.id },
-            { email: profile.emails?.[0]?.value }
-          ]
-        });
+        const email = profile.emails?.[0]?.value?.toLowerCase();
+        const googleUser = await User.findOne({ googleId: profile.id });
 
-        if (user) {
-          // Update Google ID if user exists but doesn't have it
-          if (!user.googleId) {
-            user.googleId = profile.id;
-            await user.save();
+        // Linking from account settings: the state carries a token issued after the
+        // user re-entered their password; the callback route has already checked the
+        // state belongs to this browser
+        const link = verifyGoogleLinkToken((req as any).googleLinkToken);
+        if (link) {
+          const user = await User.findById(link.userId);
+          if (!user || (user.tokenVersion || 0) !== link.tokenVersion) {
+            return done(null, false, { message: 'link_expired' });
+          }
+          if (googleUser && String(googleUser._id) !== String(user._id)) {
+            return done(null, false, { message: 'google_account_in_use' });
+          }
+          if (user.googleId && user.googleId !== profile.id) {
+            return done(null, false, { message: 'another_google_account_linked' });
           }
-          return done(null, user);
+
+          user.googleId = profile.id;
+          await user.save();
+          console.log('Google account linked:', { userId: user._id });
+          return done(null, user, { linked: true });
+        }
+
+        if (googleUser) {
+          return done(null, googleUser);
+        }
+
+        // Never attach Google to an existing account just because the emails match;
+        // the owner has to link it after signing in with their password
+        if (email && await User.exists({ email })) {
+          return done(null, false, { message: 'account_exists' });
         }
 
-        // Create new user
+        // Create new user. It has no password until the user sets one.
         const newUser = new User({
           googleId: profile.id,
           name: profile.displayName || `${profile.name?.givenName} ${profile.name?.familyName}`,
-          email: profile.emails?.[0]?.value,
-          password: 'google-oauth-user', // Placeholder password for OAuth users
+          email,
           isVerified: true, // Google accounts are pre-verified
           role: 'customer'
         });
 
         await newUser.save();
+
+        // Google has verified the email, so earlier guest purchases can be linked straight away
+        await claimGuestRecords(newUser).catch(error => console.error('Failed to link guest records:', error));
+
         return done(null, newUser);
       } catch (error) {
-        return done(error, undefined);
+        return done(error as Error, undefined);
       }
     }
   )
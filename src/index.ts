@@ -4,6 +4,8 @@ import dotenv from 'dotenv';
 import mongoose from 'mongoose';
 import { errorHandler } from './middleware/error.middleware';
 import { env } from './config/environment.config';
+import { scheduleReconciliation } from './utils/reconciliation.utils';
+import { scheduleCouponReservationExpiry } from './utils/coupon.utils';
 
 // Load environment variables
 dotenv.config();
@@ -11,6 +13,10 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Only the proxies we run behind may tell us the client IP; anything further left in
+// X-Forwarded-For comes from the client and is ignored
+app.set('trust proxy', env.trustProxyHops);
+
 // Configure CORS with specific origins and additional options
 const corsOptions = {
   origin: env.corsOrigins,
@@ -78,6 +84,10 @@ app.use('/api/razorpay', razorpayRoutes);
 // Error handling middleware
 app.use(errorHandler);
 
+// Catch payments whose verify-payment call and webhook were both missed
+scheduleReconciliation();
+scheduleCouponReservationExpiry();
+
 // Add a simple test route AFTER all middleware
 app.get('/test', (_req, res) => {
   res.json({ message: 'Server is running!' });
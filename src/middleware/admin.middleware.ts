@@ -1,15 +1,93 @@
 import { Request, Response, NextFunction } from 'express';
+import { AdminPermission } from '../models/User.model';
+import { env } from '../config/environment.config';
 
-export const authorizeAdmin = (req: Request, res: Response, next: NextFunction): void => {
-  if (!(req as any).user) {
+export const isStaffUser = (user: any): boolean => user?.role === 'admin' || user?.role === 'staff';
+
+// Admins hold every permission; staff only the ones they were given
+export const hasPermission = (user: any, permission: AdminPermission): boolean => {
+  if (user?.role === 'admin') return true;
+  return user?.role === 'staff' && Array.isArray(user.permissions) && user.permissions.includes(permission);
+};
+
+// Staff powers only count on a session that passed two-factor authentication, when it is required
+const hasVerifiedStaffSession = (req: Request): boolean => {
+  return !env.adminTwoFactorRequired || !!(req as any).authSession?.mfaVerifiedAt;
+};
+
+// For routes open to customers that give staff extra access: the permission must be held
+// and, like in the admin panel, the session must have passed 2FA
+export const requestHasPermission = (req: Request, permission: AdminPermission): boolean => {
+  return hasPermission((req as any).user, permission) && hasVerifiedStaffSession(req);
+};
+
+// An admin account on a session that passed 2FA
+export const requestIsAdmin = (req: Request): boolean => {
+  return (req as any).user?.role === 'admin' && hasVerifiedStaffSession(req);
+};
+
+// Checks shared by every admin panel route: a staff account on a session that passed 2FA.
+// Sends the error response and returns false when access is denied.
+const checkStaffAccess = (req: Request, res: Response): boolean => {
+  const user = (req as any).user;
+  if (!user) {
     res.status(401).json({ error: 'Authentication required' });
-    return;
+    return false;
+  }
+
+  if (!isStaffUser(user)) {
+    res.status(403).json({ error: 'Admin access required' });
+    return false;
   }
 
+  // Admin access needs a session that passed two-factor authentication
+  if (!hasVerifiedStaffSession(req)) {
+    const enrolled = !!user.twoFactor?.enabled;
+    res.status(403).json({
+      error: enrolled
+        ? 'Please sign in again with your two-factor code to use the admin panel'
+        : 'Set up two-factor authentication to use the admin panel',
+      code: enrolled ? 'MFA_REQUIRED' : 'MFA_ENROLLMENT_REQUIRED'
+    });
+    return false;
+  }
+
+  return true;
+};
+
+// Any staff account, whatever its permissions
+export const authorizeStaff = (req: Request, res: Response, next: NextFunction): void => {
+  if (checkStaffAccess(req, res)) {
+    next();
+  }
+};
+
+// Admin accounts only
+export const authorizeAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  if (!checkStaffAccess(req, res)) return;
+
   if ((req as any).user.role !== 'admin') {
     res.status(403).json({ error: 'Admin access required' });
     return;
   }
 
   next();
-};
\ No newline at end of file
+};
+
+// Staff accounts holding the given permission
+export const requirePermission = (permission: AdminPermission) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!checkStaffAccess(req, res)) return;
+
+    if (!hasPermission((req as any).user, permission)) {
+      res.status(403).json({
+        error: `You do not have the ${permission} permission`,
+        code: 'PERMISSION_DENIED',
+        permission
+      });
+      return;
+    }
+
+    next();
+  };
+};
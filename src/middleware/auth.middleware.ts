@@ -3,11 +3,22 @@ import { Request, Response, NextFunction } from 'express';
 import { User } from '../models/User.model';
 
 import { env } from '../config/environment.config';
+import { ISession } from '../models/Session.model';
+import { getActiveSession } from '../utils/session.utils';
 
 export interface AuthRequest extends Request {
   user?: any;
+  authSession?: any; // The Session the access token was issued for
+  guestEmail?: string; // Set for magic-link guest sessions instead of user
 }
 
+// The guest session a token belongs to, when it is still active
+const getGuestSession = async (decoded: any): Promise<ISession | null> => {
+  if (decoded?.scope !== 'guest' || !decoded.sessionId) return null;
+  const session = await getActiveSession(decoded.sessionId);
+  return session?.guestEmail && session.guestEmail === decoded.guestEmail ? session : null;
+};
+
 export const authenticate = async (
   req: AuthRequest,
   res: Response,
@@ -22,6 +33,11 @@ export const authenticate = async (
     }
 
     const decoded = jwt.verify(token, env.jwtSecret) as any;
+    if (decoded.scope === 'guest') {
+      res.status(401).json({ error: 'Please sign in to an account to continue', code: 'ACCOUNT_REQUIRED' });
+      return;
+    }
+
     const user = await User.findById(decoded.userId).select('-password');
 
     if (!user) {
@@ -29,25 +45,27 @@ export const authenticate = async (
       return;
     }
 
+    // Tokens issued before a password reset are no longer valid
+    if ((decoded.tokenVersion || 0) !== (user.tokenVersion || 0)) {
+      res.status(401).json({ error: 'Session expired. Please log in again.' });
+      return;
+    }
+
+    // Every access token belongs to a session that can be revoked server-side
+    const session = decoded.sessionId ? await getActiveSession(decoded.sessionId) : null;
+    if (!session || String(session.user) !== String(user._id)) {
+      res.status(401).json({ error: 'Session expired. Please log in again.' });
+      return;
+    }
+
     req.user = user;
+    req.authSession = session;
     next();
   } catch (error) {
     res.status(401).json({ error: 'Invalid token' });
   }
 };
 
-export const authorizeAdmin = async (
-  req: AuthRequest,
-  res: Response,
-  next: NextFunction
-): Promise<void> => {
-  if (req.user?.role !== 'admin') {
-    res.status(403).json({ error: 'Admin access required' });
-    return;
-  }
-  next();
-};
-
 export const optionalAuth = async (
   req: AuthRequest,
   _res: Response,
@@ -58,8 +76,22 @@ export const optionalAuth = async (
 
     if (token) {
       const decoded = jwt.verify(token, env.jwtSecret) as any;
+      if (decoded.scope === 'guest') {
+        const session = await getGuestSession(decoded);
+        if (session) {
+          req.guestEmail = session.guestEmail;
+          req.authSession = session;
+        }
+        next();
+        return;
+      }
+
       const user = await User.findById(decoded.userId).select('-password');
-      req.user = user;
+      const session = decoded.sessionId ? await getActiveSession(decoded.sessionId) : null;
+      if (user && session && (decoded.tokenVersion || 0) === (user.tokenVersion || 0)) {
+        req.user = user;
+        req.authSession = session;
+      }
     }
 
     next();
@@ -67,4 +99,27 @@ export const optionalAuth = async (
     // Continue without authentication
     next();
   }
-};
\ No newline at end of file
+};
+// Requires a magic-link guest session; sets req.guestEmail
+export const authenticateGuest = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const token = req.header('Authorization')?.replace('Bearer ', '');
+    const decoded = token ? jwt.verify(token, env.jwtSecret) as any : null;
+    const session = await getGuestSession(decoded);
+
+    if (!session) {
+      res.status(401).json({ error: 'Guest session required. Request a new sign-in link.' });
+      return;
+    }
+
+    req.guestEmail = session.guestEmail;
+    req.authSession = session;
+    next();
+  } catch (error) {
+    res.status(401).json({ error: 'Invalid token' });
+  }
+};
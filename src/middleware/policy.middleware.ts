@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { isStaffUser } from './admin.middleware';
+
+// Actions an account must have a verified email for. Browsing and buying never need one.
+export type PolicyAction = 'post_review' | 'open_general_ticket';
+
+const ACTION_LABELS: Record<PolicyAction, string> = {
+  post_review: 'post reviews',
+  open_general_ticket: 'open general support tickets'
+};
+
+// Guests are checked elsewhere (order ownership); this only gates signed-in accounts
+export const isActionAllowed = (user: any, _action: PolicyAction): boolean => {
+  if (!user) return true;
+  return isStaffUser(user) || user.isVerified === true;
+};
+
+// Block unverified accounts from an action. The action can depend on the request,
+// or be null when the request needs no check.
+export const enforcePolicy = (action: PolicyAction | ((req: Request) => PolicyAction | null)) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const resolved = typeof action === 'function' ? action(req) : action;
+    if (!resolved || isActionAllowed((req as any).user, resolved)) {
+      next();
+      return;
+    }
+
+    res.status(403).json({
+      error: `Please verify your email address to ${ACTION_LABELS[resolved]}`,
+      code: 'EMAIL_NOT_VERIFIED'
+    });
+  };
+};
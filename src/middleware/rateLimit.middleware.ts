@@ -0,0 +1,58 @@
+import { Request, Response, NextFunction } from 'express';
+import { getRateLimitStore } from '../utils/rateLimit.utils';
+import { getClientIp } from '../utils/download.utils';
+
+export interface RateLimitOptions {
+  name: string; // Namespaces the counters, e.g. "signup"
+  windowMs: number;
+  perIp?: number; // Requests allowed per IP in the window
+  perAccount?: number; // Requests allowed per account (signed-in user, guest session or submitted email)
+  message?: string;
+}
+
+// The account a request acts for: the signed-in user, the guest session, or the email it submits
+const getAccountKey = (req: Request): string | null => {
+  const user = (req as any).user;
+  if (user?._id) return `user:${user._id}`;
+  const email = (req as any).guestEmail || req.body?.email || req.body?.guestEmail;
+  return typeof email === 'string' && email.trim() ? `email:${email.toLowerCase().trim()}` : null;
+};
+
+// Limit how often a route can be hit, per IP and/or per account. Counters live in the
+// shared rate limit store, so every limiter moves to Redis together. Place it after
+// optionalAuth/authenticate to count signed-in users by account.
+export const rateLimit = (options: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const store = getRateLimitStore();
+    const checks: { key: string; max: number }[] = [];
+
+    if (options.perIp) {
+      checks.push({ key: `${options.name}:ip:${getClientIp(req)}`, max: options.perIp });
+    }
+    const accountKey = options.perAccount ? getAccountKey(req) : null;
+    if (accountKey) {
+      checks.push({ key: `${options.name}:${accountKey}`, max: options.perAccount! });
+    }
+
+    try {
+      for (const check of checks) {
+        const hit = await store.increment(check.key, options.windowMs);
+        if (hit.count > check.max) {
+          const retryAfterSeconds = Math.max(1, Math.ceil((hit.resetAt - Date.now()) / 1000));
+          res.setHeader('Retry-After', String(retryAfterSeconds));
+          res.status(429).json({
+            error: options.message || 'Too many requests. Please try again later.',
+            code: 'RATE_LIMITED',
+            retryAfter: retryAfterSeconds
+          });
+          return;
+        }
+      }
+    } catch (error) {
+      // A broken store should not take the route down with it
+      console.error('Rate limit store error:', { limiter: options.name, error });
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AuditEntityType =
+  | 'product'
+  | 'demo'
+  | 'review'
+  | 'order'
+  | 'refund'
+  | 'coupon'
+  | 'price_schedule'
+  | 'support_ticket'
+  | 'download_entitlement'
+  | 'reconciliation_run'
+  | 'razorpay_event'
+  | 'user'
+  | 'file';
+
+export interface IAuditChange {
+  path: string;
+  before?: any;
+  after?: any;
+}
+
+// One back-office action. Entries are append-only: the schema refuses updates and deletes.
+export interface IAuditLog extends Document {
+  actor?: mongoose.Types.ObjectId;
+  actorEmail?: string;
+  actorRole?: string;
+  action: string; // e.g. "product.update"
+  entityType: AuditEntityType;
+  entityId?: string;
+  entityLabel?: string; // Human-readable name at the time, e.g. product title or order number
+  changes: IAuditChange[];
+  metadata?: Record<string, any>;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const auditChangeSchema = new Schema<IAuditChange>({
+  path: { type: String, required: true },
+  before: Schema.Types.Mixed,
+  after: Schema.Types.Mixed
+}, { _id: false });
+
+const auditLogSchema = new Schema<IAuditLog>({
+  actor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    immutable: true
+  },
+  actorEmail: { type: String, immutable: true },
+  actorRole: { type: String, immutable: true },
+  action: {
+    type: String,
+    required: true,
+    immutable: true
+  },
+  entityType: {
+    type: String,
+    enum: ['product', 'demo', 'review', 'order', 'refund', 'coupon', 'price_schedule', 'support_ticket', 'download_entitlement', 'reconciliation_run', 'razorpay_event', 'user', 'file'],
+    required: true,
+    immutable: true
+  },
+  entityId: { type: String, immutable: true },
+  entityLabel: { type: String, immutable: true },
+  changes: {
+    type: [auditChangeSchema],
+    immutable: true
+  },
+  metadata: { type: Schema.Types.Mixed, immutable: true },
+  ipAddress: { type: String, immutable: true },
+  userAgent: { type: String, immutable: true }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Refuse every write other than an insert
+const rejectMutation = function(next: (error?: Error) => void) {
+  next(new Error('Audit log entries are append-only'));
+};
+
+auditLogSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    next(new Error('Audit log entries are append-only'));
+    return;
+  }
+  next();
+});
+
+auditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'findOneAndReplace', 'replaceOne', 'findOneAndDelete', 'deleteOne', 'deleteMany'],
+  { document: false, query: true },
+  rejectMutation
+);
+auditLogSchema.pre('deleteOne', { document: true, query: false }, rejectMutation);
+
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
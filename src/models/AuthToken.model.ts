@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type AuthTokenPurpose = 'password_reset' | 'email_verification' | 'magic_link';
+
+// Single-use tokens emailed to users. Only a hash of the token is stored.
+export interface IAuthToken extends Document {
+  user?: mongoose.Types.ObjectId;
+  email?: string; // For tokens sent to an address without an account (magic links)
+  purpose: AuthTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  requestedIp?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const authTokenSchema = new Schema<IAuthToken>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  purpose: {
+    type: String,
+    enum: ['password_reset', 'email_verification', 'magic_link'],
+    required: true
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  usedAt: Date,
+  requestedIp: String
+}, {
+  timestamps: true
+});
+
+authTokenSchema.index({ user: 1, purpose: 1, createdAt: -1 });
+authTokenSchema.index({ email: 1, purpose: 1, createdAt: -1 }, { sparse: true });
+// Let MongoDB clean up tokens a day after they expire
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 24 * 60 * 60 });
+
+export const AuthToken = mongoose.model<IAuthToken>('AuthToken', authTokenSchema);
@@ -0,0 +1,112 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICoupon extends Document {
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'flat';
+  discountValue: number; // Percentage (0-100) or flat amount in rupees
+  maxDiscountAmount?: number; // Cap for percentage coupons
+  minOrderAmount: number; // Minimum cart subtotal required
+  applicableProducts: mongoose.Types.ObjectId[]; // Empty = all products
+  applicableCategories: string[]; // Empty = all categories
+  validFrom?: Date;
+  validUntil?: Date;
+  usageLimit?: number; // Global redemption cap
+  perCustomerLimit?: number; // Redemptions allowed per user / guest email
+  usedCount: number;
+  stackableWithFirstTimeDiscount: boolean; // Stacking policy
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const couponSchema = new Schema<ICoupon>(
+  {
+    code: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+      maxlength: 40
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 300
+    },
+    discountType: {
+      type: String,
+      enum: ['percentage', 'flat'],
+      required: true
+    },
+    discountValue: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    maxDiscountAmount: {
+      type: Number,
+      min: 0
+    },
+    minOrderAmount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    applicableProducts: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Product'
+    }],
+    applicableCategories: [{
+      type: String,
+      trim: true
+    }],
+    validFrom: Date,
+    validUntil: Date,
+    usageLimit: {
+      type: Number,
+      min: 1
+    },
+    perCustomerLimit: {
+      type: Number,
+      min: 1
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    stackableWithFirstTimeDiscount: {
+      type: Boolean,
+      default: false
+    },
+    isActive: {
+      type: Boolean,
+      default: true
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Percentage coupons can never exceed 100%
+couponSchema.pre('validate', function(next) {
+  if (this.discountType === 'percentage' && this.discountValue > 100) {
+    next(new Error('Percentage discount cannot exceed 100'));
+    return;
+  }
+
+  if (this.validFrom && this.validUntil && this.validFrom > this.validUntil) {
+    next(new Error('validFrom must be before validUntil'));
+    return;
+  }
+
+  next();
+});
+
+// Indexes
+couponSchema.index({ code: 1 }, { unique: true });
+couponSchema.index({ isActive: 1, validUntil: 1 });
+
+export const Coupon = mongoose.model<ICoupon>('Coupon', couponSchema);
@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IDownloadEntitlement extends Document {
+  order: mongoose.Types.ObjectId;
+  product: mongoose.Types.ObjectId;
+  tokenVersion: number; // Bumped on reset so previously issued links stop working
+  maxDownloads: number;
+  maxDevices: number;
+  maxIpAddresses: number;
+  downloadCount: number;
+  devices: string[]; // Device fingerprints that have downloaded
+  ipAddresses: string[];
+  expiresAt: Date;
+  lastDownloadedAt?: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const downloadEntitlementSchema = new Schema<IDownloadEntitlement>(
+  {
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true
+    },
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    tokenVersion: {
+      type: Number,
+      default: 1
+    },
+    maxDownloads: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    maxDevices: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    maxIpAddresses: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    downloadCount: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    devices: [{
+      type: String
+    }],
+    ipAddresses: [{
+      type: String
+    }],
+    expiresAt: {
+      type: Date,
+      required: true
+    },
+    lastDownloadedAt: Date,
+    revokedAt: Date,
+    revokedReason: String,
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+downloadEntitlementSchema.index({ order: 1, product: 1 }, { unique: true });
+
+export const DownloadEntitlement = mongoose.model<IDownloadEntitlement>('DownloadEntitlement', downloadEntitlementSchema);
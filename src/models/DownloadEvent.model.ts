@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IDownloadEvent extends Document {
+  entitlement: mongoose.Types.ObjectId;
+  order: mongoose.Types.ObjectId;
+  product: mongoose.Types.ObjectId;
+  user?: mongoose.Types.ObjectId;
+  via: 'token' | 'account' | 'guest' | 'admin';
+  outcome: 'allowed' | 'denied';
+  reason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  fingerprint?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const downloadEventSchema = new Schema<IDownloadEvent>(
+  {
+    entitlement: {
+      type: Schema.Types.ObjectId,
+      ref: 'DownloadEntitlement',
+      required: true
+    },
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true
+    },
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    via: {
+      type: String,
+      enum: ['token', 'account', 'guest', 'admin'],
+      required: true
+    },
+    outcome: {
+      type: String,
+      enum: ['allowed', 'denied'],
+      required: true
+    },
+    reason: String,
+    ipAddress: String,
+    userAgent: String,
+    fingerprint: String
+  },
+  {
+    timestamps: true
+  }
+);
+
+downloadEventSchema.index({ order: 1, createdAt: -1 });
+downloadEventSchema.index({ entitlement: 1, createdAt: -1 });
+
+export const DownloadEvent = mongoose.model<IDownloadEvent>('DownloadEvent', downloadEventSchema);
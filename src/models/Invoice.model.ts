@@ -0,0 +1,123 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IInvoiceParty {
+  name: string;
+  email?: string;
+  gstin?: string;
+  address?: string;
+  stateCode?: string;
+}
+
+export interface IInvoiceLine {
+  description: string;
+  hsnSac: string;
+  quantity: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface IInvoice extends Document {
+  invoiceNumber?: string; // Assigned once the invoice is claimed, e.g. DP/2025-26/000042
+  financialYear: string; // e.g. 2025-26
+  sequence?: number;
+  order: mongoose.Types.ObjectId;
+  issuedAt: Date;
+  seller: IInvoiceParty;
+  buyer: IInvoiceParty;
+  supplyType: 'intra-state' | 'inter-state';
+  gstRate: number;
+  lines: IInvoiceLine[];
+  totals: {
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    total: number;
+  };
+  amountInWords: string;
+  pdfKey?: string;
+  status: 'pending' | 'generated' | 'failed';
+  errorMessage?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const partySchema = new Schema<IInvoiceParty>({
+  name: { type: String, required: true },
+  email: String,
+  gstin: { type: String, uppercase: true, trim: true },
+  address: String,
+  stateCode: String
+}, { _id: false });
+
+const invoiceLineSchema = new Schema<IInvoiceLine>({
+  description: { type: String, required: true },
+  hsnSac: { type: String, required: true },
+  quantity: { type: Number, required: true, min: 1 },
+  taxableValue: { type: Number, required: true, min: 0 },
+  cgst: { type: Number, default: 0, min: 0 },
+  sgst: { type: Number, default: 0, min: 0 },
+  igst: { type: Number, default: 0, min: 0 },
+  total: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+const invoiceSchema = new Schema<IInvoice>(
+  {
+    invoiceNumber: String,
+    financialYear: {
+      type: String,
+      required: true
+    },
+    sequence: Number,
+    order: {
+      type: Schema.Types.ObjectId,
+      ref: 'Order',
+      required: true
+    },
+    issuedAt: {
+      type: Date,
+      default: Date.now
+    },
+    seller: partySchema,
+    buyer: partySchema,
+    supplyType: {
+      type: String,
+      enum: ['intra-state', 'inter-state'],
+      default: 'intra-state'
+    },
+    gstRate: {
+      type: Number,
+      default: 18
+    },
+    lines: [invoiceLineSchema],
+    totals: {
+      taxableValue: { type: Number, default: 0 },
+      cgst: { type: Number, default: 0 },
+      sgst: { type: Number, default: 0 },
+      igst: { type: Number, default: 0 },
+      total: { type: Number, default: 0 }
+    },
+    amountInWords: String,
+    pdfKey: String,
+    status: {
+      type: String,
+      enum: ['pending', 'generated', 'failed'],
+      default: 'pending'
+    },
+    errorMessage: String
+  },
+  {
+    timestamps: true
+  }
+);
+
+// One invoice per order; invoice numbers and per-year sequences unique when assigned
+invoiceSchema.index({ order: 1 }, { unique: true });
+invoiceSchema.index({ invoiceNumber: 1 }, { unique: true, sparse: true });
+invoiceSchema.index({ financialYear: 1, sequence: 1 }, { unique: true, partialFilterExpression: { sequence: { $exists: true } } });
+invoiceSchema.index({ status: 1 });
+
+export const Invoice = mongoose.model<IInvoice>('Invoice', invoiceSchema);
@@ -1,10 +1,93 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// A product delivered as part of a bundle line, with its own buyer copy
+export interface IOrderBundleItem {
+  product: mongoose.Types.ObjectId;
+  name: string;
+  deliveryKey?: string;
+  deliveryPassword?: string;
+  deliveryStatus?: 'pending' | 'ready' | 'failed';
+  deliveryVersion?: number;
+}
+
 export interface IOrderItem {
   product: mongoose.Types.ObjectId;
   name: string;
   price: number;
+  listPrice?: number; // Strikethrough price shown at checkout
   quantity: number;
+  couponDiscount: number; // Share of the coupon discount for this line
+  firstTimeDiscount: number; // Share of the first-time discount for this line
+  lineTotal?: number; // price * quantity minus this line's discounts
+  deliveryKey?: string; // Order-scoped S3 key of the buyer's watermarked copy
+  deliveryPassword?: string; // Unique password for the buyer's copy
+  deliveryStatus?: 'pending' | 'ready' | 'failed';
+  deliveryVersion?: number; // Product version the buyer's copy was made from; 1 when not set
+  bundleItems?: IOrderBundleItem[]; // Set for bundle lines, which are delivered through these instead of their own copy
+}
+
+export interface IOrderPricing {
+  currency: string;
+  listTotal: number; // Sum of list prices
+  subtotal: number; // Sum of selling prices before order-level discounts
+  saleDiscount: number; // listTotal - subtotal
+  couponDiscount: number;
+  firstTimeDiscount: number;
+  totalPayable: number;
+  totalPayablePaise: number; // Amount sent to Razorpay
+}
+
+export interface IOrderBillingDetails {
+  businessName?: string;
+  gstin?: string; // Optional buyer GSTIN for B2B tax invoices
+  address?: string;
+  stateCode?: string;
+}
+
+export interface IOrderPaymentReview {
+  status: 'flagged' | 'resolved';
+  reason: string;
+  expectedAmountPaise?: number;
+  capturedAmountPaise?: number;
+  flaggedAt: Date;
+  resolvedAt?: Date;
+}
+
+export type RefundReasonCode =
+  | 'customer_request'
+  | 'duplicate_payment'
+  | 'product_issue'
+  | 'fraudulent'
+  | 'goodwill'
+  | 'other';
+
+export interface IOrderRefund {
+  idempotencyKey: string;
+  refundId?: string; // Razorpay refund id
+  amountPaise: number;
+  reasonCode: RefundReasonCode;
+  notes?: string;
+  products: mongoose.Types.ObjectId[]; // Lines whose access is withdrawn once the refund is processed
+  status: 'requested' | 'processed' | 'failed';
+  requestedBy?: mongoose.Types.ObjectId;
+  requestedAt: Date;
+  processedAt?: Date;
+  failureReason?: string;
+}
+
+export interface IOrderOfflinePayment {
+  method: 'bank_transfer' | 'upi' | 'cash' | 'other';
+  reference: string; // UTR, transaction or receipt number
+  notes?: string;
+  markedBy: mongoose.Types.ObjectId;
+  markedAt: Date;
+}
+
+export interface IOrderCoupon {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+  discountAmount: number;
+  reserved?: boolean; // True while the order holds one of the coupon's redemptions; unset on orders placed before reservations
 }
 
 export interface IOrder extends Document {
@@ -13,23 +96,55 @@ export interface IOrder extends Document {
   user?: mongoose.Types.ObjectId;
   guestEmail?: string;
   guestName?: string;
+  billingDetails?: IOrderBillingDetails;
   items: IOrderItem[];
+  coupon?: IOrderCoupon;
+  pricing?: IOrderPricing;
   totalAmount: number;
   paymentStatus: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded';
   paymentMethod: string;
   razorpayOrderId?: string;
   razorpayPaymentId?: string;
   razorpaySignature?: string;
+  paymentReview?: IOrderPaymentReview;
+  offlinePayment?: IOrderOfflinePayment; // Set when an admin marks the order paid outside Razorpay
+  refunds: IOrderRefund[];
+  refundStatus?: 'requested' | 'processed' | 'failed'; // Status of the latest refund
+  refundRequestedPaise: number; // Committed to refunds that have not failed
+  refundedAmountPaise: number; // Confirmed by Razorpay
   pdfDelivered: boolean;
   pdfDeliveredAt?: Date;
   emailSent: boolean;
   emailSentAt?: Date;
+  deliveryAttempts?: number; // Times reconciliation retried an incomplete delivery
+  notifyOfUpdates: boolean; // Buyer opted in to emails when a product in the order gets a new version
   isFakeOrder: boolean; // New field to mark fake orders
+  salesRecordedAt?: Date; // When the order was added to product stats; guards against counting it twice
+  salesReversedProducts: mongoose.Types.ObjectId[]; // Products whose sales were taken back out by a refund
   fakeCustomerName?: string; // Name for fake customer
   createdAt: Date;
   updatedAt: Date;
 }
 
+const orderBundleItemSchema = new Schema<IOrderBundleItem>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  deliveryKey: String,
+  deliveryPassword: String,
+  deliveryStatus: {
+    type: String,
+    enum: ['pending', 'ready', 'failed']
+  },
+  deliveryVersion: Number
+}, { _id: false });
+
 const orderItemSchema = new Schema<IOrderItem>({
   product: {
     type: Schema.Types.ObjectId,
@@ -45,14 +160,138 @@ const orderItemSchema = new Schema<IOrderItem>({
     required: true,
     min: 0
   },
+  listPrice: {
+    type: Number,
+    min: 0
+  },
   quantity: {
     type: Number,
     required: true,
     min: 1,
     default: 1
+  },
+  couponDiscount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  firstTimeDiscount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  lineTotal: {
+    type: Number,
+    min: 0
+  },
+  deliveryKey: {
+    type: String
+  },
+  deliveryPassword: {
+    type: String
+  },
+  deliveryStatus: {
+    type: String,
+    enum: ['pending', 'ready', 'failed']
+  },
+  deliveryVersion: {
+    type: Number
+  },
+  bundleItems: {
+    type: [orderBundleItemSchema],
+    default: undefined
   }
 });
 
+const orderCouponSchema = new Schema<IOrderCoupon>({
+  couponId: {
+    type: Schema.Types.ObjectId,
+    ref: 'Coupon',
+    required: true
+  },
+  code: {
+    type: String,
+    required: true
+  },
+  discountAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  reserved: Boolean
+}, { _id: false });
+
+const orderPricingSchema = new Schema<IOrderPricing>({
+  currency: { type: String, default: 'INR' },
+  listTotal: { type: Number, required: true, min: 0 },
+  subtotal: { type: Number, required: true, min: 0 },
+  saleDiscount: { type: Number, default: 0, min: 0 },
+  couponDiscount: { type: Number, default: 0, min: 0 },
+  firstTimeDiscount: { type: Number, default: 0, min: 0 },
+  totalPayable: { type: Number, required: true, min: 0 },
+  totalPayablePaise: { type: Number, required: true, min: 0 }
+}, { _id: false });
+
+const offlinePaymentSchema = new Schema<IOrderOfflinePayment>({
+  method: {
+    type: String,
+    enum: ['bank_transfer', 'upi', 'cash', 'other'],
+    required: true
+  },
+  reference: { type: String, required: true, trim: true },
+  notes: String,
+  markedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  markedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const billingDetailsSchema = new Schema<IOrderBillingDetails>({
+  businessName: { type: String, trim: true },
+  gstin: { type: String, uppercase: true, trim: true },
+  address: { type: String, trim: true },
+  stateCode: { type: String, trim: true }
+}, { _id: false });
+
+const paymentReviewSchema = new Schema<IOrderPaymentReview>({
+  status: {
+    type: String,
+    enum: ['flagged', 'resolved'],
+    default: 'flagged'
+  },
+  reason: { type: String, required: true },
+  expectedAmountPaise: Number,
+  capturedAmountPaise: Number,
+  flaggedAt: { type: Date, default: Date.now },
+  resolvedAt: Date
+}, { _id: false });
+
+const orderRefundSchema = new Schema<IOrderRefund>({
+  idempotencyKey: { type: String, required: true },
+  refundId: String,
+  amountPaise: { type: Number, required: true, min: 1 },
+  reasonCode: {
+    type: String,
+    enum: ['customer_request', 'duplicate_payment', 'product_issue', 'fraudulent', 'goodwill', 'other'],
+    required: true
+  },
+  notes: { type: String, trim: true },
+  products: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Product'
+  }],
+  status: {
+    type: String,
+    enum: ['requested', 'processed', 'failed'],
+    default: 'requested'
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  requestedAt: { type: Date, default: Date.now },
+  processedAt: Date,
+  failureReason: String
+});
+
 const orderSchema = new Schema<IOrder>(
   {
     orderNumber: {
@@ -74,7 +313,10 @@ const orderSchema = new Schema<IOrder>(
       type: String,
       trim: true
     },
+    billingDetails: billingDetailsSchema,
     items: [orderItemSchema],
+    coupon: orderCouponSchema,
+    pricing: orderPricingSchema,
     totalAmount: {
       type: Number,
       required: true,
@@ -92,6 +334,23 @@ const orderSchema = new Schema<IOrder>(
     razorpayOrderId: String,
     razorpayPaymentId: String,
     razorpaySignature: String,
+    paymentReview: paymentReviewSchema,
+    offlinePayment: offlinePaymentSchema,
+    refunds: [orderRefundSchema],
+    refundStatus: {
+      type: String,
+      enum: ['requested', 'processed', 'failed']
+    },
+    refundRequestedPaise: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    refundedAmountPaise: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
     pdfDelivered: {
       type: Boolean,
       default: false
@@ -102,10 +361,26 @@ const orderSchema = new Schema<IOrder>(
       default: false
     },
     emailSentAt: Date,
+    deliveryAttempts: {
+      type: Number,
+      default: 0,
+      min: 0
+    },
+    notifyOfUpdates: {
+      type: Boolean,
+      default: false
+    },
     isFakeOrder: {
       type: Boolean,
       default: false
     },
+    salesRecordedAt: {
+      type: Date
+    },
+    salesReversedProducts: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Product'
+    }],
     fakeCustomerName: {
       type: String,
       trim: true
@@ -165,5 +440,11 @@ orderSchema.index({ user: 1 });
 orderSchema.index({ guestEmail: 1 });
 orderSchema.index({ paymentStatus: 1 });
 orderSchema.index({ createdAt: -1 });
+orderSchema.index({ 'coupon.code': 1, paymentStatus: 1 });
+orderSchema.index({ 'coupon.reserved': 1, paymentStatus: 1, createdAt: 1 });
+orderSchema.index({ 'paymentReview.status': 1 });
+orderSchema.index({ 'refunds.refundId': 1 }, { sparse: true });
+orderSchema.index({ 'items.product': 1, paymentStatus: 1 });
+orderSchema.index({ 'items.bundleItems.product': 1, paymentStatus: 1 });
 
 export const Order = mongoose.model<IOrder>('Order', orderSchema);
\ No newline at end of file
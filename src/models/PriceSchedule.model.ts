@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A time-boxed price for some products, e.g. a festival sale. Products keep their regular
+// price; the scheduled one is worked out whenever prices are read.
+export interface IPriceSchedule extends Document {
+  name: string; // Shown to buyers, e.g. "Diwali Sale"
+  description?: string;
+  discountType: 'percentage' | 'flat' | 'fixed';
+  discountValue: number; // Percentage off (0-100), rupees off, or the new price in rupees
+  products: mongoose.Types.ObjectId[]; // Empty with no categories = every product
+  categories: string[];
+  startsAt: Date;
+  endsAt?: Date; // Open-ended when not set, for a lasting price change
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const priceScheduleSchema = new Schema<IPriceSchedule>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 300
+    },
+    discountType: {
+      type: String,
+      enum: ['percentage', 'flat', 'fixed'],
+      required: true
+    },
+    discountValue: {
+      type: Number,
+      required: true,
+      min: 0
+    },
+    products: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Product'
+    }],
+    categories: [{
+      type: String,
+      trim: true
+    }],
+    startsAt: {
+      type: Date,
+      required: true
+    },
+    endsAt: Date,
+    isActive: {
+      type: Boolean,
+      default: true
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+priceScheduleSchema.pre('validate', function(next) {
+  if (this.discountType === 'percentage' && this.discountValue > 100) {
+    next(new Error('Percentage discount cannot exceed 100'));
+    return;
+  }
+
+  if (this.endsAt && this.startsAt >= this.endsAt) {
+    next(new Error('startsAt must be before endsAt'));
+    return;
+  }
+
+  next();
+});
+
+priceScheduleSchema.index({ isActive: 1, endsAt: 1 });
+priceScheduleSchema.index({ startsAt: -1 });
+
+export const PriceSchedule = mongoose.model<IPriceSchedule>('PriceSchedule', priceScheduleSchema);
@@ -1,6 +1,10 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export type ProductType = 'single' | 'bundle';
+
 export interface IProduct extends Document {
+  type: ProductType; // A bundle is sold as one item and delivers the PDFs of the products it contains
+  bundleProducts: mongoose.Types.ObjectId[]; // Bundles only
   name: string;
   slug: string;
   description: string;
@@ -13,8 +17,9 @@ export interface IProduct extends Document {
   images: string[];
   features: string[];
   tags: string[];
-  pdfUrl: string;
-  pdfPassword: string;
+  pdfUrl?: string; // Not set for bundles
+  pdfPassword?: string;
+  currentVersion: number; // Version of the file pdfUrl points at; history is in ProductVersion
   isActive: boolean;
   salesCount: number; // Total sales (real + fake)
   realSalesCount: number; // Only real customer sales
@@ -25,8 +30,26 @@ export interface IProduct extends Document {
   updatedAt: Date;
 }
 
+// Only bundles may go without their own PDF. Update validators run with the query as `this`.
+const requiredUnlessBundle = function(this: any) {
+  if (this instanceof mongoose.Query) {
+    const update = this.getUpdate() as any;
+    return (update?.type ?? update?.$set?.type) !== 'bundle';
+  }
+  return this.type !== 'bundle';
+};
+
 const productSchema = new Schema<IProduct>(
   {
+    type: {
+      type: String,
+      enum: ['single', 'bundle'],
+      default: 'single'
+    },
+    bundleProducts: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Product'
+    }],
     name: {
       type: String,
       required: true,
@@ -84,11 +107,16 @@ const productSchema = new Schema<IProduct>(
     }],
     pdfUrl: {
       type: String,
-      required: true
+      required: requiredUnlessBundle
     },
     pdfPassword: {
       type: String,
-      required: true
+      required: requiredUnlessBundle
+    },
+    currentVersion: {
+      type: Number,
+      default: 1,
+      min: 1
     },
     isActive: {
       type: Boolean,
@@ -152,5 +180,6 @@ productSchema.index({ subcategory: 1 });
 productSchema.index({ tags: 1 });
 productSchema.index({ isActive: 1, order: 1 });
 productSchema.index({ createdAt: -1 });
+productSchema.index({ bundleProducts: 1 });
 
 export const Product = mongoose.model<IProduct>('Product', productSchema);
\ No newline at end of file
@@ -0,0 +1,49 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Running sales totals for one product, kept up to date as orders complete and are refunded
+// so listings and analytics never have to scan orders. Real and fake (admin-created) sales are kept apart.
+export interface IProductStats extends Document {
+  product: mongoose.Types.ObjectId;
+  realOrders: number; // Completed orders containing the product, net of refunds
+  realUnits: number;
+  realRevenue: number; // Amount charged for the product's lines, after discounts
+  fakeOrders: number;
+  fakeUnits: number;
+  fakeRevenue: number;
+  refundedOrders: number;
+  refundedUnits: number;
+  refundedRevenue: number;
+  bundledUnits: number; // Real units delivered inside bundles; the sale and revenue count for the bundle
+  lastSoldAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const productStatsSchema = new Schema<IProductStats>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    realOrders: { type: Number, default: 0 },
+    realUnits: { type: Number, default: 0 },
+    realRevenue: { type: Number, default: 0 },
+    fakeOrders: { type: Number, default: 0 },
+    fakeUnits: { type: Number, default: 0 },
+    fakeRevenue: { type: Number, default: 0 },
+    refundedOrders: { type: Number, default: 0 },
+    refundedUnits: { type: Number, default: 0 },
+    refundedRevenue: { type: Number, default: 0 },
+    bundledUnits: { type: Number, default: 0 },
+    lastSoldAt: Date
+  },
+  {
+    timestamps: true
+  }
+);
+
+productStatsSchema.index({ product: 1 }, { unique: true });
+productStatsSchema.index({ realUnits: -1 });
+
+export const ProductStats = mongoose.model<IProductStats>('ProductStats', productStatsSchema);
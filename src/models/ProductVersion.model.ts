@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Email to past buyers announcing a version, sent once when an admin asks for it
+export interface IProductVersionNotification {
+  status: 'sending' | 'sent';
+  requestedBy?: mongoose.Types.ObjectId;
+  requestedAt: Date;
+  completedAt?: Date;
+  recipients: number;
+  sent: number;
+  failed: number;
+}
+
+// One released file of a product. The product's pdfUrl always points at the latest version;
+// earlier files are kept here so buyers can still download them.
+export interface IProductVersion extends Document {
+  product: mongoose.Types.ObjectId;
+  version: number; // 1 for the original file, then counting up
+  changelog: string;
+  fileKey: string; // S3 key or, in development, URL of the source PDF
+  pdfPassword?: string; // Password of the source PDF, if it has one
+  releasedAt: Date;
+  releasedBy?: mongoose.Types.ObjectId;
+  notification?: IProductVersionNotification;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const productVersionSchema = new Schema<IProductVersion>(
+  {
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    version: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    changelog: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 5000
+    },
+    fileKey: {
+      type: String,
+      required: true
+    },
+    pdfPassword: {
+      type: String
+    },
+    releasedAt: {
+      type: Date,
+      default: Date.now
+    },
+    releasedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    notification: {
+      status: {
+        type: String,
+        enum: ['sending', 'sent']
+      },
+      requestedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User'
+      },
+      requestedAt: Date,
+      completedAt: Date,
+      recipients: { type: Number, default: 0 },
+      sent: { type: Number, default: 0 },
+      failed: { type: Number, default: 0 }
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+productVersionSchema.index({ product: 1, version: 1 }, { unique: true });
+
+export const ProductVersion = mongoose.model<IProductVersion>('ProductVersion', productVersionSchema);
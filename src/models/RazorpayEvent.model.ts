@@ -1,13 +1,29 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface IRazorpayEventReplay {
+  replayedAt: Date;
+  replayedBy?: mongoose.Types.ObjectId;
+  dryRun: boolean;
+  outcome: 'processed' | 'failed' | 'skipped';
+  statusBefore: string;
+  statusAfter: string;
+  changes: string[]; // What the replay would do (dry run) or was expected to do
+  errorMessage?: string;
+}
+
 export interface IRazorpayEvent extends Document {
   eventId: string;
   eventType: string;
   payload: any;
   processedAt: Date;
   signature: string;
-  status: 'processed' | 'failed' | 'duplicate';
+  status: 'processing' | 'processed' | 'failed' | 'duplicate';
+  processingStartedAt?: Date;
+  attempts: number;
+  duplicateCount: number; // Redeliveries ignored because the event was already handled
   errorMessage?: string;
+  replays: IRazorpayEventReplay[];
+  lastReplayedAt?: Date;
   orderId?: string;
   paymentId?: string;
   refundId?: string;
@@ -20,18 +36,38 @@ export interface IRazorpayEvent extends Document {
   updatedAt: Date;
 }
 
+const replaySchema = new Schema<IRazorpayEventReplay>({
+  replayedAt: { type: Date, default: Date.now },
+  replayedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  dryRun: { type: Boolean, default: false },
+  outcome: {
+    type: String,
+    enum: ['processed', 'failed', 'skipped'],
+    required: true
+  },
+  statusBefore: { type: String },
+  statusAfter: { type: String },
+  changes: [{ type: String }],
+  errorMessage: { type: String }
+}, { _id: false });
+
 const razorpayEventSchema: Schema = new Schema({
   eventId: { type: String, required: true, unique: true },
   eventType: { type: String, required: true },
   payload: { type: Schema.Types.Mixed, required: true },
   processedAt: { type: Date, default: Date.now },
+  processingStartedAt: { type: Date },
+  attempts: { type: Number, default: 0 },
+  duplicateCount: { type: Number, default: 0 },
   signature: { type: String, required: true },
   status: { 
     type: String, 
-    enum: ['processed', 'failed', 'duplicate'],
+    enum: ['processing', 'processed', 'failed', 'duplicate'],
     default: 'processed'
   },
   errorMessage: { type: String },
+  replays: [replaySchema],
+  lastReplayedAt: { type: Date },
   orderId: { type: String },
   paymentId: { type: String },
   refundId: { type: String },
@@ -45,7 +81,7 @@ const razorpayEventSchema: Schema = new Schema({
 });
 
 // Index for faster queries
-razorpayEventSchema.index({ eventId: 1 });
+razorpayEventSchema.index({ status: 1, processingStartedAt: 1 });
 razorpayEventSchema.index({ eventType: 1 });
 razorpayEventSchema.index({ processedAt: -1 });
 razorpayEventSchema.index({ paymentId: 1 });
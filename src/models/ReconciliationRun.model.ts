@@ -0,0 +1,112 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type DiscrepancyType =
+  | 'missed_capture' // Captured at Razorpay, still pending/processing/failed here
+  | 'amount_mismatch' // Captured at Razorpay for a different amount than the order
+  | 'authorized_not_captured' // Authorized but never captured; Razorpay refunds these automatically
+  | 'completed_without_capture' // Completed here with no captured payment at Razorpay
+  | 'payment_id_mismatch' // Completed here with a different payment than the one Razorpay captured
+  | 'undelivered' // Paid and completed, but the email or buyer copies never went out
+  | 'fetch_error';
+
+export interface IReconciliationDiscrepancy {
+  order: mongoose.Types.ObjectId;
+  orderNumber: string;
+  razorpayOrderId: string;
+  type: DiscrepancyType;
+  localStatus: string;
+  razorpayPaymentId?: string;
+  razorpayStatus?: string;
+  expectedAmountPaise?: number;
+  capturedAmountPaise?: number;
+  action: 'fixed' | 'flagged' | 'reported' | 'failed';
+  detail: string;
+}
+
+export interface IReconciliationRun extends Document {
+  trigger: 'schedule' | 'admin';
+  triggeredBy?: mongoose.Types.ObjectId;
+  dryRun: boolean;
+  status: 'running' | 'completed' | 'failed';
+  windowStart: Date;
+  windowEnd: Date;
+  ordersChecked: number;
+  discrepancies: IReconciliationDiscrepancy[];
+  summary: {
+    fixed: number;
+    flagged: number;
+    reported: number;
+    failed: number;
+  };
+  startedAt: Date;
+  finishedAt?: Date;
+  errorMessage?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const discrepancySchema = new Schema<IReconciliationDiscrepancy>({
+  order: { type: Schema.Types.ObjectId, ref: 'Order', required: true },
+  orderNumber: { type: String, required: true },
+  razorpayOrderId: { type: String, required: true },
+  type: {
+    type: String,
+    enum: [
+      'missed_capture',
+      'amount_mismatch',
+      'authorized_not_captured',
+      'completed_without_capture',
+      'payment_id_mismatch',
+      'undelivered',
+      'fetch_error'
+    ],
+    required: true
+  },
+  localStatus: { type: String, required: true },
+  razorpayPaymentId: String,
+  razorpayStatus: String,
+  expectedAmountPaise: Number,
+  capturedAmountPaise: Number,
+  action: {
+    type: String,
+    enum: ['fixed', 'flagged', 'reported', 'failed'],
+    required: true
+  },
+  detail: { type: String, required: true }
+}, { _id: false });
+
+const reconciliationRunSchema = new Schema<IReconciliationRun>({
+  trigger: {
+    type: String,
+    enum: ['schedule', 'admin'],
+    required: true
+  },
+  triggeredBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  dryRun: { type: Boolean, default: false },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    default: 'running'
+  },
+  windowStart: { type: Date, required: true },
+  windowEnd: { type: Date, required: true },
+  ordersChecked: { type: Number, default: 0 },
+  discrepancies: [discrepancySchema],
+  summary: {
+    fixed: { type: Number, default: 0 },
+    flagged: { type: Number, default: 0 },
+    reported: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 }
+  },
+  startedAt: { type: Date, default: Date.now },
+  finishedAt: Date,
+  errorMessage: String
+}, {
+  timestamps: true
+});
+
+reconciliationRunSchema.index({ createdAt: -1 });
+reconciliationRunSchema.index({ status: 1, startedAt: 1 });
+reconciliationRunSchema.index({ 'discrepancies.order': 1 });
+
+export const ReconciliationRun = mongoose.model<IReconciliationRun>('ReconciliationRun', reconciliationRunSchema);
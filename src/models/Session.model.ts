@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SessionRevokedReason =
+  | 'logout'
+  | 'revoked_by_user'
+  | 'revoked_by_admin'
+  | 'refresh_token_reuse'
+  | 'password_change'
+  | 'password_reset'
+  | 'upgraded_to_account';
+
+// One signed-in device. The refresh token rotates on every use; only hashes are stored.
+// Guest sessions (from a magic link) have a guestEmail instead of a user.
+export interface ISession extends Document {
+  user?: mongoose.Types.ObjectId;
+  guestEmail?: string;
+  refreshTokenHash: string;
+  previousTokenHashes: string[]; // Rotated-out tokens, kept to detect reuse
+  deviceName: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastSeenAt: Date;
+  lastRefreshedAt?: Date;
+  mfaVerifiedAt?: Date; // Set when the sign-in passed two-factor authentication
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: function(this: ISession) {
+      return !this.guestEmail;
+    }
+  },
+  guestEmail: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true
+  },
+  previousTokenHashes: [{ type: String }],
+  deviceName: {
+    type: String,
+    default: 'Unknown device'
+  },
+  userAgent: String,
+  ipAddress: String,
+  lastSeenAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastRefreshedAt: Date,
+  mfaVerifiedAt: Date,
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date,
+  revokedReason: {
+    type: String,
+    enum: ['logout', 'revoked_by_user', 'revoked_by_admin', 'refresh_token_reuse', 'password_change', 'password_reset', 'upgraded_to_account']
+  }
+}, {
+  timestamps: true
+});
+
+sessionSchema.index({ user: 1, revokedAt: 1 });
+sessionSchema.index({ guestEmail: 1, revokedAt: 1 }, { sparse: true });
+// Drop sessions a week after they expire
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 7 * 24 * 60 * 60 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
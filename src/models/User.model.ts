@@ -1,14 +1,41 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import * as bcrypt from 'bcryptjs';
 
+export interface IUserTwoFactor {
+  enabled: boolean;
+  secret?: string; // Encrypted TOTP secret
+  pendingSecret?: string; // Encrypted secret awaiting confirmation during enrolment
+  recoveryCodeHashes: string[];
+  lastUsedStep?: number; // Stops a code being used twice
+  enabledAt?: Date;
+}
+
+// Areas of the admin panel a staff account can be given. Admins have all of them.
+export type AdminPermission = 'catalog' | 'orders' | 'refunds' | 'support' | 'reviews' | 'analytics' | 'settings';
+
+export const ADMIN_PERMISSIONS: AdminPermission[] = ['catalog', 'orders', 'refunds', 'support', 'reviews', 'analytics', 'settings'];
+
+// Accounts created through Google before passwords became optional were given this password.
+// It never signs anyone in; src/scripts/clearOAuthPlaceholderPasswords.ts removes it.
+export const LEGACY_OAUTH_PASSWORD = 'google-oauth-user';
+
 export interface IUser extends Document {
   customerId?: string; // Unique customer ID for ML/data processing
   googleId?: string; // Google OAuth ID
   name: string;
   email: string;
-  password: string;
-  role: 'customer' | 'admin';
+  password?: string; // Not set for accounts that only sign in with Google
+  hasPassword: boolean; // Kept in step with password, which most queries leave out; see src/scripts/backfillHasPassword.ts
+  role: 'customer' | 'staff' | 'admin';
+  permissions: AdminPermission[]; // Staff accounts only
   isVerified: boolean;
+  tokenVersion: number; // Bumped to invalidate every token issued before, e.g. on password reset
+  passwordChangedAt?: Date;
+  twoFactor?: IUserTwoFactor;
+  lockedUntil?: Date; // Set after too many failed sign-ins; cleared when it passes or by an admin
+  lastLockedAt?: Date;
+  lastLockedIp?: string;
+  lockoutCount: number;
   hasUsedFirstTimeDiscount: boolean;
   totalOrders: number;
   totalSpent: number; // Total amount spent by customer
@@ -49,18 +76,53 @@ const userSchema = new Schema<IUser>(
     },
     password: {
       type: String,
-      required: true,
       minlength: 6
     },
+    hasPassword: {
+      type: Boolean,
+      default: false
+    },
     role: {
       type: String,
-      enum: ['customer', 'admin'],
+      enum: ['customer', 'staff', 'admin'],
       default: 'customer'
     },
+    permissions: [{
+      type: String,
+      enum: ADMIN_PERMISSIONS
+    }],
     isVerified: {
       type: Boolean,
       default: false
     },
+    tokenVersion: {
+      type: Number,
+      default: 0
+    },
+    passwordChangedAt: {
+      type: Date
+    },
+    twoFactor: {
+      enabled: { type: Boolean, default: false },
+      secret: String,
+      pendingSecret: String,
+      recoveryCodeHashes: [{ type: String }],
+      lastUsedStep: Number,
+      enabledAt: Date
+    },
+    lockedUntil: {
+      type: Date
+    },
+    lastLockedAt: {
+      type: Date
+    },
+    lastLockedIp: {
+      type: String
+    },
+    lockoutCount: {
+      type: Number,
+      default: 0
+    },
     hasUsedFirstTimeDiscount: {
       type: Boolean,
       default: false
@@ -103,8 +165,12 @@ userSchema.pre('validate', function(next) {
 // Hash password before saving
 userSchema.pre('save', async function(next) {
   try {
-    // Hash password if modified
     if (this.isModified('password')) {
+      this.hasPassword = !!this.password;
+    }
+
+    // Hash password if modified
+    if (this.isModified('password') && this.password) {
       const salt = await bcrypt.genSalt(10);
       this.password = await bcrypt.hash(this.password, salt);
     }
@@ -117,14 +183,25 @@ userSchema.pre('save', async function(next) {
 
 // Compare password method
 userSchema.methods.comparePassword = async function(candidatePassword: string): Promise<boolean> {
+  if (!this.password || !candidatePassword) return false;
+  if (this.googleId && candidatePassword === LEGACY_OAUTH_PASSWORD) return false;
   return bcrypt.compare(candidatePassword, this.password);
 };
 
-// Remove password from JSON response
+// Remove password and 2FA secrets from JSON response
 userSchema.methods.toJSON = function() {
   const obj = this.toObject();
   delete obj.password;
+  if (obj.twoFactor) {
+    obj.twoFactor = {
+      enabled: !!obj.twoFactor.enabled,
+      enabledAt: obj.twoFactor.enabledAt,
+      recoveryCodesRemaining: obj.twoFactor.recoveryCodeHashes?.length || 0
+    };
+  }
   return obj;
 };
 
+userSchema.index({ lockedUntil: 1 }, { sparse: true });
+
 export const User = mongoose.model<IUser>('User', userSchema);
@@ -1,17 +1,46 @@
 import express, { Request, Response } from 'express';
+import mongoose from 'mongoose';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
-import { User } from '../models/User.model';
+import { User, ADMIN_PERMISSIONS, AdminPermission } from '../models/User.model';
 import { Product } from '../models/Product.model';
 import { Order } from '../models/Order.model';
 import { Review } from '../models/Review.model';
 import { Demo } from '../models/Demo.model';
 import { SupportTicket } from '../models/SupportTicket.model';
+import { Coupon } from '../models/Coupon.model';
+import { PriceSchedule } from '../models/PriceSchedule.model';
+import { DownloadEntitlement } from '../models/DownloadEntitlement.model';
+import { DownloadEvent } from '../models/DownloadEvent.model';
+import { ReconciliationRun } from '../models/ReconciliationRun.model';
+import { ProductStats } from '../models/ProductStats.model';
+import { AuditLog } from '../models/AuditLog.model';
 
 import { authenticate } from '../middleware/auth.middleware';
-import { authorizeAdmin } from '../middleware/admin.middleware';
+import { authorizeStaff, requirePermission, hasPermission } from '../middleware/admin.middleware';
 import { asyncHandler } from '../middleware/asyncHandler.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { createCouponSchema, updateCouponSchema } from '../validators/coupon.validators';
+import { createPriceScheduleSchema, updatePriceScheduleSchema } from '../validators/priceSchedule.validators';
+import { revokeDownloadSchema, resetDownloadSchema } from '../validators/download.validators';
+import { createRefundSchema } from '../validators/refund.validators';
+import { reconciliationRunSchema } from '../validators/razorpay.validators';
+import { markOrderPaidSchema, linkGuestRecordsSchema } from '../validators/order.validators';
+import { addStaffSchema, updateStaffSchema } from '../validators/staff.validators';
+import { initiateRefund } from '../utils/refund.utils';
+import { toPaise } from '../utils/pricing.utils';
+import { recordOrderDiscounts } from '../utils/discount.utils';
+import { issueInvoiceForOrder } from '../utils/invoice.utils';
+import { prepareOrderDeliveries, sendOrderConfirmation } from '../utils/delivery.utils';
+import { getDownloadLink, resetEntitlement } from '../utils/download.utils';
+import { createReconciliationRun, executeReconciliationRun } from '../utils/reconciliation.utils';
+import { recordAudit } from '../utils/audit.utils';
+import { backfillGuestClaims } from '../utils/customer.utils';
+import { recordOrderSales } from '../utils/productStats.utils';
+import { unlockAccount } from '../utils/rateLimit.utils';
+import { getPriceSchedules, invalidatePriceSchedules, previewSchedule, isScheduleLive, PriceRule } from '../utils/priceSchedule.utils';
+import { invalidateCatalogSearchIndex } from '../utils/search.utils';
 import { env } from '../config/environment.config';
 
 const router: express.Router = express.Router();
@@ -94,12 +123,12 @@ const pdfUpload = multer({
   }
 });
 
-// Apply admin authentication to all routes
+// Apply admin authentication to all routes; each route group also checks its permission
 router.use(authenticate);
-router.use(authorizeAdmin);
+router.use(authorizeStaff);
 
 // Get signed URL for S3 object
-router.get('/get-signed-url', asyncHandler(async (req: Request, res: Response) => {
+router.get('/get-signed-url', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   const { key } = req.query;
   
   if (!key || typeof key !== 'string') {
@@ -131,7 +160,7 @@ router.get('/get-signed-url', asyncHandler(async (req: Request, res: Response) =
 }));
 
 // Image upload endpoint
-router.post('/upload-image', asyncHandler(async (req: Request, res: Response) => {
+router.post('/upload-image', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   // Use the same environment detection as the rest of the app
   const isProduction = env.mode === 'production';
   console.log('Image upload - Environment detection:', { 
@@ -181,6 +210,14 @@ router.post('/upload-image', asyncHandler(async (req: Request, res: Response) =>
         
         // Verify the file was uploaded correctly
         await checkFileExists(fileKey);
+
+        await recordAudit(req, {
+          action: 'file.upload',
+          entityType: 'file',
+          entityId: fileKey,
+          entityLabel: req.file.originalname,
+          metadata: { kind: 'image', size: req.file.size }
+        });
         
         res.json({
           success: true,
@@ -227,6 +264,14 @@ router.post('/upload-image', asyncHandler(async (req: Request, res: Response) =>
         const fullImageUrl = isProduction ? `${cleanBackendUrl}${cleanImageUrl}` : cleanImageUrl;
         
         console.log('Image upload - Final URL:', { fullImageUrl, cleanImageUrl });
+
+        await recordAudit(req, {
+          action: 'file.upload',
+          entityType: 'file',
+          entityId: cleanImageUrl,
+          entityLabel: req.file.originalname,
+          metadata: { kind: 'image', size: req.file.size }
+        });
         
         res.json({
           success: true,
@@ -245,7 +290,7 @@ router.post('/upload-image', asyncHandler(async (req: Request, res: Response) =>
 }));
 
 // PDF upload endpoint for S3
-router.post('/upload-pdf', pdfUpload.single('pdf'), asyncHandler(async (req: Request, res: Response) => {
+router.post('/upload-pdf', requirePermission('catalog'), pdfUpload.single('pdf'), asyncHandler(async (req: Request, res: Response) => {
   if (!req.file) {
     res.status(400).json({
       success: false,
@@ -281,6 +326,14 @@ router.post('/upload-pdf', pdfUpload.single('pdf'), asyncHandler(async (req: Req
       
       // Verify the file was uploaded correctly
       await checkFileExists(fileKey);
+
+      await recordAudit(req, {
+        action: 'file.upload',
+        entityType: 'file',
+        entityId: fileKey,
+        entityLabel: req.file.originalname,
+        metadata: { kind: 'pdf', size: req.file.size }
+      });
       
       res.json({
         success: true,
@@ -334,6 +387,14 @@ router.post('/upload-pdf', pdfUpload.single('pdf'), asyncHandler(async (req: Req
       const fullPdfUrl = isProduction ? `${cleanBackendUrl}${cleanPdfUrl}` : cleanPdfUrl;
       
       console.log('PDF upload - Final URL:', { fullPdfUrl, cleanPdfUrl });
+
+      await recordAudit(req, {
+        action: 'file.upload',
+        entityType: 'file',
+        entityId: cleanPdfUrl,
+        entityLabel: req.file.originalname,
+        metadata: { kind: 'pdf', size: req.file.size }
+      });
       
       res.json({
         success: true,
@@ -351,7 +412,7 @@ router.post('/upload-pdf', pdfUpload.single('pdf'), asyncHandler(async (req: Req
 }));
 
 // Get admin stats
-router.get('/stats', asyncHandler(async (_req: Request, _res: Response) => {
+router.get('/stats', requirePermission('analytics'), asyncHandler(async (_req: Request, _res: Response) => {
   const [
     totalUsers,
     totalOrders,
@@ -432,7 +493,7 @@ router.get('/stats', asyncHandler(async (_req: Request, _res: Response) => {
 }));
 
 // Get all users
-router.get('/users', asyncHandler(async (req: Request, res: Response) => {
+router.get('/users', requirePermission('orders'), asyncHandler(async (req: Request, res: Response) => {
   const { page = 1, limit = 20 } = req.query;
   const skip = (Number(page) - 1) * Number(limit);
 
@@ -458,20 +519,24 @@ router.get('/users', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Get all orders
-router.get('/orders', asyncHandler(async (req: any, res: any) => {
+router.get('/orders', requirePermission('orders'), asyncHandler(async (req: any, res: any) => {
   const { 
     page = 1, 
     limit = 20, 
     status,
     startDate,
     endDate,
-    search
+    search,
+    review,
+    refundStatus
   } = req.query;
   
   const skip = (Number(page) - 1) * Number(limit);
   const query: any = {};
 
   if (status) query.paymentStatus = status;
+  if (review) query['paymentReview.status'] = review; // e.g. ?review=flagged
+  if (refundStatus) query.refundStatus = refundStatus;
   if (startDate || endDate) {
     query.createdAt = {};
     if (startDate) query.createdAt.$gte = new Date(startDate as string);
@@ -506,8 +571,143 @@ router.get('/orders', asyncHandler(async (req: any, res: any) => {
   });
 }));
 
+// Refund an order (full or partial) through Razorpay
+router.post('/orders/:id/refund', requirePermission('refunds'), validate(createRefundSchema), asyncHandler(async (req: Request, res: Response) => {
+  const idempotencyKey = req.header('Idempotency-Key') || req.body.idempotencyKey;
+  if (!idempotencyKey) {
+    res.status(400).json({ error: 'An Idempotency-Key header is required' });
+    return;
+  }
+
+  const result = await initiateRefund(String(req.params.id), {
+    idempotencyKey,
+    amountPaise: req.body.amount !== undefined ? toPaise(req.body.amount) : undefined,
+    reasonCode: req.body.reasonCode,
+    notes: req.body.notes,
+    productIds: req.body.productIds,
+    requestedBy: (req as any).user?._id?.toString()
+  });
+
+  if (result.error) {
+    res.status(result.status).json({ error: result.error, refund: result.refund });
+    return;
+  }
+
+  if (!result.replayed) {
+    await recordAudit(req, {
+      action: 'order.refund',
+      entityType: 'order',
+      entityId: result.order!._id,
+      entityLabel: result.order!.orderNumber,
+      after: result.refund,
+      metadata: { idempotencyKey }
+    });
+  }
+
+  res.status(result.status).json({
+    success: true,
+    replayed: !!result.replayed,
+    refund: result.refund,
+    order: {
+      id: result.order!._id,
+      orderNumber: result.order!.orderNumber,
+      paymentStatus: result.order!.paymentStatus,
+      refundStatus: result.order!.refundStatus,
+      refundRequestedPaise: result.order!.refundRequestedPaise,
+      refundedAmountPaise: result.order!.refundedAmountPaise
+    }
+  });
+}));
+
+// Mark an order paid outside Razorpay (bank transfer, UPI to the business account, cash)
+router.post('/orders/:id/mark-paid', requirePermission('orders'), validate(markOrderPaidSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { paymentReference, method = 'bank_transfer', notes, sendEmail: shouldSendEmail = true } = req.body;
+  const adminId = (req as any).user?._id;
+  const now = new Date();
+
+  // Conditional on the current status so a concurrent webhook or second admin cannot complete it twice.
+  // Returns the order as it was, for the audit log.
+  const previous = await Order.findOneAndUpdate(
+    { _id: req.params.id, paymentStatus: { $in: ['pending', 'processing', 'failed'] } },
+    {
+      $set: {
+        paymentStatus: 'completed',
+        paymentMethod: 'offline',
+        offlinePayment: {
+          method,
+          reference: paymentReference,
+          notes,
+          markedBy: adminId,
+          markedAt: now
+        }
+      }
+    }
+  );
+
+  const order = previous ? await Order.findById(previous._id) : null;
+  if (!previous || !order) {
+    const existing = await Order.findById(req.params.id).select('paymentStatus');
+    if (!existing) {
+      res.status(404).json({ error: 'Order not found' });
+      return;
+    }
+    res.status(409).json({ error: `Order is already ${existing.paymentStatus}` });
+    return;
+  }
+
+  // Accepting the payment settles any amount review that was holding the order
+  await Order.updateOne(
+    { _id: order._id, 'paymentReview.status': 'flagged' },
+    { $set: { 'paymentReview.status': 'resolved', 'paymentReview.resolvedAt': now } }
+  );
+
+  await recordOrderDiscounts(order);
+  await issueInvoiceForOrder(String(order._id));
+
+  await recordOrderSales(order);
+
+  let confirmation = { emailSent: false, delivered: false };
+  if (shouldSendEmail) {
+    try {
+      confirmation = await sendOrderConfirmation(String(order._id));
+    } catch (error) {
+      console.error('Failed to send confirmation for offline payment:', error);
+    }
+  } else {
+    await prepareOrderDeliveries(String(order._id));
+  }
+
+  await recordAudit(req, {
+    action: 'order.mark_paid',
+    entityType: 'order',
+    entityId: order._id,
+    entityLabel: order.orderNumber,
+    before: { paymentStatus: previous.paymentStatus, paymentMethod: previous.paymentMethod },
+    after: { paymentStatus: order.paymentStatus, paymentMethod: order.paymentMethod, offlinePayment: order.offlinePayment }
+  });
+
+  console.log('💵 Order marked paid offline:', {
+    orderNumber: order.orderNumber,
+    method,
+    paymentReference,
+    markedBy: adminId?.toString(),
+    emailSent: confirmation.emailSent
+  });
+
+  res.json({
+    success: true,
+    order: {
+      id: order._id,
+      orderNumber: order.orderNumber,
+      paymentStatus: order.paymentStatus,
+      offlinePayment: order.offlinePayment
+    },
+    ...confirmation
+  });
+}));
+
 // Get unregistered purchases (guest orders)
-router.get('/orders/unregistered', asyncHandler(async (req: any, res: any) => {
+router.get('/orders/unregistered', requirePermission('orders'), asyncHandler(async (req: any, res: any) => {
   const { 
     page = 1, 
     limit = 20, 
@@ -590,7 +790,7 @@ router.get('/orders/unregistered', asyncHandler(async (req: any, res: any) => {
 }));
 
 // Export orders to CSV
-router.get('/orders/export', asyncHandler(async (req: any, res: any) => {
+router.get('/orders/export', requirePermission('orders'), asyncHandler(async (req: any, res: any) => {
   const { startDate, endDate, unregisteredOnly } = req.query;
   
   const query: any = { paymentStatus: 'completed' };
@@ -632,7 +832,7 @@ router.get('/orders/export', asyncHandler(async (req: any, res: any) => {
 }));
 
 // Get all support tickets
-router.get('/support/tickets', asyncHandler(async (req: Request, res: Response) => {
+router.get('/support/tickets', requirePermission('support'), asyncHandler(async (req: Request, res: Response) => {
   const { page = 1, limit = 20, status } = req.query;
   const skip = (Number(page) - 1) * Number(limit);
 
@@ -664,10 +864,11 @@ router.get('/support/tickets', asyncHandler(async (req: Request, res: Response)
 }));
 
 // Update ticket status
-router.patch('/support/tickets/:ticketId/status', asyncHandler(async (req: Request, res: Response) => {
+router.patch('/support/tickets/:ticketId/status', requirePermission('support'), asyncHandler(async (req: Request, res: Response) => {
   const { ticketId } = req.params;
   const { status } = req.body;
 
+  const previous = await SupportTicket.findById(ticketId).select('ticketNumber status');
   const ticket = await SupportTicket.findByIdAndUpdate(
     ticketId,
     { status },
@@ -680,6 +881,15 @@ router.patch('/support/tickets/:ticketId/status', asyncHandler(async (req: Reque
     return;
   }
 
+  await recordAudit(req, {
+    action: 'support_ticket.status_change',
+    entityType: 'support_ticket',
+    entityId: ticket._id,
+    entityLabel: ticket.ticketNumber,
+    before: { status: previous?.status },
+    after: { status: ticket.status }
+  });
+
   res.json({
     success: true,
     ticket
@@ -687,9 +897,17 @@ router.patch('/support/tickets/:ticketId/status', asyncHandler(async (req: Reque
 }));
 
 // Get product analytics
-router.get('/products/analytics', asyncHandler(async (_req: Request, res: Response) => {
+router.get('/products/analytics', requirePermission('analytics'), asyncHandler(async (_req: Request, res: Response) => {
   const analytics = await Product.aggregate([
     { $match: { isActive: true } },
+    {
+      $lookup: {
+        from: ProductStats.collection.name,
+        localField: '_id',
+        foreignField: 'product',
+        as: 'stats'
+      }
+    },
     {
       $lookup: {
         from: 'reviews',
@@ -706,7 +924,7 @@ router.get('/products/analytics', asyncHandler(async (_req: Request, res: Respon
         salesCount: 1,
         averageRating: 1,
         totalReviews: 1,
-        revenue: { $multiply: ['$price', '$realSalesCount'] },
+        revenue: { $ifNull: [{ $arrayElemAt: ['$stats.realRevenue', 0] }, 0] },
         reviewTrend: {
           $map: {
             input: '$reviews',
@@ -729,7 +947,7 @@ router.get('/products/analytics', asyncHandler(async (_req: Request, res: Respon
 }));
 
 // Get all reviews (including fake ones for admin)
-router.get('/reviews', asyncHandler(async (req: Request, res: Response) => {
+router.get('/reviews', requirePermission('reviews'), asyncHandler(async (req: Request, res: Response) => {
   const { page = 1, limit = 20 } = req.query;
   const skip = (Number(page) - 1) * Number(limit);
 
@@ -757,7 +975,7 @@ router.get('/reviews', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Create fake review
-router.post('/reviews/fake', asyncHandler(async (req: Request, res: Response) => {
+router.post('/reviews/fake', requirePermission('reviews'), asyncHandler(async (req: Request, res: Response) => {
   const {
     product,
     fakeReviewerName,
@@ -803,10 +1021,7 @@ router.post('/reviews/fake', asyncHandler(async (req: Request, res: Response) =>
 
   await fakeOrder.save();
 
-  // Update product sales count
-  await Product.findByIdAndUpdate(product, {
-    $inc: { salesCount: 1 }
-  });
+  await recordOrderSales(fakeOrder);
 
   // Create fake review linked to fake order
   const fakeReview = new Review({
@@ -823,6 +1038,15 @@ router.post('/reviews/fake', asyncHandler(async (req: Request, res: Response) =>
 
   await fakeReview.save();
 
+  await recordAudit(req, {
+    action: 'review.create_fake',
+    entityType: 'review',
+    entityId: fakeReview._id,
+    entityLabel: productExists.name,
+    after: fakeReview,
+    metadata: { fakeOrderId: String(fakeOrder._id) }
+  });
+
   // Populate the review for response
   await fakeReview.populate('product', 'name');
 
@@ -835,7 +1059,7 @@ router.post('/reviews/fake', asyncHandler(async (req: Request, res: Response) =>
 }));
 
 // Get review moderation queue
-router.get('/reviews/moderation', asyncHandler(async (req: Request, res: Response) => {
+router.get('/reviews/moderation', requirePermission('reviews'), asyncHandler(async (req: Request, res: Response) => {
   const { page = 1, limit = 20 } = req.query;
   const skip = (Number(page) - 1) * Number(limit);
 
@@ -863,7 +1087,7 @@ router.get('/reviews/moderation', asyncHandler(async (req: Request, res: Respons
 }));
 
 // Toggle review status
-router.patch('/reviews/:reviewId/toggle', asyncHandler(async (req: Request, res: Response) => {
+router.patch('/reviews/:reviewId/toggle', requirePermission('reviews'), asyncHandler(async (req: Request, res: Response) => {
   const review = await Review.findById(req.params.reviewId);
   if (!review) {
     res.status(404).json({ error: 'Review not found' });
@@ -873,6 +1097,14 @@ router.patch('/reviews/:reviewId/toggle', asyncHandler(async (req: Request, res:
   review.isActive = !review.isActive;
   await review.save();
 
+  await recordAudit(req, {
+    action: 'review.toggle',
+    entityType: 'review',
+    entityId: review._id,
+    before: { isActive: !review.isActive },
+    after: { isActive: review.isActive }
+  });
+
   res.json({
     success: true,
     message: `Review ${review.isActive ? 'activated' : 'deactivated'} successfully`,
@@ -881,7 +1113,7 @@ router.patch('/reviews/:reviewId/toggle', asyncHandler(async (req: Request, res:
 }));
 
 // Update review fake helpful counts (Admin only)
-router.patch('/reviews/:reviewId/update-fake-helpful', asyncHandler(async (req: Request, res: Response) => {
+router.patch('/reviews/:reviewId/update-fake-helpful', requirePermission('reviews'), asyncHandler(async (req: Request, res: Response) => {
   const { reviewId } = req.params;
   const { fakeHelpful, fakeNotHelpful } = req.body;
 
@@ -889,6 +1121,7 @@ router.patch('/reviews/:reviewId/update-fake-helpful', asyncHandler(async (req:
   if (typeof fakeHelpful === 'number') updateData.fakeHelpful = Math.max(0, fakeHelpful);
   if (typeof fakeNotHelpful === 'number') updateData.fakeNotHelpful = Math.max(0, fakeNotHelpful);
 
+  const previous = await Review.findById(reviewId).select('fakeHelpful fakeNotHelpful');
   const review = await Review.findByIdAndUpdate(
     reviewId,
     updateData,
@@ -900,6 +1133,14 @@ router.patch('/reviews/:reviewId/update-fake-helpful', asyncHandler(async (req:
     return;
   }
 
+  await recordAudit(req, {
+    action: 'review.update_fake_helpful',
+    entityType: 'review',
+    entityId: review._id,
+    before: { fakeHelpful: previous?.fakeHelpful, fakeNotHelpful: previous?.fakeNotHelpful },
+    after: { fakeHelpful: review.fakeHelpful, fakeNotHelpful: review.fakeNotHelpful }
+  });
+
   res.json({
     success: true,
     review
@@ -907,7 +1148,7 @@ router.patch('/reviews/:reviewId/update-fake-helpful', asyncHandler(async (req:
 }));
 
 // Create fake purchase (without review)
-router.post('/orders/fake', asyncHandler(async (req: Request, res: Response) => {
+router.post('/orders/fake', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   const {
     product,
     fakeCustomerName,
@@ -951,9 +1192,14 @@ router.post('/orders/fake', asyncHandler(async (req: Request, res: Response) =>
 
   await fakeOrder.save();
 
-  // Update product sales count
-  await Product.findByIdAndUpdate(product, {
-    $inc: { salesCount: Number(quantity) }
+  await recordOrderSales(fakeOrder);
+
+  await recordAudit(req, {
+    action: 'order.create_fake',
+    entityType: 'order',
+    entityId: fakeOrder._id,
+    entityLabel: fakeOrder.orderNumber,
+    after: fakeOrder
   });
 
   // Populate the order for response
@@ -967,33 +1213,14 @@ router.post('/orders/fake', asyncHandler(async (req: Request, res: Response) =>
 }));
 
 // Get detailed product metrics with fake vs real data
-router.get('/products/metrics', asyncHandler(async (_req: Request, res: Response) => {
+router.get('/products/metrics', requirePermission('analytics'), asyncHandler(async (_req: Request, res: Response) => {
   const metrics = await Product.aggregate([
     {
       $lookup: {
-        from: 'orders',
-        let: { productId: '$_id' },
-        pipeline: [
-          {
-            $match: {
-              $expr: {
-                $and: [
-                  { $in: ['$$productId', '$items.product'] },
-                  { $eq: ['$paymentStatus', 'completed'] }
-                ]
-              }
-            }
-          },
-          {
-            $unwind: '$items'
-          },
-          {
-            $match: {
-              $expr: { $eq: ['$items.product', '$$productId'] }
-            }
-          }
-        ],
-        as: 'orders'
+        from: ProductStats.collection.name,
+        localField: '_id',
+        foreignField: 'product',
+        as: 'stats'
       }
     },
     {
@@ -1006,19 +1233,8 @@ router.get('/products/metrics', asyncHandler(async (_req: Request, res: Response
     },
     {
       $addFields: {
-        // Real orders (not fake)
-        realOrders: {
-          $filter: {
-            input: '$orders',
-            cond: { $ne: ['$$this.isFakeOrder', true] }
-          }
-        },
-        // Fake orders
-        fakeOrders: {
-          $filter: {
-            input: '$orders',
-            cond: { $eq: ['$$this.isFakeOrder', true] }
-          }
+        stats: {
+          $ifNull: [{ $arrayElemAt: ['$stats', 0] }, {}]
         },
         // Real reviews (not fake)
         realReviews: {
@@ -1051,39 +1267,21 @@ router.get('/products/metrics', asyncHandler(async (_req: Request, res: Response
         isActive: 1,
         createdAt: 1,
         
-        // Sales metrics
-        totalSales: { $size: '$orders' },
-        realSales: { $size: '$realOrders' },
-        fakeSales: { $size: '$fakeOrders' },
+        // Sales metrics, from product stats
+        totalSales: { $add: [{ $ifNull: ['$stats.realOrders', 0] }, { $ifNull: ['$stats.fakeOrders', 0] }] },
+        realSales: { $ifNull: ['$stats.realOrders', 0] },
+        fakeSales: { $ifNull: ['$stats.fakeOrders', 0] },
+        realUnits: { $ifNull: ['$stats.realUnits', 0] },
+        fakeUnits: { $ifNull: ['$stats.fakeUnits', 0] },
+        bundledUnits: { $ifNull: ['$stats.bundledUnits', 0] },
+        refundedSales: { $ifNull: ['$stats.refundedOrders', 0] },
+        lastSoldAt: '$stats.lastSoldAt',
         
         // Revenue metrics
-        totalRevenue: {
-          $sum: {
-            $map: {
-              input: '$orders',
-              as: 'order',
-              in: { $multiply: ['$$order.items.price', '$$order.items.quantity'] }
-            }
-          }
-        },
-        realRevenue: {
-          $sum: {
-            $map: {
-              input: '$realOrders',
-              as: 'order',
-              in: { $multiply: ['$$order.items.price', '$$order.items.quantity'] }
-            }
-          }
-        },
-        fakeRevenue: {
-          $sum: {
-            $map: {
-              input: '$fakeOrders',
-              as: 'order',
-              in: { $multiply: ['$$order.items.price', '$$order.items.quantity'] }
-            }
-          }
-        },
+        totalRevenue: { $add: [{ $ifNull: ['$stats.realRevenue', 0] }, { $ifNull: ['$stats.fakeRevenue', 0] }] },
+        realRevenue: { $ifNull: ['$stats.realRevenue', 0] },
+        fakeRevenue: { $ifNull: ['$stats.fakeRevenue', 0] },
+        refundedRevenue: { $ifNull: ['$stats.refundedRevenue', 0] },
         
         // Review metrics
         totalReviews: { $size: '$reviews' },
@@ -1125,10 +1323,450 @@ router.get('/products/metrics', asyncHandler(async (_req: Request, res: Response
   });
 }));
 
+// COUPON MANAGEMENT ROUTES
+
+// Get all coupons
+router.get('/coupons', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const { page = 1, limit = 20, active, search } = req.query;
+  const skip = (Number(page) - 1) * Number(limit);
+
+  const query: any = {};
+  if (active === 'true') query.isActive = true;
+  if (active === 'false') query.isActive = false;
+  if (search) {
+    query.code = { $regex: search, $options: 'i' };
+  }
+
+  const [coupons, total] = await Promise.all([
+    Coupon.find(query)
+      .populate('applicableProducts', 'name')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(Number(limit)),
+    Coupon.countDocuments(query)
+  ]);
+
+  res.json({
+    success: true,
+    coupons,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: Math.ceil(total / Number(limit))
+    }
+  });
+}));
+
+// Create coupon
+router.post('/coupons', requirePermission('catalog'), validate(createCouponSchema), asyncHandler(async (req: Request, res: Response) => {
+  const existing = await Coupon.findOne({ code: req.body.code.toUpperCase() });
+  if (existing) {
+    res.status(400).json({ error: 'Coupon code already exists' });
+    return;
+  }
+
+  const coupon = new Coupon(req.body);
+  await coupon.save();
+
+  await recordAudit(req, {
+    action: 'coupon.create',
+    entityType: 'coupon',
+    entityId: coupon._id,
+    entityLabel: coupon.code,
+    after: coupon
+  });
+
+  res.status(201).json({
+    success: true,
+    coupon
+  });
+}));
+
+// Update coupon
+router.put('/coupons/:couponId', requirePermission('catalog'), validate(updateCouponSchema), asyncHandler(async (req: Request, res: Response) => {
+  const coupon = await Coupon.findById(req.params.couponId);
+  if (!coupon) {
+    res.status(404).json({ error: 'Coupon not found' });
+    return;
+  }
+
+  // Redemption count is maintained by the order flow only
+  const { usedCount: _usedCount, ...updates } = req.body;
+  const before = coupon.toObject();
+  coupon.set(updates);
+  await coupon.save();
+
+  await recordAudit(req, {
+    action: 'coupon.update',
+    entityType: 'coupon',
+    entityId: coupon._id,
+    entityLabel: coupon.code,
+    before,
+    after: coupon
+  });
+
+  res.json({
+    success: true,
+    coupon
+  });
+}));
+
+// Deactivate coupon
+router.delete('/coupons/:couponId', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const previous = await Coupon.findByIdAndUpdate(
+    req.params.couponId,
+    { isActive: false }
+  );
+
+  if (!previous) {
+    res.status(404).json({ error: 'Coupon not found' });
+    return;
+  }
+
+  await recordAudit(req, {
+    action: 'coupon.deactivate',
+    entityType: 'coupon',
+    entityId: previous._id,
+    entityLabel: previous.code,
+    before: { isActive: previous.isActive },
+    after: { isActive: false }
+  });
+
+  res.json({
+    success: true,
+    message: 'Coupon deactivated successfully'
+  });
+}));
+
+// PRICE SCHEDULE ROUTES
+
+// Prices shown in listings and search come from schedules, so drop both caches after a change
+const refreshScheduledPrices = () => {
+  invalidatePriceSchedules();
+  invalidateCatalogSearchIndex();
+};
+
+// Affected products and their prices for a saved or draft schedule
+const sendSchedulePreview = async (res: Response, schedule: PriceRule) => {
+  const [products, others] = await Promise.all([
+    Product.find({ isActive: true }).select('name slug category price originalPrice').lean(),
+    getPriceSchedules(true)
+  ]);
+
+  const affected = previewSchedule(schedule, products, others);
+  res.json({
+    success: true,
+    total: affected.length,
+    overridden: affected.filter(row => row.overriddenBy).length,
+    products: affected
+  });
+};
+
+// Get price schedules, optionally only live, upcoming or ended ones
+router.get('/price-schedules', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const now = new Date();
+  const query: any = {};
+  if (req.query.status === 'live') {
+    Object.assign(query, { isActive: true, startsAt: { $lte: now }, $or: [{ endsAt: null }, { endsAt: { $gt: now } }] });
+  } else if (req.query.status === 'upcoming') {
+    Object.assign(query, { isActive: true, startsAt: { $gt: now } });
+  } else if (req.query.status === 'ended') {
+    Object.assign(query, { $or: [{ isActive: false }, { endsAt: { $lte: now } }] });
+  }
+
+  const schedules = await PriceSchedule.find(query)
+    .populate('products', 'name slug')
+    .sort({ startsAt: -1 });
+
+  res.json({
+    success: true,
+    schedules: schedules.map(schedule => ({
+      ...schedule.toObject(),
+      isLive: isScheduleLive(schedule, now)
+    }))
+  });
+}));
+
+// Preview the products an unsaved schedule would affect
+router.post('/price-schedules/preview', requirePermission('catalog'), validate(createPriceScheduleSchema), asyncHandler(async (req: Request, res: Response) => {
+  await sendSchedulePreview(res, {
+    _id: 'draft',
+    name: req.body.name,
+    discountType: req.body.discountType,
+    discountValue: req.body.discountValue,
+    products: req.body.products || [],
+    categories: req.body.categories || [],
+    startsAt: new Date(req.body.startsAt),
+    endsAt: req.body.endsAt ? new Date(req.body.endsAt) : undefined,
+    isActive: true
+  });
+}));
+
+// Preview the products a saved schedule affects
+router.get('/price-schedules/:scheduleId/preview', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const schedule = await PriceSchedule.findById(req.params.scheduleId).lean();
+  if (!schedule) {
+    res.status(404).json({ error: 'Price schedule not found' });
+    return;
+  }
+
+  await sendSchedulePreview(res, schedule);
+}));
+
+// Create price schedule
+router.post('/price-schedules', requirePermission('catalog'), validate(createPriceScheduleSchema), asyncHandler(async (req: Request, res: Response) => {
+  const schedule = new PriceSchedule({ ...req.body, createdBy: (req as any).user._id });
+  await schedule.save();
+  refreshScheduledPrices();
+
+  await recordAudit(req, {
+    action: 'price_schedule.create',
+    entityType: 'price_schedule',
+    entityId: schedule._id,
+    entityLabel: schedule.name,
+    after: schedule
+  });
+
+  res.status(201).json({
+    success: true,
+    schedule
+  });
+}));
+
+// Update price schedule
+router.put('/price-schedules/:scheduleId', requirePermission('catalog'), validate(updatePriceScheduleSchema), asyncHandler(async (req: Request, res: Response) => {
+  const schedule = await PriceSchedule.findById(req.params.scheduleId);
+  if (!schedule) {
+    res.status(404).json({ error: 'Price schedule not found' });
+    return;
+  }
+
+  const { createdBy: _createdBy, ...updates } = req.body;
+  const before = schedule.toObject();
+  schedule.set(updates);
+  await schedule.save();
+  refreshScheduledPrices();
+
+  await recordAudit(req, {
+    action: 'price_schedule.update',
+    entityType: 'price_schedule',
+    entityId: schedule._id,
+    entityLabel: schedule.name,
+    before,
+    after: schedule
+  });
+
+  res.json({
+    success: true,
+    schedule
+  });
+}));
+
+// Deactivate price schedule; prices go back to normal straight away
+router.delete('/price-schedules/:scheduleId', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const previous = await PriceSchedule.findByIdAndUpdate(
+    req.params.scheduleId,
+    { isActive: false }
+  );
+
+  if (!previous) {
+    res.status(404).json({ error: 'Price schedule not found' });
+    return;
+  }
+
+  refreshScheduledPrices();
+
+  await recordAudit(req, {
+    action: 'price_schedule.deactivate',
+    entityType: 'price_schedule',
+    entityId: previous._id,
+    entityLabel: previous.name,
+    before: { isActive: previous.isActive },
+    after: { isActive: false }
+  });
+
+  res.json({
+    success: true,
+    message: 'Price schedule deactivated successfully'
+  });
+}));
+
+// DOWNLOAD MANAGEMENT ROUTES
+
+// Get download entitlements and history for an order
+router.get('/orders/:orderId/downloads', requirePermission('orders'), asyncHandler(async (req: Request, res: Response) => {
+  const order = await Order.findById(req.params.orderId).select('orderNumber purchaseId items.product items.name items.bundleItems.product items.bundleItems.name');
+  if (!order) {
+    res.status(404).json({ error: 'Order not found' });
+    return;
+  }
+
+  const [entitlements, events] = await Promise.all([
+    DownloadEntitlement.find({ order: order._id }).populate('product', 'name'),
+    DownloadEvent.find({ order: order._id })
+      .sort({ createdAt: -1 })
+      .limit(Number(req.query.limit) || 200)
+  ]);
+
+  res.json({
+    success: true,
+    order,
+    entitlements,
+    events
+  });
+}));
+
+// Revoke a download entitlement
+router.post('/downloads/:entitlementId/revoke', requirePermission('orders'), validate(revokeDownloadSchema), asyncHandler(async (req: Request, res: Response) => {
+  const previous = await DownloadEntitlement.findById(req.params.entitlementId);
+  const entitlement = await DownloadEntitlement.findByIdAndUpdate(
+    req.params.entitlementId,
+    {
+      revokedAt: new Date(),
+      revokedReason: req.body.reason,
+      revokedBy: (req as any).user?._id
+    },
+    { new: true }
+  );
+
+  if (!entitlement) {
+    res.status(404).json({ error: 'Download entitlement not found' });
+    return;
+  }
+
+  await recordAudit(req, {
+    action: 'download_entitlement.revoke',
+    entityType: 'download_entitlement',
+    entityId: entitlement._id,
+    before: previous,
+    after: entitlement,
+    metadata: { order: String(entitlement.order) }
+  });
+
+  console.log('Download entitlement revoked:', { entitlementId: entitlement._id, reason: req.body.reason });
+
+  res.json({
+    success: true,
+    entitlement
+  });
+}));
+
+// Reset a download entitlement's usage and issue a new link
+router.post('/downloads/:entitlementId/reset', requirePermission('orders'), validate(resetDownloadSchema), asyncHandler(async (req: Request, res: Response) => {
+  const previous = await DownloadEntitlement.findById(String(req.params.entitlementId));
+  const entitlement = await resetEntitlement(String(req.params.entitlementId), req.body);
+
+  if (!entitlement) {
+    res.status(404).json({ error: 'Download entitlement not found' });
+    return;
+  }
+
+  await recordAudit(req, {
+    action: 'download_entitlement.reset',
+    entityType: 'download_entitlement',
+    entityId: entitlement._id,
+    before: previous,
+    after: entitlement,
+    metadata: { order: String(entitlement.order) }
+  });
+
+  console.log('Download entitlement reset:', { entitlementId: entitlement._id, tokenVersion: entitlement.tokenVersion });
+
+  res.json({
+    success: true,
+    entitlement,
+    downloadLink: getDownloadLink(entitlement)
+  });
+}));
+
+// PAYMENT RECONCILIATION ROUTES
+
+// List reconciliation runs, newest first
+router.get('/reconciliation/runs', requirePermission('orders'), asyncHandler(async (req: Request, res: Response) => {
+  const { page = 1, limit = 20, status } = req.query;
+  const query: any = {};
+  if (status) {
+    query.status = status;
+  }
+
+  const skip = (Number(page) - 1) * Number(limit);
+  const [runs, total] = await Promise.all([
+    ReconciliationRun.find(query)
+      .select('-discrepancies')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(Number(limit)),
+    ReconciliationRun.countDocuments(query)
+  ]);
+
+  res.json({
+    success: true,
+    runs,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: Math.ceil(total / Number(limit))
+    }
+  });
+}));
+
+// Discrepancy report for one run
+router.get('/reconciliation/runs/:id', requirePermission('orders'), asyncHandler(async (req: Request, res: Response) => {
+  const run = await ReconciliationRun.findById(req.params.id).populate('triggeredBy', 'name email');
+  if (!run) {
+    res.status(404).json({ error: 'Reconciliation run not found' });
+    return;
+  }
+
+  const { type, action } = req.query;
+  const discrepancies = run.discrepancies.filter(discrepancy =>
+    (!type || discrepancy.type === type) && (!action || discrepancy.action === action)
+  );
+
+  res.json({
+    success: true,
+    run,
+    discrepancies
+  });
+}));
+
+// Start a reconciliation run. It continues in the background; poll the run for the report.
+router.post('/reconciliation/run', requirePermission('orders'), validate(reconciliationRunSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { run, alreadyRunning } = await createReconciliationRun({
+    trigger: 'admin',
+    triggeredBy: (req as any).user?._id?.toString(),
+    dryRun: req.body.dryRun,
+    lookbackHours: req.body.lookbackHours
+  });
+
+  if (alreadyRunning) {
+    res.status(409).json({ error: 'A reconciliation run is already in progress', run });
+    return;
+  }
+
+  await recordAudit(req, {
+    action: 'reconciliation_run.start',
+    entityType: 'reconciliation_run',
+    entityId: run._id,
+    metadata: { dryRun: run.dryRun, windowStart: run.windowStart, windowEnd: run.windowEnd }
+  });
+
+  executeReconciliationRun(run).catch(error => {
+    console.error('❌ Reconciliation run failed:', error);
+  });
+
+  res.status(202).json({
+    success: true,
+    run
+  });
+}));
+
 // DEMO MANAGEMENT ROUTES
 
 // Get all demos
-router.get('/demos', asyncHandler(async (req: Request, res: Response) => {
+router.get('/demos', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   const { page = 1, limit = 20 } = req.query;
   const skip = (Number(page) - 1) * Number(limit);
 
@@ -1154,7 +1792,7 @@ router.get('/demos', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Create demo
-router.post('/demos', asyncHandler(async (req: Request, res: Response) => {
+router.post('/demos', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   const {
     title,
     description,
@@ -1203,6 +1841,14 @@ router.post('/demos', asyncHandler(async (req: Request, res: Response) => {
 
   await demo.save();
 
+  await recordAudit(req, {
+    action: 'demo.create',
+    entityType: 'demo',
+    entityId: demo._id,
+    entityLabel: demo.title,
+    after: demo
+  });
+
   // Populate the demo for response
   await demo.populate('product', 'name category price');
 
@@ -1214,7 +1860,7 @@ router.post('/demos', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Update demo
-router.put('/demos/:demoId', asyncHandler(async (req: Request, res: Response) => {
+router.put('/demos/:demoId', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   const { demoId } = req.params;
   const {
     title,
@@ -1241,6 +1887,8 @@ router.put('/demos/:demoId', asyncHandler(async (req: Request, res: Response) =>
     }
   }
 
+  const before = demo.toObject();
+
   // Update fields
   if (title !== undefined) demo.title = title;
   if (description !== undefined) demo.description = description;
@@ -1251,6 +1899,15 @@ router.put('/demos/:demoId', asyncHandler(async (req: Request, res: Response) =>
   if (isActive !== undefined) demo.isActive = isActive;
 
   await demo.save();
+
+  await recordAudit(req, {
+    action: 'demo.update',
+    entityType: 'demo',
+    entityId: demo._id,
+    entityLabel: demo.title,
+    before,
+    after: demo
+  });
   await demo.populate('product', 'name category price');
 
   res.json({
@@ -1261,7 +1918,7 @@ router.put('/demos/:demoId', asyncHandler(async (req: Request, res: Response) =>
 }));
 
 // Delete demo
-router.delete('/demos/:demoId', asyncHandler(async (req: Request, res: Response) => {
+router.delete('/demos/:demoId', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   const { demoId } = req.params;
 
   const demo = await Demo.findById(demoId);
@@ -1272,6 +1929,14 @@ router.delete('/demos/:demoId', asyncHandler(async (req: Request, res: Response)
 
   await Demo.findByIdAndDelete(demoId);
 
+  await recordAudit(req, {
+    action: 'demo.delete',
+    entityType: 'demo',
+    entityId: demo._id,
+    entityLabel: demo.title,
+    before: demo
+  });
+
   res.json({
     success: true,
     message: 'Demo deleted successfully'
@@ -1279,7 +1944,7 @@ router.delete('/demos/:demoId', asyncHandler(async (req: Request, res: Response)
 }));
 
 // Toggle demo status
-router.patch('/demos/:demoId/toggle', asyncHandler(async (req: Request, res: Response) => {
+router.patch('/demos/:demoId/toggle', requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   const demo = await Demo.findById(req.params.demoId);
   if (!demo) {
     res.status(404).json({ error: 'Demo not found' });
@@ -1289,6 +1954,15 @@ router.patch('/demos/:demoId/toggle', asyncHandler(async (req: Request, res: Res
   demo.isActive = !demo.isActive;
   await demo.save();
 
+  await recordAudit(req, {
+    action: 'demo.toggle',
+    entityType: 'demo',
+    entityId: demo._id,
+    entityLabel: demo.title,
+    before: { isActive: !demo.isActive },
+    after: { isActive: demo.isActive }
+  });
+
   res.json({
     success: true,
     demo
@@ -1296,7 +1970,7 @@ router.patch('/demos/:demoId/toggle', asyncHandler(async (req: Request, res: Res
 }));
 
 // Get customer analytics
-router.get('/customers/analytics', asyncHandler(async (req: Request, res: Response) => {
+router.get('/customers/analytics', requirePermission('analytics'), asyncHandler(async (req: Request, res: Response) => {
   try {
     // Get query parameters for pagination/filtering
     const page = parseInt(req.query.page as string) || 1;
@@ -1440,4 +2114,266 @@ router.get('/customers/analytics', asyncHandler(async (req: Request, res: Respon
   }
 }));
 
+// Link guest orders, reviews and tickets to verified accounts with the same email.
+// For purchases made before accounts were linked automatically on signup and verification.
+router.post('/customers/link-guest-records', requirePermission('orders'), validate(linkGuestRecordsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const result = await backfillGuestClaims({ dryRun: req.body.dryRun, limit: req.body.limit });
+
+  if (!result.dryRun) {
+    await recordAudit(req, {
+      action: 'customer.link_guest_records',
+      entityType: 'user',
+      metadata: result
+    });
+  }
+
+  console.log('🔗 Guest record backfill:', result);
+
+  res.json({
+    success: true,
+    ...result
+  });
+}));
+
+// AUDIT LOG ROUTES
+
+// Search the audit log, newest first. Filter by actor (user id or email), entity, action and date range.
+router.get('/audit', requirePermission('settings'), asyncHandler(async (req: Request, res: Response) => {
+  const { page = 1, limit = 50, actor, entityType, entityId, action, from, to } = req.query;
+  const query: any = {};
+
+  if (actor) {
+    query[mongoose.isValidObjectId(String(actor)) ? 'actor' : 'actorEmail'] = String(actor).toLowerCase();
+  }
+  if (entityType) query.entityType = String(entityType);
+  if (entityId) query.entityId = String(entityId);
+  if (action) query.action = String(action);
+
+  if (from || to) {
+    query.createdAt = {};
+    if (from) query.createdAt.$gte = new Date(String(from));
+    if (to) query.createdAt.$lte = new Date(String(to));
+    if (Object.values(query.createdAt).some((date: any) => isNaN(date.getTime()))) {
+      res.status(400).json({ error: 'Invalid from or to date' });
+      return;
+    }
+  }
+
+  const pageSize = Math.min(Number(limit) || 50, 200);
+  const skip = (Number(page) - 1) * pageSize;
+  const [entries, total] = await Promise.all([
+    AuditLog.find(query)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(pageSize),
+    AuditLog.countDocuments(query)
+  ]);
+
+  res.json({
+    success: true,
+    entries,
+    pagination: {
+      page: Number(page),
+      limit: pageSize,
+      total,
+      pages: Math.ceil(total / pageSize)
+    }
+  });
+}));
+
+// ACCOUNT SECURITY ROUTES
+
+// Accounts currently locked after repeated failed sign-ins
+router.get('/security/locked-accounts', requirePermission('settings'), asyncHandler(async (_req: Request, res: Response) => {
+  const accounts = await User.find({ lockedUntil: { $gt: new Date() } })
+    .select('name email role lockedUntil lastLockedAt lastLockedIp lockoutCount')
+    .sort({ lastLockedAt: -1 });
+
+  res.json({
+    success: true,
+    accounts
+  });
+}));
+
+// Lift a lockout before it runs out, e.g. after confirming the owner's identity
+router.post('/security/locked-accounts/:userId/unlock', requirePermission('settings'), asyncHandler(async (req: Request, res: Response) => {
+  const userId = String(req.params.userId);
+  if (!mongoose.isValidObjectId(userId)) {
+    res.status(400).json({ error: 'Invalid user ID' });
+    return;
+  }
+
+  const before = await User.findById(userId).select('email lockedUntil');
+  const user = await unlockAccount(userId);
+  if (!before || !user) {
+    res.status(404).json({ error: 'Locked account not found' });
+    return;
+  }
+
+  await recordAudit(req, {
+    action: 'user.unlock',
+    entityType: 'user',
+    entityId: user._id,
+    entityLabel: user.email,
+    before: { lockedUntil: before.lockedUntil },
+    after: { lockedUntil: null }
+  });
+
+  console.log('🔓 Account unlocked:', { userId: user._id, by: (req as any).user._id });
+
+  res.json({
+    success: true,
+    message: 'Account unlocked'
+  });
+}));
+
+// STAFF MANAGEMENT ROUTES
+
+// Staff can only hand out permissions they hold themselves; admins can hand out any
+const canGrantPermissions = (grantor: any, permissions: AdminPermission[]) =>
+  permissions.every(permission => hasPermission(grantor, permission));
+
+// List staff and admin accounts
+router.get('/staff', requirePermission('settings'), asyncHandler(async (_req: Request, res: Response) => {
+  const staff = await User.find({ role: { $in: ['staff', 'admin'] } })
+    .select('-password')
+    .sort({ role: 1, createdAt: 1 });
+
+  res.json({
+    success: true,
+    staff,
+    permissions: ADMIN_PERMISSIONS
+  });
+}));
+
+// Give an existing account staff access. The person signs up as a customer first.
+router.post('/staff', requirePermission('settings'), validate(addStaffSchema), asyncHandler(async (req: Request, res: Response) => {
+  const currentUser = (req as any).user;
+  const { email, permissions } = req.body;
+
+  if (!canGrantPermissions(currentUser, permissions)) {
+    res.status(403).json({ error: 'You can only grant permissions you have yourself' });
+    return;
+  }
+
+  const user = await User.findOne({ email: String(email).toLowerCase() });
+  if (!user) {
+    res.status(404).json({ error: 'No account with that email. Ask them to sign up first.' });
+    return;
+  }
+
+  if (user.role !== 'customer') {
+    res.status(409).json({ error: 'This account already has staff access' });
+    return;
+  }
+
+  user.role = 'staff';
+  user.permissions = Array.from(new Set(permissions as AdminPermission[]));
+  await user.save();
+
+  await recordAudit(req, {
+    action: 'staff.add',
+    entityType: 'user',
+    entityId: user._id,
+    entityLabel: user.email,
+    before: { role: 'customer', permissions: [] },
+    after: { role: user.role, permissions: user.permissions }
+  });
+
+  console.log('👤 Staff access granted:', { userId: user._id, permissions: user.permissions, by: currentUser._id });
+
+  res.status(201).json({
+    success: true,
+    user
+  });
+}));
+
+// Change a staff account's permissions. Takes effect on their next request.
+router.put('/staff/:userId', requirePermission('settings'), validate(updateStaffSchema), asyncHandler(async (req: Request, res: Response) => {
+  const currentUser = (req as any).user;
+  const userId = String(req.params.userId);
+  const permissions = Array.from(new Set(req.body.permissions as AdminPermission[]));
+
+  if (userId === String(currentUser._id)) {
+    res.status(400).json({ error: 'You cannot change your own permissions' });
+    return;
+  }
+
+  const user = await User.findOne({ _id: userId, role: 'staff' });
+  if (!user) {
+    res.status(404).json({ error: 'Staff member not found' });
+    return;
+  }
+
+  // Adding or removing a permission both need the caller to hold it
+  const changed = ADMIN_PERMISSIONS.filter(permission => permissions.includes(permission) !== user.permissions.includes(permission));
+  if (!canGrantPermissions(currentUser, changed)) {
+    res.status(403).json({ error: 'You can only change permissions you have yourself' });
+    return;
+  }
+
+  const previousPermissions = [...user.permissions];
+  user.permissions = permissions;
+  await user.save();
+
+  await recordAudit(req, {
+    action: 'staff.update_permissions',
+    entityType: 'user',
+    entityId: user._id,
+    entityLabel: user.email,
+    before: { permissions: previousPermissions },
+    after: { permissions: user.permissions }
+  });
+
+  console.log('👤 Staff permissions updated:', { userId: user._id, permissions, by: currentUser._id });
+
+  res.json({
+    success: true,
+    user
+  });
+}));
+
+// Remove a staff account's admin access. The account itself stays as a customer.
+router.delete('/staff/:userId', requirePermission('settings'), asyncHandler(async (req: Request, res: Response) => {
+  const currentUser = (req as any).user;
+  const userId = String(req.params.userId);
+
+  if (userId === String(currentUser._id)) {
+    res.status(400).json({ error: 'You cannot remove your own staff access' });
+    return;
+  }
+
+  const user = await User.findOne({ _id: userId, role: 'staff' });
+  if (!user) {
+    res.status(404).json({ error: 'Staff member not found' });
+    return;
+  }
+
+  if (!canGrantPermissions(currentUser, user.permissions)) {
+    res.status(403).json({ error: 'You can only remove staff whose permissions you have yourself' });
+    return;
+  }
+
+  const previousPermissions = [...user.permissions];
+  user.role = 'customer';
+  user.permissions = [];
+  await user.save();
+
+  await recordAudit(req, {
+    action: 'staff.remove',
+    entityType: 'user',
+    entityId: user._id,
+    entityLabel: user.email,
+    before: { role: 'staff', permissions: previousPermissions },
+    after: { role: user.role, permissions: [] }
+  });
+
+  console.log('👤 Staff access removed:', { userId: user._id, by: currentUser._id });
+
+  res.json({
+    success: true,
+    message: 'Staff access removed'
+  });
+}));
+
 export default router;
@@ -1,24 +1,123 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { User } from '../models/User.model';
-import jwt from 'jsonwebtoken';
+import { Session, ISession } from '../models/Session.model';
 import { validate } from '../middleware/validation.middleware';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authenticateGuest } from '../middleware/auth.middleware';
+import { isStaffUser, requestIsAdmin } from '../middleware/admin.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
-import { signupSchema, loginSchema } from '../validators/auth.validators';
-import { sendEmail, getWelcomeEmail } from '../utils/email.utils';
+import {
+  signupSchema,
+  loginSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  refreshTokenSchema,
+  twoFactorCodeSchema,
+  verifyTwoFactorSchema,
+  magicLinkSchema,
+  verifyMagicLinkSchema,
+  upgradeGuestSchema,
+  setPasswordSchema,
+  changePasswordSchema,
+  confirmCredentialsSchema
+} from '../validators/auth.validators';
+import { sendEmail, getPasswordResetEmail, getMagicLinkEmail, getWelcomeEmail } from '../utils/email.utils';
+import {
+  issueAuthToken,
+  issueEmailAuthToken,
+  consumeAuthToken,
+  sendVerificationEmail,
+  getResendThrottle,
+  PASSWORD_RESET_TTL_MINUTES,
+  MAGIC_LINK_TTL_MINUTES
+} from '../utils/auth.utils';
+import { getClientIp } from '../utils/download.utils';
+import {
+  checkLoginThrottle,
+  recordLoginFailure,
+  recordLoginSuccess,
+  recordPasswordSuccess,
+  LoginThrottle
+} from '../utils/rateLimit.utils';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { claimGuestRecords } from '../utils/customer.utils';
+import {
+  signGoogleLinkToken,
+  createGoogleOAuthState,
+  verifyGoogleOAuthState,
+  getCookie,
+  GOOGLE_STATE_COOKIE,
+  GOOGLE_STATE_COOKIE_MAX_AGE_MS
+} from '../utils/oauth.utils';
+import {
+  createSession,
+  createGuestSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  markSessionMfaVerified
+} from '../utils/session.utils';
+import {
+  isTwoFactorEnabled,
+  signMfaChallenge,
+  verifyMfaChallenge,
+  verifyTwoFactorCode,
+  startTwoFactorSetup,
+  confirmTwoFactorSetup,
+  regenerateRecoveryCodes,
+  disableTwoFactor
+} from '../utils/mfa.utils';
+import { AuthToken } from '../models/AuthToken.model';
+import { Order } from '../models/Order.model';
+import { SupportTicket } from '../models/SupportTicket.model';
 import passport from '../config/passport.config';
 import { env, isGoogleOAuthEnabled } from '../config/environment.config';
 
 const router: Router = Router();
 
-// Generate JWT token
-const generateToken = (userId: string): string => {
-  // @ts-ignore
-  return jwt.sign({ userId }, env.jwtSecret, { expiresIn: '7d' });
+const signupLimiter = rateLimit({
+  name: 'signup',
+  windowMs: 60 * 60 * 1000,
+  perIp: 5,
+  message: 'Too many accounts created from this network. Please try again later.'
+});
+
+// Reply to a sign-in attempt that is being held back: locked accounts get 423, throttled ones 429
+const sendLoginThrottled = (res: Response, throttle: LoginThrottle) => {
+  if (throttle.retryAfterSeconds) {
+    res.setHeader('Retry-After', String(throttle.retryAfterSeconds));
+  }
+
+  if (throttle.reason === 'locked') {
+    res.status(423).json({
+      error: 'This account is temporarily locked after too many failed sign-in attempts. Try again later or reset your password.',
+      code: 'ACCOUNT_LOCKED',
+      retryAfter: throttle.retryAfterSeconds
+    });
+    return;
+  }
+
+  res.status(429).json({
+    error: 'Too many failed attempts. Please wait before trying again.',
+    code: 'TOO_MANY_ATTEMPTS',
+    retryAfter: throttle.retryAfterSeconds
+  });
 };
 
+// Public view of a session for the sessions list
+const toSessionSummary = (session: ISession, currentSessionId?: string) => ({
+  id: session._id,
+  deviceName: session.deviceName,
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  expiresAt: session.expiresAt,
+  current: String(session._id) === currentSessionId
+});
+
 // Signup
-router.post('/signup', validate(signupSchema), asyncHandler(async (req: Request, res: Response) => {
+router.post('/signup', signupLimiter, validate(signupSchema), asyncHandler(async (req: Request, res: Response) => {
   const { name, email, password } = req.body;
 
   // Check if user exists
@@ -32,23 +131,23 @@ router.post('/signup', validate(signupSchema), asyncHandler(async (req: Request,
   const user = new User({ name, email, password });
   await user.save();
 
-  // Send welcome email
+  // Guest purchases under this email are linked once the email is verified
+  await claimGuestRecords(user).catch(error => console.error('Failed to link guest records:', error));
+
+  // Send welcome email with the verification link
   try {
-    await sendEmail({
-      to: email,
-      subject: 'Welcome to Desi Prompts!',
-      html: getWelcomeEmail(name)
-    });
+    await sendVerificationEmail(user, true);
   } catch (error) {
     console.error('Welcome email failed:', error);
   }
 
-  // Generate token
-  const token = generateToken((user._id as any).toString());
+  const { token, refreshToken, expiresIn } = await createSession(user, req);
 
   res.status(201).json({
     success: true,
     token,
+    refreshToken,
+    expiresIn,
     user: user.toJSON()
   });
 }));
@@ -56,31 +155,263 @@ router.post('/signup', validate(signupSchema), asyncHandler(async (req: Request,
 // Login
 router.post('/login', validate(loginSchema), asyncHandler(async (req: Request, res: Response) => {
   const { email, password } = req.body;
+  const ipAddress = getClientIp(req);
 
   // Find user
   const user = await User.findOne({ email });
+
+  // Progressive delays, per-IP limits and lockouts apply whether or not the email is registered
+  const throttle = await checkLoginThrottle(email, ipAddress, user);
+  if (!throttle.allowed) {
+    sendLoginThrottled(res, throttle);
+    return;
+  }
+
   if (!user) {
+    await recordLoginFailure(email, ipAddress);
     res.status(401).json({ error: 'Invalid credentials ' });
     return;
   }
 
+  // Google-only accounts have no password to check
+  if (!user.password) {
+    res.status(401).json({
+      error: 'This account signs in with Google. Continue with Google, or reset your password to set one.',
+      code: 'PASSWORD_NOT_SET'
+    });
+    return;
+  }
+
   // Check password
   const isPasswordValid = await user.comparePassword(password);
   if (!isPasswordValid) {
+    const { locked } = await recordLoginFailure(email, ipAddress, user);
+    if (locked) {
+      sendLoginThrottled(res, { allowed: false, reason: 'locked' });
+      return;
+    }
     res.status(401).json({ error: 'Invalid credentials' });
     return;
   }
 
-  // Generate token
-  const token = generateToken((user._id as any).toString());
+  await recordPasswordSuccess(email, isTwoFactorEnabled(user));
+
+  // Accounts with 2FA get a challenge to exchange at /2fa/verify instead of a session
+  if (isTwoFactorEnabled(user)) {
+    res.json({
+      success: true,
+      requiresTwoFactor: true,
+      challengeToken: signMfaChallenge(user)
+    });
+    return;
+  }
+
+  const { token, refreshToken, expiresIn } = await createSession(user, req);
 
   res.json({
     success: true,
     token,
+    refreshToken,
+    expiresIn,
     user: user.toJSON()
   });
 }));
 
+// Second login step: exchange the password challenge and a TOTP or recovery code for a session
+router.post('/2fa/verify', validate(verifyTwoFactorSchema), asyncHandler(async (req: Request, res: Response) => {
+  const challenge = verifyMfaChallenge(req.body.challengeToken);
+  const user = challenge ? await User.findById(challenge.userId) : null;
+  if (!challenge || !user || (challenge.tokenVersion || 0) !== (user.tokenVersion || 0)) {
+    res.status(401).json({ error: 'Sign-in has expired. Please log in again.' });
+    return;
+  }
+
+  const ipAddress = getClientIp(req);
+  const throttle = await checkLoginThrottle(user.email, ipAddress, user);
+  if (!throttle.allowed) {
+    sendLoginThrottled(res, throttle);
+    return;
+  }
+
+  const result = await verifyTwoFactorCode(user, req.body.code);
+  if (!result.valid) {
+    console.warn('Invalid two-factor code:', { userId: user._id, ipAddress });
+    const { locked } = await recordLoginFailure(user.email, ipAddress, user);
+    if (locked) {
+      sendLoginThrottled(res, { allowed: false, reason: 'locked' });
+      return;
+    }
+    res.status(401).json({ error: 'Invalid authentication code' });
+    return;
+  }
+
+  await recordLoginSuccess(user.email);
+
+  const { token, refreshToken, expiresIn } = await createSession(user, req, { mfaVerified: true });
+
+  res.json({
+    success: true,
+    token,
+    refreshToken,
+    expiresIn,
+    user: user.toJSON(),
+    ...(result.method === 'recovery_code' ? { recoveryCodesRemaining: result.recoveryCodesRemaining } : {})
+  });
+}));
+
+// Start two-factor enrolment (admin and staff accounts). Returns the secret and an otpauth:// URI for a QR code.
+router.post('/2fa/setup', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  if (!isStaffUser(user)) {
+    res.status(403).json({ error: 'Two-factor authentication is only available for admin and staff accounts' });
+    return;
+  }
+
+  if (isTwoFactorEnabled(user)) {
+    res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    return;
+  }
+
+  const { secret, otpauthUri } = await startTwoFactorSetup(user);
+
+  res.json({
+    success: true,
+    secret,
+    otpauthUri
+  });
+}));
+
+// Finish enrolment with a code from the authenticator app. The recovery codes are only shown here.
+router.post('/2fa/enable', authenticate, validate(twoFactorCodeSchema), asyncHandler(async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  if (isTwoFactorEnabled(user)) {
+    res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    return;
+  }
+
+  const recoveryCodes = await confirmTwoFactorSetup(user, req.body.code);
+  if (!recoveryCodes) {
+    res.status(400).json({ error: 'Invalid authentication code' });
+    return;
+  }
+
+  // The code just proved possession of the authenticator, so this session counts as verified
+  await markSessionMfaVerified((req as any).authSession._id);
+  console.log('Two-factor authentication enabled:', { userId: user._id });
+
+  res.json({
+    success: true,
+    recoveryCodes
+  });
+}));
+
+// Replace the recovery codes. Requires a current code.
+router.post('/2fa/recovery-codes', authenticate, validate(twoFactorCodeSchema), asyncHandler(async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  const result = await verifyTwoFactorCode(user, req.body.code);
+  if (!result.valid) {
+    res.status(401).json({ error: 'Invalid authentication code' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    recoveryCodes: await regenerateRecoveryCodes(user)
+  });
+}));
+
+// Turn off two-factor authentication. Requires a current code.
+router.post('/2fa/disable', authenticate, validate(twoFactorCodeSchema), asyncHandler(async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  const result = await verifyTwoFactorCode(user, req.body.code);
+  if (!result.valid) {
+    res.status(401).json({ error: 'Invalid authentication code' });
+    return;
+  }
+
+  await disableTwoFactor(user);
+  console.log('Two-factor authentication disabled:', { userId: user._id });
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication disabled'
+  });
+}));
+
+// Exchange a refresh token for a new access token. The refresh token rotates on every use.
+router.post('/refresh', validate(refreshTokenSchema), asyncHandler(async (req: Request, res: Response) => {
+  const result = await rotateRefreshToken(req.body.refreshToken, req);
+  if (!result.tokens) {
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+
+  res.json({
+    success: true,
+    ...result.tokens
+  });
+}));
+
+// Log out of the current session
+router.post('/logout', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  await revokeSession((req as any).authSession._id, 'logout');
+
+  res.json({
+    success: true,
+    message: 'Logged out successfully'
+  });
+}));
+
+// List active sessions. Admins can pass ?userId= to see another user's sessions.
+router.get('/sessions', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  const currentUser = (req as any).user;
+  const userId = req.query.userId && requestIsAdmin(req) ? String(req.query.userId) : currentUser._id;
+
+  const sessions = await Session.find({ user: userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .sort({ lastSeenAt: -1 });
+
+  res.json({
+    success: true,
+    sessions: sessions.map(session => toSessionSummary(session, String((req as any).authSession._id)))
+  });
+}));
+
+// Revoke every other session. Admins can pass ?userId= to sign a user out everywhere.
+router.delete('/sessions', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  const currentUser = (req as any).user;
+  const currentSessionId = (req as any).authSession._id;
+
+  const revoked = req.query.userId && requestIsAdmin(req)
+    ? await revokeUserSessions(String(req.query.userId), 'revoked_by_admin', req.query.userId === String(currentUser._id) ? currentSessionId : undefined)
+    : await revokeUserSessions(currentUser._id, 'revoked_by_user', currentSessionId);
+
+  res.json({
+    success: true,
+    revoked
+  });
+}));
+
+// Revoke one session. Users can revoke their own; admins can revoke anyone's.
+router.delete('/sessions/:id', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  const currentUser = (req as any).user;
+  const session = mongoose.isValidObjectId(req.params.id) ? await Session.findById(req.params.id) : null;
+
+  const isOwner = session?.user?.toString() === currentUser._id.toString();
+  if (!session || (!isOwner && !requestIsAdmin(req))) {
+    res.status(404).json({ error: 'Session not found' });
+    return;
+  }
+
+  await revokeSession(session._id, isOwner ? 'revoked_by_user' : 'revoked_by_admin');
+
+  console.log('Session revoked:', { sessionId: session._id, userId: session.user, by: currentUser._id });
+
+  res.json({
+    success: true,
+    message: 'Session revoked'
+  });
+}));
+
 // Get current user
 router.get('/me', authenticate, asyncHandler(async (req: Request, res: Response) => {
   res.json({
@@ -105,7 +436,7 @@ router.patch('/profile', authenticate, asyncHandler(async (req: Request, res: Re
 }));
 
 // Change password
-router.post('/change-password', authenticate, asyncHandler(async (req: Request, res: Response) => {
+router.post('/change-password', authenticate, validate(changePasswordSchema), asyncHandler(async (req: Request, res: Response) => {
   const { currentPassword, newPassword } = req.body;
 
   const user = await User.findById((req as any).user._id);
@@ -114,35 +445,442 @@ router.post('/change-password', authenticate, asyncHandler(async (req: Request,
     return;
   }
 
+  if (!user.password) {
+    res.status(400).json({ error: 'No password is set for this account. Use set-password instead.', code: 'PASSWORD_NOT_SET' });
+    return;
+  }
+
+  // Someone holding a stolen session should not get unlimited guesses at the current password
+  const ipAddress = getClientIp(req);
+  const throttle = await checkLoginThrottle(user.email, ipAddress, user);
+  if (!throttle.allowed) {
+    sendLoginThrottled(res, throttle);
+    return;
+  }
+
   const isPasswordValid = await user.comparePassword(currentPassword);
   if (!isPasswordValid) {
+    const { locked } = await recordLoginFailure(user.email, ipAddress, user);
+    if (locked) {
+      sendLoginThrottled(res, { allowed: false, reason: 'locked' });
+      return;
+    }
     res.status(401).json({ error: 'Current password is incorrect' });
     return;
   }
 
+  await recordLoginSuccess(user.email);
+
   user.password = newPassword;
+  user.passwordChangedAt = new Date();
+  await user.save();
+
+  // Keep this device signed in and sign out everywhere else
+  const revokedSessions = await revokeUserSessions(user._id, 'password_change', (req as any).authSession._id);
+
+  res.json({
+    success: true,
+    message: 'Password changed successfully',
+    revokedSessions
+  });
+}));
+
+// Set a first password on an account created with Google
+router.post('/set-password', authenticate, validate(setPasswordSchema), asyncHandler(async (req: Request, res: Response) => {
+  const user = await User.findById((req as any).user._id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  if (user.password) {
+    res.status(400).json({ error: 'A password is already set. Use change-password instead.' });
+    return;
+  }
+
+  user.password = req.body.newPassword;
+  user.passwordChangedAt = new Date();
+  await user.save();
+
+  res.json({
+    success: true,
+    message: 'Password set. You can now log in with your email and password.',
+    user: user.toJSON()
+  });
+}));
+
+// Check the password (and 2FA code, when enabled) of the signed-in user before a sensitive change.
+// Sends the error response and returns false when they do not match.
+const confirmCredentials = async (user: any, req: Request, res: Response): Promise<boolean> => {
+  if (!user.password) {
+    res.status(400).json({ error: 'Set a password first', code: 'PASSWORD_NOT_SET' });
+    return false;
+  }
+
+  if (!(await user.comparePassword(req.body.password))) {
+    res.status(401).json({ error: 'Password is incorrect' });
+    return false;
+  }
+
+  if (isTwoFactorEnabled(user)) {
+    const result = req.body.code ? await verifyTwoFactorCode(user, req.body.code) : { valid: false };
+    if (!result.valid) {
+      res.status(401).json({ error: 'Invalid two-factor code', code: 'MFA_REQUIRED' });
+      return false;
+    }
+  }
+
+  return true;
+};
+
+// Start linking Google to the signed-in account. Returns a token to pass as
+// /api/auth/google?linkToken=..., which ties the Google sign-in to this account.
+router.post('/google/link', authenticate, validate(confirmCredentialsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const user = await User.findById((req as any).user._id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  if (!(await confirmCredentials(user, req, res))) return;
+
+  res.json({
+    success: true,
+    linkToken: signGoogleLinkToken(user),
+    expiresIn: '10m'
+  });
+}));
+
+// Remove the Google sign-in from the account. Needs a password so the account stays reachable.
+router.post('/google/unlink', authenticate, validate(confirmCredentialsSchema), asyncHandler(async (req: Request, res: Response) => {
+  const user = await User.findById((req as any).user._id);
+  if (!user) {
+    res.status(404).json({ error: 'User not found' });
+    return;
+  }
+
+  if (!user.googleId) {
+    res.status(400).json({ error: 'No Google account is linked' });
+    return;
+  }
+
+  if (!user.password) {
+    res.status(400).json({
+      error: 'Set a password before unlinking Google, or you will not be able to sign in',
+      code: 'PASSWORD_NOT_SET'
+    });
+    return;
+  }
+
+  if (!(await confirmCredentials(user, req, res))) return;
+
+  user.googleId = undefined;
   await user.save();
 
+  console.log('Google account unlinked:', { userId: user._id });
+
+  res.json({
+    success: true,
+    message: 'Google account unlinked',
+    user: user.toJSON()
+  });
+}));
+
+// Forgot password. Responds the same way whether or not the email is registered.
+router.post('/forgot-password', validate(forgotPasswordSchema), asyncHandler(async (req: Request, res: Response) => {
+  const email = String(req.body.email).toLowerCase().trim();
+  const user = await User.findOne({ email });
+
+  if (user) {
+    const token = await issueAuthToken(String(user._id), 'password_reset', PASSWORD_RESET_TTL_MINUTES, getClientIp(req));
+    const resetLink = `${env.frontendUrl}/reset-password?token=${token}`;
+
+    // Not awaited, so the response time does not reveal whether the account exists
+    sendEmail({
+      to: user.email,
+      subject: 'Reset your Desi Prompts password',
+      html: getPasswordResetEmail(user.name, resetLink, PASSWORD_RESET_TTL_MINUTES)
+    }).catch(error => {
+      console.error('Password reset email failed:', error);
+    });
+  }
+
+  res.json({
+    success: true,
+    message: 'If an account exists for this email, a password reset link has been sent'
+  });
+}));
+
+// Reset password with a token from the forgot-password email
+router.post('/reset-password', validate(resetPasswordSchema), asyncHandler(async (req: Request, res: Response) => {
+  const { token, password } = req.body;
+
+  const resetToken = await consumeAuthToken(token, 'password_reset');
+  if (!resetToken) {
+    res.status(400).json({ error: 'Reset link is invalid or has expired' });
+    return;
+  }
+
+  const user = await User.findById(resetToken.user);
+  if (!user) {
+    res.status(400).json({ error: 'Reset link is invalid or has expired' });
+    return;
+  }
+
+  user.password = password;
+  user.passwordChangedAt = new Date();
+  user.isVerified = true; // Following the emailed link proves they own the address
+  user.tokenVersion = (user.tokenVersion || 0) + 1; // Signs out every existing session
+  user.lockedUntil = undefined; // Resetting by email is the way out of a lockout
+  await user.save();
+
+  await recordLoginSuccess(user.email);
+  await AuthToken.deleteMany({ user: user._id, purpose: 'password_reset', usedAt: null });
+  await revokeUserSessions(user._id, 'password_reset');
+  await claimGuestRecords(user).catch(error => console.error('Failed to link guest records:', error));
+
+  console.log('Password reset completed:', { userId: user._id });
+
+  res.json({
+    success: true,
+    message: 'Password has been reset. Please log in with your new password.'
+  });
+}));
+
+// Verify email with the token from the signup or resend email
+router.get('/verify-email', asyncHandler(async (req: Request, res: Response) => {
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  if (!token) {
+    res.status(400).json({ error: 'Verification token is required' });
+    return;
+  }
+
+  const verification = await consumeAuthToken(token, 'email_verification');
+  if (!verification) {
+    res.status(400).json({ error: 'Verification link is invalid or has expired' });
+    return;
+  }
+
+  const user = await User.findByIdAndUpdate(verification.user, { isVerified: true }, { new: true });
+  if (!user) {
+    res.status(400).json({ error: 'Verification link is invalid or has expired' });
+    return;
+  }
+
+  console.log('Email verified:', { userId: user._id });
+
+  const linked = await claimGuestRecords(user).catch(error => {
+    console.error('Failed to link guest records:', error);
+    return { orders: 0, reviews: 0, tickets: 0 };
+  });
+
+  res.json({
+    success: true,
+    message: 'Email verified successfully',
+    user: user.toJSON(),
+    linked
+  });
+}));
+
+// Resend the verification email, throttled per account
+router.post('/resend-verification', authenticate, asyncHandler(async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  if (user.isVerified) {
+    res.status(400).json({ error: 'Email is already verified' });
+    return;
+  }
+
+  const recent = await AuthToken.find({
+    user: user._id,
+    purpose: 'email_verification',
+    createdAt: { $gt: new Date(Date.now() - 24 * 60 * 60 * 1000) }
+  }).select('createdAt');
+
+  const throttle = getResendThrottle(recent.map(token => token.createdAt));
+  if (!throttle.allowed) {
+    res.setHeader('Retry-After', String(throttle.retryAfterSeconds));
+    res.status(429).json({
+      error: 'Please wait before requesting another verification email',
+      retryAfterSeconds: throttle.retryAfterSeconds
+    });
+    return;
+  }
+
+  await sendVerificationEmail(user);
+
   res.json({
     success: true,
-    message: 'Password changed successfully'
+    message: 'Verification email sent'
+  });
+}));
+
+// Email a one-time sign-in link to a guest buyer. Responds the same way whether or not
+// the email has any purchases, and only sends when it does.
+router.post('/magic-link', validate(magicLinkSchema), asyncHandler(async (req: Request, res: Response) => {
+  const email = String(req.body.email).toLowerCase().trim();
+  const response = {
+    success: true,
+    message: 'If we have purchases for this email, a sign-in link has been sent'
+  };
+
+  const [hasOrders, hasTickets] = await Promise.all([
+    Order.exists({ guestEmail: email, isFakeOrder: { $ne: true } }),
+    SupportTicket.exists({ guestEmail: email })
+  ]);
+  if (!hasOrders && !hasTickets) {
+    res.json(response);
+    return;
+  }
+
+  const recent = await AuthToken.find({
+    email,
+    purpose: 'magic_link',
+    createdAt: { $gt: new Date(Date.now() - 24 * 60 * 60 * 1000) }
+  }).select('createdAt');
+
+  if (getResendThrottle(recent.map(token => token.createdAt)).allowed) {
+    const token = await issueEmailAuthToken(email, 'magic_link', MAGIC_LINK_TTL_MINUTES, getClientIp(req));
+    const loginLink = `${env.frontendUrl}/magic-link?token=${token}`;
+
+    // Not awaited, so the response time does not reveal whether the email has purchases
+    sendEmail({
+      to: email,
+      subject: 'Your Desi Prompts sign-in link',
+      html: getMagicLinkEmail(loginLink, MAGIC_LINK_TTL_MINUTES)
+    }).catch(error => {
+      console.error('Magic link email failed:', error);
+    });
+  }
+
+  res.json(response);
+}));
+
+// Exchange a magic link token for a guest session. A POST from the landing page rather than
+// the emailed GET, so link scanners in mail clients cannot use up the token.
+router.post('/magic-link/verify', validate(verifyMagicLinkSchema), asyncHandler(async (req: Request, res: Response) => {
+  const magicLink = await consumeAuthToken(req.body.token, 'magic_link');
+  if (!magicLink?.email) {
+    res.status(400).json({ error: 'Sign-in link is invalid or has expired' });
+    return;
+  }
+
+  const { token, refreshToken, expiresIn } = await createGuestSession(magicLink.email, req);
+  const hasAccount = !!(await User.exists({ email: magicLink.email }));
+
+  console.log('Guest signed in with magic link:', { email: magicLink.email });
+
+  res.json({
+    success: true,
+    token,
+    refreshToken,
+    expiresIn,
+    guest: { email: magicLink.email },
+    hasAccount
+  });
+}));
+
+// Turn a guest session into a full account with a password. The magic link already proved
+// the email, so the account starts verified and claims the email's guest purchases.
+router.post('/magic-link/upgrade', authenticateGuest, validate(upgradeGuestSchema), asyncHandler(async (req: Request, res: Response) => {
+  const guestEmail = (req as any).guestEmail as string;
+
+  if (await User.exists({ email: guestEmail })) {
+    res.status(409).json({ error: 'An account already exists for this email. Please log in instead.' });
+    return;
+  }
+
+  const user = new User({
+    name: req.body.name,
+    email: guestEmail,
+    password: req.body.password,
+    isVerified: true
+  });
+  await user.save();
+
+  const linked = await claimGuestRecords(user).catch(error => {
+    console.error('Failed to link guest records:', error);
+    return { orders: 0, reviews: 0, tickets: 0 };
+  });
+  await revokeSession((req as any).authSession._id, 'upgraded_to_account');
+
+  sendEmail({
+    to: user.email,
+    subject: 'Welcome to Desi Prompts!',
+    html: getWelcomeEmail(user.name)
+  }).catch(error => {
+    console.error('Welcome email failed:', error);
+  });
+
+  const { token, refreshToken, expiresIn } = await createSession(user, req);
+
+  res.status(201).json({
+    success: true,
+    token,
+    refreshToken,
+    expiresIn,
+    user: user.toJSON(),
+    linked
   });
 }));
 
 // Google OAuth routes (only if configured)
 if (isGoogleOAuthEnabled()) {
-  router.get('/google', 
-    passport.authenticate('google', { scope: ['profile', 'email'] })
-  );
+  const stateCookieOptions = {
+    httpOnly: true,
+    secure: env.mode === 'production',
+    sameSite: 'lax' as const,
+    path: '/api/auth/google'
+  };
+
+  // ?linkToken= (from POST /google/link) links Google to that account instead of signing in
+  router.get('/google', (req: Request, res: Response, next: NextFunction) => {
+    const linkToken = typeof req.query.linkToken === 'string' ? req.query.linkToken : undefined;
+    const { state, cookie } = createGoogleOAuthState(linkToken);
+    res.cookie(GOOGLE_STATE_COOKIE, cookie, { ...stateCookieOptions, maxAge: GOOGLE_STATE_COOKIE_MAX_AGE_MS });
+    passport.authenticate('google', { scope: ['profile', 'email'], session: false, state })(req, res, next);
+  });
 
   router.get('/google/callback',
-    passport.authenticate('google', { session: false }),
+    (req: Request, res: Response, next: NextFunction) => {
+      // The callback must come back to the browser that started the flow
+      const state = verifyGoogleOAuthState(req.query.state, getCookie(req.header('cookie'), GOOGLE_STATE_COOKIE));
+      res.clearCookie(GOOGLE_STATE_COOKIE, stateCookieOptions);
+      if (!state) {
+        res.redirect(`${env.frontendUrl}/auth/callback?error=invalid_state`);
+        return;
+      }
+      (req as any).googleLinkToken = state.linkToken;
+
+      passport.authenticate('google', { session: false }, (error: any, user: any, info: any) => {
+        if (error || !user) {
+          if (error) console.error('Google sign-in failed:', error);
+          const reason = error ? 'google_failed' : info?.message || 'google_failed';
+          res.redirect(`${env.frontendUrl}/auth/callback?error=${encodeURIComponent(reason)}`);
+          return;
+        }
+
+        // The account was already signed in to start linking; no new session
+        if (info?.linked) {
+          res.redirect(`${env.frontendUrl}/account?googleLinked=true`);
+          return;
+        }
+
+        (req as any).user = user;
+        next();
+      })(req, res, next);
+    },
     asyncHandler(async (req: Request, res: Response) => {
-      // Generate JWT token for the authenticated user
-      const token = generateToken((req as any).user._id.toString());
+      // Admins with 2FA still have to enter a code after signing in with Google
+      if (isTwoFactorEnabled((req as any).user)) {
+        res.redirect(`${env.frontendUrl}/auth/callback?challengeToken=${signMfaChallenge((req as any).user)}`);
+        return;
+      }
+
+      // Start a session for the authenticated user
+      const { token, refreshToken } = await createSession((req as any).user, req);
       
-      // Redirect to frontend with token
-      res.redirect(`${env.frontendUrl}/auth/callback?token=${token}`);
+      // Redirect to frontend with tokens
+      res.redirect(`${env.frontendUrl}/auth/callback?token=${token}&refreshToken=${refreshToken}`);
     })
   );
 } else {
@@ -1,13 +1,35 @@
 import * as express from 'express';
 import { Request, Response } from 'express';
-import { Order } from '../models/Order.model';
+import { Order, IOrder } from '../models/Order.model';
+import { IDownloadEntitlement } from '../models/DownloadEntitlement.model';
 import { Product } from '../models/Product.model';
-import { authenticate, optionalAuth } from '../middleware/auth.middleware';
+import { ProductVersion } from '../models/ProductVersion.model';
+import { authenticate, optionalAuth, authenticateGuest } from '../middleware/auth.middleware';
+import { requestHasPermission } from '../middleware/admin.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
-import { checkFirstTimeDiscount } from '../utils/discount.utils';
+import { validate } from '../middleware/validation.middleware';
+import { checkDiscountSchema } from '../validators/coupon.validators';
+import { createOrderSchema } from '../validators/order.validators';
+import { checkFirstTimeDiscount, priceCart, recordOrderDiscounts } from '../utils/discount.utils';
+import {
+  CartLine,
+  getEligibleLines,
+  reserveCouponRedemption,
+  returnCouponRedemption,
+  releaseCouponReservation
+} from '../utils/coupon.utils';
+import { buildOrderPricing, getExpectedAmountPaise } from '../utils/pricing.utils';
+import { issueInvoiceForOrder, isValidGstin, getStateCodeFromGstin } from '../utils/invoice.utils';
+import { prepareOrderDeliveries, getOrderDownloads, prepareVersionCopy } from '../utils/delivery.utils';
+import { recordOrderSales } from '../utils/productStats.utils';
+import { getPriceSchedules, resolveProductPrice } from '../utils/priceSchedule.utils';
+import { getEntitledVersions, resolveDownloadVersion, verifyUpdateEmailsToken, optOutOfUpdateEmails } from '../utils/productVersion.utils';
+import { getOrderDeliverables, findDeliverable, getCartBundleItems, findRepeatedDelivery } from '../utils/bundle.utils';
+import { ensureEntitlement, getEntitlementForToken, getDownloadClient, evaluateEntitlement, isOwnerDownload, redeemEntitlement } from '../utils/download.utils';
+import { Invoice, IInvoice } from '../models/Invoice.model';
 import { sendEmail, getOrderConfirmationEmail } from '../utils/email.utils';
 import { getSignedDownloadUrl } from '../utils/storage.utils';
-import { createRazorpayOrder } from '../utils/payment.utils';
+import { createRazorpayOrder, fetchPaymentDetails, verifyRazorpaySignature, canCompletePayment } from '../utils/payment.utils';
 import { env } from '../config/environment.config';
 
 const router: express.Router = express.Router();
@@ -33,10 +55,67 @@ router.get('/check-discount', optionalAuth, asyncHandler(async (req: Request, re
   }
 }));
 
+// Preview a coupon code and the first-time discount against a cart
+router.post('/check-discount', optionalAuth, validate(checkDiscountSchema), asyncHandler(async (req: Request, res: Response) => {
+  const userId = (req as any).user?._id?.toString();
+  const { items, couponCode, guestEmail } = req.body;
+
+  try {
+    const productIds = items.map((item: any) => item.productId);
+    const products = await Product.find({ _id: { $in: productIds }, isActive: true });
+    const schedules = await getPriceSchedules(true);
+
+    const lines: CartLine[] = [];
+    for (const item of items) {
+      const product = products.find(p => String(p._id) === item.productId);
+      if (!product) {
+        res.status(400).json({
+          success: false,
+          error: 'Some products are not available'
+        });
+        return;
+      }
+      lines.push({
+        productId: String(product._id),
+        category: product.category,
+        price: resolveProductPrice(product, schedules).price,
+        quantity: Number(item.quantity) || 1
+      });
+    }
+
+    const pricing = await priceCart(lines, couponCode, userId, guestEmail);
+
+    res.json({
+      success: true,
+      subtotal: pricing.subtotal,
+      couponDiscount: pricing.couponDiscount,
+      firstTimeDiscount: pricing.firstTimeDiscount,
+      totalAmount: pricing.totalAmount,
+      coupon: pricing.coupon ? {
+        code: pricing.coupon.code,
+        description: pricing.coupon.description,
+        discountType: pricing.coupon.discountType,
+        discountValue: pricing.coupon.discountValue
+      } : null,
+      couponValid: couponCode ? !pricing.couponError : undefined,
+      couponError: pricing.couponError,
+      couponNotice: pricing.couponNotice,
+      firstTimeEligible: pricing.firstTimeEligible
+    });
+  } catch (error) {
+    console.error('Error previewing discount:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to preview discount'
+    });
+  }
+}));
+
 // Create order - Use optionalAuth to allow both guest and authenticated users
-router.post('/create', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+router.post('/create', optionalAuth, validate(createOrderSchema), asyncHandler(async (req: Request, res: Response) => {
+  let reservedCouponId: unknown;
   try {
-    const { items, guestDetails, guestEmail, guestName } = req.body;
+    const { items, guestDetails, guestEmail, guestName, couponCode, billingDetails, notifyOfUpdates } = req.body;
     // Get user ID from authenticated request if available
     const userId = (req as any).user?._id;
 
@@ -84,6 +163,15 @@ router.post('/create', optionalAuth, asyncHandler(async (req: Request, res: Resp
       }
     }
 
+    // Validate optional GST billing details for B2B invoices
+    if (billingDetails?.gstin && !isValidGstin(billingDetails.gstin)) {
+      console.log('Validation failed: Invalid GSTIN', billingDetails.gstin);
+      res.status(400).json({ 
+        error: 'Please provide a valid GSTIN' 
+      });
+      return;
+    }
+
     // Fetch products and calculate total
     const productIds = items.map((item: any) => item.productId);
     console.log('Requested product IDs:', productIds);
@@ -112,40 +200,116 @@ router.post('/create', optionalAuth, asyncHandler(async (req: Request, res: Resp
       return;
     }
 
-    let totalAmount = 0;
-    const orderItems = items.map((item: any) => {
+    // Bundles are sold as one line but deliver every product they contain
+    const bundles = await getCartBundleItems(products);
+    if (bundles.error) {
+      res.status(400).json({ error: bundles.error });
+      return;
+    }
+
+    const repeated = findRepeatedDelivery(products.map(product => ({
+      productId: String(product._id),
+      contains: bundles.items.get(String(product._id))?.map(component => String(component.product))
+    })));
+    if (repeated) {
+      res.status(400).json({
+        error: 'Your cart contains the same pack more than once, for example a pack and a bundle that includes it',
+        details: `Repeated product: ${repeated}`
+      });
+      return;
+    }
+
+    // Apply scheduled sale prices, then the coupon and first-time discount, server-side
+    const schedules = await getPriceSchedules(true);
+    const cartLines: CartLine[] = items.map((item: any) => {
       const product = products.find(p => (p._id as any).toString() === item.productId);
       if (!product) {
         console.error('Product not found in products array:', item.productId);
         throw new Error('Product not found');
       }
-      
-      totalAmount += product.price * item.quantity;
-      
+
+      const current = resolveProductPrice(product, schedules);
+      return {
+        productId: String(product._id),
+        category: product.category,
+        price: current.price,
+        listPrice: current.originalPrice,
+        quantity: item.quantity
+      };
+    });
+    const discounts = await priceCart(cartLines, couponCode, userId?.toString(), !userId ? email : undefined);
+
+    if (couponCode && discounts.couponError) {
+      console.log('Coupon rejected:', { couponCode, reason: discounts.couponError });
+      res.status(400).json({
+        error: discounts.couponError
+      });
+      return;
+    }
+
+    const couponLineProductIds = discounts.coupon
+      ? getEligibleLines(discounts.coupon, cartLines).map(line => line.productId)
+      : [];
+    const { lines: pricedLines, pricing } = buildOrderPricing(cartLines, discounts, couponLineProductIds);
+
+    const orderItems = pricedLines.map(line => {
+      const product = products.find(p => String(p._id) === line.productId)!;
       return {
         product: product._id,
         name: product.name,
-        price: product.price,
-        quantity: item.quantity
+        price: line.price,
+        listPrice: line.listPrice,
+        quantity: line.quantity,
+        couponDiscount: line.couponDiscount,
+        firstTimeDiscount: line.firstTimeDiscount,
+        lineTotal: line.lineTotal,
+        bundleItems: bundles.items.get(line.productId)
       };
     });
 
     console.log('Order items:', orderItems);
-    console.log('Total amount:', totalAmount);
+    console.log('Order pricing:', pricing);
+
+    // Hold one of the coupon's redemptions for this order until it is paid, fails or expires
+    if (discounts.coupon) {
+      if (!(await reserveCouponRedemption(discounts.coupon._id))) {
+        console.log('Coupon rejected:', { couponCode, reason: 'usage limit reached' });
+        res.status(400).json({
+          error: 'Coupon usage limit reached'
+        });
+        return;
+      }
+      reservedCouponId = discounts.coupon._id;
+    }
 
     // Create order
     const order = new Order({
       user: userId, // This will be set if user is authenticated
       guestEmail: !userId ? email : undefined, // Only set for guest orders
       guestName: !userId ? name : undefined, // Only set for guest orders
+      billingDetails: billingDetails ? {
+        businessName: billingDetails.businessName,
+        gstin: billingDetails.gstin,
+        address: billingDetails.address,
+        stateCode: billingDetails.stateCode || getStateCodeFromGstin(billingDetails.gstin)
+      } : undefined,
       items: orderItems,
-      totalAmount,
+      notifyOfUpdates: notifyOfUpdates === true,
+      coupon: discounts.coupon ? {
+        couponId: discounts.coupon._id,
+        code: discounts.coupon.code,
+        discountAmount: pricing.couponDiscount,
+        reserved: true
+      } : undefined,
+      pricing,
+      totalAmount: pricing.totalPayable,
       // accessToken field removed - direct S3 access used instead
     });
 
     console.log('Order object before save:', JSON.stringify(order, null, 2));
     
     await order.save();
+    reservedCouponId = undefined; // The order holds the redemption now
     console.log('Order saved:', order._id);
     console.log('Order after save:', {
       id: order._id,
@@ -157,7 +321,7 @@ router.post('/create', optionalAuth, asyncHandler(async (req: Request, res: Resp
     let razorpayOrder;
     try {
       razorpayOrder = await createRazorpayOrder(
-        totalAmount,
+        order.totalAmount,
         'INR',
         order.orderNumber
       );
@@ -168,7 +332,7 @@ router.post('/create', optionalAuth, asyncHandler(async (req: Request, res: Resp
     } catch (error) {
       console.error('Razorpay order creation failed:', error);
       // If Razorpay fails, we'll still create the order but without Razorpay integration
-      // This allows for manual payment processing
+      // An admin can still complete it via POST /api/admin/orders/:id/mark-paid
       console.log('Proceeding with order creation without Razorpay integration');
     }
 
@@ -177,13 +341,20 @@ router.post('/create', optionalAuth, asyncHandler(async (req: Request, res: Resp
       order: {
         id: order._id,
         orderNumber: order.orderNumber,
+        pricing: order.pricing,
         totalAmount: order.totalAmount,
         razorpayOrderId: razorpayOrder?.id,
         razorpayKeyId: process.env.RAZORPAY_KEY_ID
-      }
+      },
+      couponNotice: discounts.couponNotice
     });
   } catch (error: any) {
     console.error('Order creation failed:', error);
+    if (reservedCouponId) {
+      await returnCouponRedemption(reservedCouponId).catch(releaseError => {
+        console.error('Failed to return coupon redemption:', releaseError);
+      });
+    }
     if (error.name === 'ValidationError') {
       console.error('Validation errors:', error.errors);
       res.status(400).json({
@@ -259,70 +430,114 @@ router.post('/verify-payment', optionalAuth, asyncHandler(async (req: Request, r
       paymentStatus: order.paymentStatus
     });
 
-    // Check if we have all required Razorpay parameters for proper verification
-    const hasRazorpayParams = razorpayOrderId && razorpayPaymentId && razorpaySignature;
-    
-    if (!hasRazorpayParams) {
-      console.warn('⚠️ MISSING RAZORPAY VERIFICATION PARAMETERS - PERFORMING MANUAL VERIFICATION');
-      console.warn('This may cause refunds if webhook is not properly configured');
-      console.warn('Missing parameters:', {
-        hasOrderId: !!razorpayOrderId,
-        hasPaymentId: !!razorpayPaymentId,
-        hasSignature: !!razorpaySignature
+    const wasAlreadyCompleted = order.paymentStatus === 'completed';
+
+    // Verifying again is fine for a completed order, but a refunded one must not come back to life
+    if (!wasAlreadyCompleted && !canCompletePayment(order.paymentStatus)) {
+      console.log('❌ ORDER CANNOT BE PAID:', { orderNumber: order.orderNumber, paymentStatus: order.paymentStatus });
+      return res.status(409).json({
+        success: false,
+        error: `This order is ${order.paymentStatus} and can no longer be paid`
       });
     }
 
-    // If no Razorpay integration, mark as completed manually
-    if (!razorpayOrderId || !razorpayPaymentId || !razorpaySignature) {
-      console.log('⚠️ MANUAL PAYMENT VERIFICATION - Missing one or more Razorpay parameters');
-      console.log('This may cause refunds if webhook is not properly configured');
-      
-      // For manual verification or testing without Razorpay
-      order.paymentStatus = 'completed';
-      order.razorpayPaymentId = 'manual_' + Date.now();
-      order.razorpaySignature = 'manual_signature';
-      await order.save();
-      
-      console.log('✅ ORDER MARKED AS COMPLETED VIA MANUAL VERIFICATION');
-    } else {
+    if (!order.razorpayOrderId || !razorpayPaymentId) {
+      console.log('❌ VALIDATION FAILED: Missing Razorpay order or payment ID');
+      return res.status(400).json({
+        success: false,
+        error: 'Razorpay payment ID is required'
+      });
+    }
+
+    // A signature or payment for a different Razorpay order must never complete this one
+    if (razorpayOrderId && razorpayOrderId !== order.razorpayOrderId) {
+      console.log('❌ RAZORPAY ORDER ID DOES NOT MATCH ORDER:', {
+        received: razorpayOrderId,
+        expected: order.razorpayOrderId
+      });
+      return res.status(400).json({
+        success: false,
+        error: 'Payment verification failed'
+      });
+    }
+
+    if (razorpaySignature) {
       console.log('🔐 VERIFYING RAZORPAY SIGNATURE');
-      // Verify signature using the proper utility function
-      const { verifyRazorpaySignature } = require('../utils/payment.utils');
       const isValid = verifyRazorpaySignature(
-        razorpayOrderId,
+        order.razorpayOrderId,
         razorpayPaymentId,
         razorpaySignature
       );
 
       if (!isValid) {
         console.log('❌ PAYMENT VERIFICATION FAILED - INVALID SIGNATURE');
-        order.paymentStatus = 'failed';
-        await order.save();
+        if (!wasAlreadyCompleted) {
+          order.paymentStatus = 'failed';
+          await order.save();
+          await releaseCouponReservation(order._id);
+        }
         return res.status(400).json({ 
           success: false,
           error: 'Payment verification failed' 
         });
       }
 
-      // Update order
       console.log('✅ PAYMENT VERIFIED SUCCESSFULLY VIA SIGNATURE VERIFICATION');
-      order.paymentStatus = 'completed';
-      order.razorpayPaymentId = razorpayPaymentId;
+    } else {
+      // Without a signature, only a capture confirmed by Razorpay itself completes the order
+      console.log('🔍 NO SIGNATURE PROVIDED - CONFIRMING PAYMENT WITH RAZORPAY');
+      let payment: any;
+      try {
+        payment = await fetchPaymentDetails(razorpayPaymentId);
+      } catch (error) {
+        console.error('❌ FAILED TO FETCH PAYMENT FROM RAZORPAY:', error);
+        return res.status(502).json({
+          success: false,
+          error: 'Could not confirm payment with Razorpay. Please try again.'
+        });
+      }
+
+      const expectedAmountPaise = getExpectedAmountPaise(order);
+      const isConfirmed = payment?.order_id === order.razorpayOrderId &&
+        payment?.status === 'captured' &&
+        Number(payment?.amount) === expectedAmountPaise;
+
+      if (!isConfirmed) {
+        console.log('❌ PAYMENT NOT CONFIRMED BY RAZORPAY:', {
+          paymentOrderId: payment?.order_id,
+          status: payment?.status,
+          amount: payment?.amount,
+          expectedAmountPaise
+        });
+        return res.status(400).json({
+          success: false,
+          error: 'Payment could not be confirmed'
+        });
+      }
+
+      console.log('✅ PAYMENT CAPTURE CONFIRMED BY RAZORPAY');
+    }
+
+    // Update order
+    order.paymentStatus = 'completed';
+    order.razorpayPaymentId = razorpayPaymentId;
+    if (razorpaySignature) {
       order.razorpaySignature = razorpaySignature;
-      await order.save();
     }
+    await order.save();
 
-    // Update product sales count (both total and real)
-    console.log('🔄 UPDATING PRODUCT SALES COUNT');
-    for (const item of order.items) {
-      await Product.findByIdAndUpdate(item.product, {
-        $inc: { 
-          salesCount: item.quantity,
-          realSalesCount: item.quantity // Increment real sales for actual orders
-        }
-      });
+    if (!wasAlreadyCompleted) {
+      await recordOrderDiscounts(order);
+      await issueInvoiceForOrder(String(order._id));
     }
 
+    // Per-buyer copies are idempotent, so retry any that failed on an earlier attempt
+    await prepareOrderDeliveries(String(order._id));
+
+    // Update product stats and sales counts (counted once, even if the webhook got here first)
+    console.log('🔄 UPDATING PRODUCT SALES');
+    await recordOrderSales(order);
+
     // Send confirmation email with PDF links
     try {
       console.log('📧 PREPARING TO SEND CONFIRMATION EMAIL');
@@ -331,53 +546,47 @@ router.post('/verify-payment', optionalAuth, asyncHandler(async (req: Request, r
         price: item.price
       }));
 
-      // Get the first product's PDF for now (in real app, you'd handle multiple PDFs)
-      const firstProduct = await Product.findById(order.items[0].product);
-      if (firstProduct) {
-        console.log('Generating download link for product:', firstProduct._id);
-        const downloadLink = await getSignedDownloadUrl(firstProduct.pdfUrl);
-        
-        const customerEmail = order.guestEmail || (req as any).user?.email;
-        const customerName = order.guestName || (req as any).user?.name;
-        
-        console.log('Email details:', {
+      console.log('Generating download links for order:', order._id);
+      const downloads = await getOrderDownloads(String(order._id));
+      
+      const customerEmail = order.guestEmail || (req as any).user?.email;
+      const customerName = order.guestName || (req as any).user?.name;
+      
+      console.log('Email details:', {
+        to: customerEmail,
+        from: env.email.from,
+        subject: `Order Confirmation - ${order.orderNumber}`,
+        customerName: customerName || 'Customer',
+        orderNumber: order.orderNumber,
+        purchaseId: order.purchaseId,
+        totalAmount: order.totalAmount,
+        downloads: `${downloads.length}/${order.items.length} ready`
+      });
+
+      if (customerEmail) {
+        await sendEmail({
           to: customerEmail,
-          from: env.email.from,
           subject: `Order Confirmation - ${order.orderNumber}`,
-          customerName: customerName || 'Customer',
-          orderNumber: order.orderNumber,
-          purchaseId: order.purchaseId,
-          totalAmount: order.totalAmount,
-          pdfPassword: firstProduct.pdfPassword ? '***PROVIDED***' : 'MISSING',
-          downloadLink: downloadLink ? '***GENERATED***' : 'MISSING'
+          html: getOrderConfirmationEmail(
+            customerName || 'Customer',
+            order.orderNumber,
+            order.purchaseId,
+            products,
+            order.totalAmount,
+            downloads
+          )
         });
 
-        if (customerEmail) {
-          await sendEmail({
-            to: customerEmail,
-            subject: `Order Confirmation - ${order.orderNumber}`,
-            html: getOrderConfirmationEmail(
-              customerName || 'Customer',
-              order.orderNumber,
-              order.purchaseId,
-              products,
-              order.totalAmount,
-              firstProduct.pdfPassword,
-              downloadLink
-            )
-          });
-
-          order.emailSent = true;
-          order.emailSentAt = new Date();
+        order.emailSent = true;
+        order.emailSentAt = new Date();
+        if (downloads.length === getOrderDeliverables(order.items).length) {
           order.pdfDelivered = true;
           order.pdfDeliveredAt = new Date();
-          await order.save();
-          console.log('📧 ORDER CONFIRMATION EMAIL SENT SUCCESSFULLY');
-        } else {
-          console.log('⚠️ NO CUSTOMER EMAIL FOUND, SKIPPING EMAIL SEND');
         }
+        await order.save();
+        console.log('📧 ORDER CONFIRMATION EMAIL SENT SUCCESSFULLY');
       } else {
-        console.log('⚠️ NO PRODUCT FOUND FOR ORDER ITEM, SKIPPING EMAIL SEND');
+        console.log('⚠️ NO CUSTOMER EMAIL FOUND, SKIPPING EMAIL SEND');
       }
     } catch (error) {
       console.error('❌ EMAIL SENDING FAILED:', error);
@@ -433,6 +642,33 @@ router.get('/my-orders', authenticate, asyncHandler(async (req: Request, res: Re
   });
 }));
 
+// Get a magic-link guest's orders
+router.get('/guest-orders', authenticateGuest, asyncHandler(async (req: Request, res: Response) => {
+  const { page = 1, limit = 10 } = req.query;
+  const skip = (Number(page) - 1) * Number(limit);
+  const query = { guestEmail: (req as any).guestEmail, isFakeOrder: { $ne: true } };
+
+  const [orders, total] = await Promise.all([
+    Order.find(query)
+      .populate('items.product', 'name slug images')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(Number(limit)),
+    Order.countDocuments(query)
+  ]);
+
+  res.json({
+    success: true,
+    orders,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      pages: Math.ceil(total / Number(limit))
+    }
+  });
+}));
+
 // Get order by ID
 router.get('/:id', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
   const order = await Order.findById(req.params.id)
@@ -446,9 +682,9 @@ router.get('/:id', optionalAuth, asyncHandler(async (req: Request, res: Response
   // Check authorization
   const isAuthorized = 
     (order.user && order.user.toString() === (req as any).user?._id?.toString()) ||
-    (order.guestEmail && req.query.guestEmail === order.guestEmail);
+    (order.guestEmail && (req as any).guestEmail === order.guestEmail);
 
-  if (!isAuthorized && (req as any).user?.role !== 'admin') {
+  if (!isAuthorized && !requestHasPermission(req, 'orders')) {
     res.status(403).json({ error: 'Unauthorized' });
     return;
   }
@@ -459,6 +695,105 @@ router.get('/:id', optionalAuth, asyncHandler(async (req: Request, res: Response
   });
 }));
 
+// Get tax invoice for a completed order
+router.get('/:id/invoice', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  const order = await Order.findById(req.params.id);
+
+  if (!order) {
+    res.status(404).json({ error: 'Order not found' });
+    return;
+  }
+
+  // Check authorization
+  const isAuthorized = 
+    (order.user && order.user.toString() === (req as any).user?._id?.toString()) ||
+    (order.guestEmail && (req as any).guestEmail === order.guestEmail);
+
+  if (!isAuthorized && !requestHasPermission(req, 'orders')) {
+    res.status(403).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  if (order.paymentStatus !== 'completed') {
+    res.status(400).json({ error: 'Invoices are only available for completed orders' });
+    return;
+  }
+
+  // Issue the invoice now if it was never generated or its PDF failed earlier
+  let invoice: IInvoice | null = await Invoice.findOne({ order: order._id });
+  if (!invoice || invoice.status !== 'generated') {
+    invoice = await issueInvoiceForOrder(String(order._id));
+  }
+
+  if (!invoice || invoice.status !== 'generated' || !invoice.pdfKey) {
+    res.status(503).json({ error: 'Invoice is being generated. Please try again shortly.' });
+    return;
+  }
+
+  const downloadUrl = await getSignedDownloadUrl(invoice.pdfKey, 60 * 60); // 1 hour
+
+  res.json({
+    success: true,
+    invoice: {
+      invoiceNumber: invoice.invoiceNumber,
+      financialYear: invoice.financialYear,
+      issuedAt: invoice.issuedAt,
+      buyer: invoice.buyer,
+      supplyType: invoice.supplyType,
+      totals: invoice.totals,
+      amountInWords: invoice.amountInWords
+    },
+    downloadUrl
+  });
+}));
+
+// Opt in or out of emails about new versions of the products in an order
+router.patch('/:id/update-emails', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  if (typeof req.body.enabled !== 'boolean') {
+    res.status(400).json({ error: 'enabled must be true or false' });
+    return;
+  }
+
+  const order = await Order.findById(req.params.id).select('user guestEmail');
+  if (!order) {
+    res.status(404).json({ error: 'Order not found' });
+    return;
+  }
+
+  const isOwner =
+    (order.user && order.user.toString() === (req as any).user?._id?.toString()) ||
+    (order.guestEmail && (req as any).guestEmail === order.guestEmail);
+
+  if (!isOwner) {
+    res.status(403).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  await Order.updateOne({ _id: order._id }, { $set: { notifyOfUpdates: req.body.enabled } });
+
+  res.json({
+    success: true,
+    notifyOfUpdates: req.body.enabled
+  });
+}));
+
+// Unsubscribe link from a product update email; stops them for all of the buyer's orders
+router.post('/update-emails/unsubscribe', asyncHandler(async (req: Request, res: Response) => {
+  const email = typeof req.body.token === 'string' ? verifyUpdateEmailsToken(req.body.token) : null;
+  if (!email) {
+    res.status(400).json({ error: 'Invalid unsubscribe link' });
+    return;
+  }
+
+  const orders = await optOutOfUpdateEmails(email);
+  console.log('Product update emails turned off:', { email, orders });
+
+  res.json({
+    success: true,
+    message: 'You will no longer receive product update emails'
+  });
+}));
+
 // Resend order confirmation email
 router.post('/:id/resend-email', authenticate, asyncHandler(async (req: Request, res: Response) => {
   try {
@@ -482,13 +817,6 @@ router.post('/:id/resend-email', authenticate, asyncHandler(async (req: Request,
       return;
     }
 
-    // Get the first product's PDF for now (in real app, you'd handle multiple PDFs)
-    const firstProduct = await Product.findById(order.items[0].product);
-    if (!firstProduct) {
-      res.status(404).json({ error: 'Product not found' });
-      return;
-    }
-
     const products = order.items.map((item: any) => ({
       name: item.name,
       price: item.price
@@ -502,8 +830,9 @@ router.post('/:id/resend-email', authenticate, asyncHandler(async (req: Request,
       return;
     }
 
-    // Generate download link for resend
-    const downloadLink = await getSignedDownloadUrl(firstProduct.pdfUrl);
+    // Prepare any missing buyer copies and generate fresh links for resend
+    await prepareOrderDeliveries(String(order._id));
+    const downloads = await getOrderDownloads(String(order._id));
     
     await sendEmail({
       to: customerEmail,
@@ -514,15 +843,14 @@ router.post('/:id/resend-email', authenticate, asyncHandler(async (req: Request,
         order.purchaseId,
         products,
         order.totalAmount,
-        firstProduct.pdfPassword,
-        downloadLink
+        downloads
       )
     });
 
     order.emailSent = true;
     order.emailSentAt = new Date();
     // Only update pdfDelivered if it wasn't already delivered
-    if (!order.pdfDelivered) {
+    if (!order.pdfDelivered && downloads.length === getOrderDeliverables(order.items).length) {
       order.pdfDelivered = true;
       order.pdfDeliveredAt = new Date();
     }
@@ -541,16 +869,192 @@ router.post('/:id/resend-email', authenticate, asyncHandler(async (req: Request,
   }
 }));
 
+// Redeem a download entitlement and hand out a short-lived link to the buyer's copy
+const redeemDownload = async (
+  req: Request,
+  order: IOrder,
+  productId: string,
+  entitlement: IDownloadEntitlement,
+  via: 'token' | 'account' | 'guest' | 'admin',
+  requestedVersion?: number
+): Promise<{
+  status: number;
+  error?: string;
+  downloadUrl?: string;
+  password?: string;
+  version?: number;
+  downloadsRemaining?: number;
+}> => {
+  // Check if product is in order, on its own or inside a bundle
+  const orderItem = findDeliverable(order.items, productId);
+  if (!orderItem) {
+    console.log('Product not found in order:', { orderId: order._id, productId });
+    return { status: 404, error: 'Product not found in order' };
+  }
+
+  // The latest version unless the buyer asked for an earlier one
+  const versions = await ProductVersion.find({ product: productId }).sort({ version: 1 });
+  const resolved = resolveDownloadVersion(versions, order.createdAt, requestedVersion);
+  if (resolved.error) {
+    return { status: 404, error: resolved.error };
+  }
+
+  // Refuse before doing any stamping, encryption or upload work for a download that is not allowed.
+  // The download itself is only counted once the copy exists, so a failed build costs the buyer nothing.
+  const client = getDownloadClient(req);
+  if (via !== 'admin' && !evaluateEntitlement(entitlement, client, new Date(), { ignoreExpiry: isOwnerDownload(via) }).allowed) {
+    // Fails the same check again, which records the denied attempt
+    const denied = await redeemEntitlement(entitlement, client, via, (req as any).user?._id?.toString());
+    return { status: 403, error: denied.reason };
+  }
+
+  // Every buyer downloads their own watermarked copy, never the shared product file
+  if (orderItem.deliveryStatus !== 'ready' || !orderItem.deliveryKey) {
+    await prepareOrderDeliveries(String(order._id));
+  }
+
+  const refreshed = await Order.findById(order._id);
+  const item = refreshed ? findDeliverable(refreshed.items, productId) : undefined;
+  if (!item || item.deliveryStatus !== 'ready' || !item.deliveryKey) {
+    console.error('Buyer copy not available for product:', { orderId: order._id, productId });
+    return { status: 503, error: 'Your download is being prepared. Please try again shortly.' };
+  }
+
+  let deliveryKey = item.deliveryKey;
+  if (resolved.version) {
+    try {
+      deliveryKey = await prepareVersionCopy(refreshed!, item, resolved.version);
+    } catch (error) {
+      console.error('Failed to prepare buyer copy of version:', { orderId: order._id, productId, version: resolved.version.version }, error);
+      return { status: 503, error: 'Your download is being prepared. Please try again shortly.' };
+    }
+  }
+
+  const result = await redeemEntitlement(entitlement, client, via, (req as any).user?._id?.toString());
+  if (!result.allowed) {
+    return { status: 403, error: result.reason };
+  }
+
+  return {
+    status: 200,
+    downloadUrl: await getSignedDownloadUrl(deliveryKey, env.downloads.linkTtlSeconds),
+    password: item.deliveryPassword,
+    version: resolved.version?.version ?? 1,
+    downloadsRemaining: Math.max(0, result.entitlement.maxDownloads - result.entitlement.downloadCount)
+  };
+};
+
+// Version asked for with ?version=; undefined for the latest, null when it is not a version number
+const getRequestedVersion = (req: Request): number | undefined | null => {
+  if (req.query.version === undefined) return undefined;
+  const version = Number(req.query.version);
+  return Number.isInteger(version) && version >= 1 ? version : null;
+};
+
+// Who may download a product of an order: its owner (account or magic-link guest session),
+// an admin, or a download token bound to this order and product
+const authorizeDownload = async (
+  req: Request,
+  order: IOrder,
+  productId: string
+): Promise<{ via: 'token' | 'account' | 'guest' | 'admin' | null; entitlement: IDownloadEntitlement | null }> => {
+  if (requestHasPermission(req, 'orders')) {
+    return { via: 'admin', entitlement: null };
+  }
+  if (order.user && order.user.toString() === (req as any).user?._id?.toString()) {
+    return { via: 'account', entitlement: null };
+  }
+  if (order.guestEmail && (req as any).guestEmail === order.guestEmail) {
+    return { via: 'guest', entitlement: null };
+  }
+  if (typeof req.query.token === 'string') {
+    const entitlement = await getEntitlementForToken(req.query.token);
+    if (entitlement && entitlement.order.toString() === String(order._id) && entitlement.product.toString() === productId) {
+      return { via: 'token', entitlement };
+    }
+  }
+  return { via: null, entitlement: null };
+};
+
+// Download via the tokenised link sent by email (no login required)
+router.get('/download/:token', asyncHandler(async (req: Request, res: Response) => {
+  const entitlement = await getEntitlementForToken(String(req.params.token));
+  if (!entitlement) {
+    res.status(403).json({ error: 'Invalid or expired download link' });
+    return;
+  }
+
+  const version = getRequestedVersion(req);
+  if (version === null) {
+    res.status(400).json({ error: 'Invalid version' });
+    return;
+  }
+
+  const order = await Order.findById(entitlement.order);
+  if (!order || order.paymentStatus !== 'completed') {
+    res.status(404).json({ error: 'Order not found or payment not completed' });
+    return;
+  }
+
+  const result = await redeemDownload(req, order, entitlement.product.toString(), entitlement, 'token', version);
+  if (!result.downloadUrl) {
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+
+  res.redirect(302, result.downloadUrl);
+}));
+
+// Versions of a purchased product the buyer can download
+router.get('/:orderId/versions/:productId', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+  const productId = String(req.params.productId);
+
+  const order = await Order.findById(req.params.orderId);
+  if (!order || order.paymentStatus !== 'completed' || !findDeliverable(order.items, productId)) {
+    res.status(404).json({ error: 'Order not found or payment not completed' });
+    return;
+  }
+
+  const { via } = await authorizeDownload(req, order, productId);
+  if (!via) {
+    res.status(403).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  const versions = await ProductVersion.find({ product: productId })
+    .select('version changelog releasedAt')
+    .sort({ version: 1 });
+  const entitled = getEntitledVersions(versions, order.createdAt);
+  const latest = entitled[entitled.length - 1];
+
+  res.json({
+    success: true,
+    latestVersion: latest?.version ?? 1,
+    versions: entitled.reverse().map(version => ({
+      version: version.version,
+      changelog: version.changelog,
+      releasedAt: version.releasedAt
+    }))
+  });
+}));
+
 // Get download link for purchased product
 router.get('/:orderId/download/:productId', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
   console.log('Download request received:', { 
     orderId: req.params.orderId, 
     productId: req.params.productId,
     userId: (req as any).user?._id,
-    query: req.query
+    hasToken: !!req.query.token
   });
 
-  const { orderId, productId } = req.params;
+  const orderId = String(req.params.orderId);
+  const productId = String(req.params.productId);
+
+  const version = getRequestedVersion(req);
+  if (version === null) {
+    res.status(400).json({ error: 'Invalid version' });
+    return;
+  }
 
   const order = await Order.findById(orderId);
   if (!order || order.paymentStatus !== 'completed') {
@@ -559,75 +1063,33 @@ router.get('/:orderId/download/:productId', optionalAuth, asyncHandler(async (re
     return;
   }
 
-  // Check if product is in order
-  const orderItem = order.items.find(item => 
-    item.product.toString() === productId
-  );
-  if (!orderItem) {
-    console.log('Product not found in order:', { orderId, productId });
-    res.status(404).json({ error: 'Product not found in order' });
-    return;
-  }
-
-  // Check authorization
-  const isAuthorized = 
-    (order.user && order.user.toString() === (req as any).user?._id?.toString()) ||
-    (order.guestEmail && req.query.guestEmail === order.guestEmail);
-
-  if (!isAuthorized) {
+  const access = await authorizeDownload(req, order, productId);
+  if (!access.via) {
     console.log('Unauthorized download attempt:', { 
       orderId, 
       productId, 
       userId: (req as any).user?._id,
-      orderUser: order.user,
-      guestEmail: order.guestEmail,
-      queryEmail: req.query.guestEmail
+      orderUser: order.user
     });
     res.status(403).json({ error: 'Unauthorized' });
     return;
   }
 
-  const product = await Product.findById(productId);
-  if (!product) {
-    console.log('Product not found:', { productId });
-    res.status(404).json({ error: 'Product not found' });
-    return;
-  }
+  const entitlement = access.entitlement || await ensureEntitlement(orderId, productId);
 
-  // Handle both local and S3 storage
-  let downloadUrl;
-  const isProduction = process.env.MODE === 'production' || process.env.NODE_ENV === 'production';
-  
-  console.log('Generating download URL:', { 
-    isProduction, 
-    pdfUrl: product.pdfUrl,
-    product: product._id
-  });
-  
-  if (isProduction) {
-    // Production: Use S3 signed URL
-    // The product.pdfUrl should contain the S3 key
-    downloadUrl = await getSignedDownloadUrl(product.pdfUrl);
-    console.log('Generated S3 signed URL:', downloadUrl);
-  } else {
-    // Development: Use direct URL
-    // The product.pdfUrl should contain the full local URL
-    downloadUrl = product.pdfUrl;
-    console.log('Using local URL:', downloadUrl);
-  }
-
-  // Fix: Ensure we always return a proper response
-  if (!downloadUrl) {
-    console.error('Failed to generate download URL for product:', productId);
-    res.status(500).json({ error: 'Failed to generate download link' });
+  const result = await redeemDownload(req, order, productId, entitlement, access.via, version);
+  if (!result.downloadUrl) {
+    res.status(result.status).json({ error: result.error });
     return;
   }
 
   res.json({
     success: true,
-    downloadUrl,
-    password: product.pdfPassword,
-    expiresIn: isProduction ? '15 days' : 'permanent'
+    downloadUrl: result.downloadUrl,
+    password: result.password,
+    version: result.version,
+    downloadsRemaining: result.downloadsRemaining,
+    expiresIn: `${Math.round(env.downloads.linkTtlSeconds / 60)} minutes`
   });
 }));
 
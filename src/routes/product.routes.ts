@@ -1,10 +1,26 @@
 import { Router, Request, Response } from 'express';
 import { Product } from '../models/Product.model';
 import { Demo } from '../models/Demo.model';
+import { ProductStats } from '../models/ProductStats.model';
+import { ProductVersion } from '../models/ProductVersion.model';
 import { asyncHandler } from '../middleware/error.middleware';
-import { authenticate, authorizeAdmin } from '../middleware/auth.middleware';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/admin.middleware';
+import { recordAudit } from '../utils/audit.utils';
+import {
+  getCatalogSearchIndex,
+  invalidateCatalogSearchIndex,
+  parseSearchParams,
+  parseListingQuery,
+  searchCatalog,
+  autocomplete
+} from '../utils/search.utils';
+import { getRealPurchaseCounts } from '../utils/productStats.utils';
+import { validateBundleProducts } from '../utils/bundle.utils';
+import { releaseProductVersion, notifyPastBuyers } from '../utils/productVersion.utils';
+import { applyPriceSchedules, getPriceSchedules, resolveProductPrice } from '../utils/priceSchedule.utils';
 import { GetObjectCommand } from '@aws-sdk/client-s3';
-import { s3Client } from '../utils/storage.utils';
+import { s3Client, isPublicKey } from '../utils/storage.utils';
 import { env } from '../config/environment.config';
 import sharp from 'sharp';
 
@@ -22,6 +38,14 @@ router.get('/get-signed-url', asyncHandler(async (req: Request, res: Response) =
     return;
   }
 
+  if (!isPublicKey(key)) {
+    res.status(403).json({
+      success: false,
+      error: 'This file is not public'
+    });
+    return;
+  }
+
   try {
     // Import S3 utilities
     const { getSignedDownloadUrl } = require('../utils/storage.utils');
@@ -94,6 +118,13 @@ router.get('/proxy-s3/:key*', asyncHandler(async (req: Request, res: Response) =
       console.log('Processed key for file without folder prefix:', { original: fullKey, processed: processedKey });
     }
     
+    if (!isPublicKey(processedKey)) {
+      return res.status(403).json({
+        success: false,
+        error: 'This file is not public'
+      });
+    }
+
     console.log('Final processed key for S3:', { processedKey });
     
     try {
@@ -310,137 +341,89 @@ router.get('/test-pdf-content', asyncHandler(async (req: Request, res: Response)
   }
 }));
 
-// Get all products (public)
-router.get('/', asyncHandler(async (_req: Request, res: Response) => {
-  const {
-    category,
-    subcategory, // This can now be a comma-separated string
-    search,
-    minPrice,
-    maxPrice,
-    page = 1,
-    limit = 12
-  } = _req.query;
-
-  const query: any = { isActive: true };
+// Ranked catalog search with facet counts. Query: q, category, subcategory, priceBand,
+// minPrice, maxPrice, minRating, sort (relevance, price_asc, price_desc, rating, newest, bestselling), page, limit
+const sendCatalogSearch = async (req: Request, res: Response) => {
+  const params = parseSearchParams(req.query);
+  const result = searchCatalog(await getCatalogSearchIndex(), params);
+  const purchaseCounts = await getRealPurchaseCounts(result.products.map(product => product._id));
 
-  // Filters
-  if (category) query.category = category;
-  
-  // Handle multiple subcategories
-  if (subcategory) {
-    const subcategories = Array.isArray(subcategory) 
-      ? subcategory 
-      : typeof subcategory === 'string' 
-        ? subcategory.split(',').map(s => s.trim())
-        : [subcategory];
-    
-    if (subcategories.length > 0) {
-      query.subcategory = { $in: subcategories };
+  res.json({
+    success: true,
+    query: params.q,
+    sort: params.sort,
+    products: result.products.map(product => ({
+      ...product,
+      realPurchaseCount: purchaseCounts.get(String(product._id)) || 0
+    })),
+    facets: result.facets,
+    pagination: {
+      page: result.page,
+      limit: result.limit,
+      total: result.total,
+      pages: result.pages
     }
-  }
-  
-  if (search) {
-    query.$or = [
-      { name: { $regex: search, $options: 'i' } },
-      { description: { $regex: search, $options: 'i' } },
-      { tags: { $in: [new RegExp(search as string, 'i')] } }
-    ];
-  }
-  if (minPrice || maxPrice) {
-    query.price = {};
-    if (minPrice) query.price.$gte = Number(minPrice);
-    if (maxPrice) query.price.$lte = Number(maxPrice);
-  }
-
-  const skip = (Number(page) - 1) * Number(limit);
+  });
+};
 
-  // Aggregate to get real purchase counts
-  const productsWithPurchaseData = await Product.aggregate([
-    { $match: query },
-    {
-      $lookup: {
-        from: 'orders',
-        let: { productId: '$_id' },
-        pipeline: [
-          {
-            $match: {
-              $expr: {
-                $and: [
-                  { $in: ['$$productId', '$items.product'] },
-                  { $eq: ['$paymentStatus', 'completed'] },
-                  { $ne: ['$isFakeOrder', true] } // Exclude fake orders
-                ]
-              }
-            }
-          },
-          {
-            $unwind: '$items'
-          },
-          {
-            $match: {
-              $expr: { $eq: ['$items.product', '$$productId'] }
-            }
-          },
-          {
-            $group: {
-              _id: null,
-              count: { $sum: '$items.quantity' }
-            }
-          }
-        ],
-        as: 'realPurchaseCount'
-      }
-    },
-    {
-      $addFields: {
-        realPurchaseCount: { $arrayElemAt: ['$realPurchaseCount.count', 0] }
-      }
-    },
-    {
-      $addFields: {
-        realPurchaseCount: { $ifNull: ['$realPurchaseCount', 0] }
-      }
-    },
-    {
-      $sort: { order: 1, createdAt: -1 }
-    },
-    {
-      $skip: skip
-    },
-    {
-      $limit: Number(limit)
-    }
-  ]);
+router.get('/search', asyncHandler(sendCatalogSearch));
 
-  const [products, total] = await Promise.all([
-    Product.find(query)
-      .sort({ order: 1, createdAt: -1 }) // Sort by order first, then by creation date
-      .skip(skip)
-      .limit(Number(limit))
-      .select('-pdfUrl -pdfPassword'),
-    Product.countDocuments(query)
-  ]);
+// Suggestions while typing in the search box
+router.get('/search/autocomplete', asyncHandler(async (req: Request, res: Response) => {
+  const q = String(req.query.q || '').trim().slice(0, 100);
+  const limit = Math.min(Number(req.query.limit) || 5, 10);
 
-  // Merge purchase data with products
-  const processedProducts = products.map(product => {
-    const productObj = product.toObject();
-    const productId = String(product._id);
-    const purchaseData = productsWithPurchaseData.find(p => p._id.toString() === productId);
-    return {
-      ...productObj,
-      realPurchaseCount: purchaseData ? purchaseData.realPurchaseCount : 0
-    };
+  res.json({
+    success: true,
+    query: q,
+    ...autocomplete(await getCatalogSearchIndex(), q, limit)
   });
+}));
+
+// Get all products (public). Text searches go through catalog search; sorting keeps the listing's filters.
+router.get('/', asyncHandler(async (_req: Request, res: Response) => {
+  if (_req.query.search || _req.query.q) {
+    await sendCatalogSearch(_req, res);
+    return;
+  }
+
+  const { filter: query, sort, page, limit } = parseListingQuery(_req.query);
+  const skip = (page - 1) * limit;
+
+  // One page of products with real purchase counts from the maintained stats
+  const [products, total, schedules] = await Promise.all([
+    Product.aggregate([
+      { $match: query },
+      { $sort: sort },
+      { $skip: skip },
+      { $limit: limit },
+      {
+        $lookup: {
+          from: ProductStats.collection.name,
+          localField: '_id',
+          foreignField: 'product',
+          as: 'stats'
+        }
+      },
+      {
+        $addFields: {
+          realPurchaseCount: { $ifNull: [{ $arrayElemAt: ['$stats.realUnits', 0] }, 0] }
+        }
+      },
+      { $project: { stats: 0, pdfUrl: 0, pdfPassword: 0 } }
+    ]),
+    Product.countDocuments(query),
+    getPriceSchedules()
+  ]);
 
   res.json({
     success: true,
-    products: processedProducts,
+    products: applyPriceSchedules(products, schedules),
     pagination: {
-      page: Number(page),
-      limit: Number(limit),
+      page,
+      limit,
       total,
-      pages: Math.ceil(total / Number(limit))
+      pages: Math.ceil(total / limit)
     }
   });
 }));
@@ -546,61 +529,16 @@ router.get('/:slug', asyncHandler(async (req: Request, res: Response) => {
   const product = await Product.findOne({ 
     slug: req.params.slug,
     isActive: true 
-  }).select('-pdfUrl -pdfPassword');
+  })
+    .select('-pdfUrl -pdfPassword')
+    .populate('bundleProducts', 'name slug images price originalPrice category subcategory promptCount');
 
   if (!product) {
     res.status(404).json({ error: 'Product not found' });
     return;
   }
 
-  // Get real purchase count
-  const purchaseData = await Product.aggregate([
-    { $match: { _id: product._id } },
-    {
-      $lookup: {
-        from: 'orders',
-        let: { productId: '$_id' },
-        pipeline: [
-          {
-            $match: {
-              $expr: {
-                $and: [
-                  { $in: ['$$productId', '$items.product'] },
-                  { $eq: ['$paymentStatus', 'completed'] },
-                  { $ne: ['$isFakeOrder', true] } // Exclude fake orders
-                ]
-              }
-            }
-          },
-          {
-            $unwind: '$items'
-          },
-          {
-            $match: {
-              $expr: { $eq: ['$items.product', '$$productId'] }
-            }
-          },
-          {
-            $group: {
-              _id: null,
-              count: { $sum: '$items.quantity' }
-            }
-          }
-        ],
-        as: 'realPurchaseCount'
-      }
-    },
-    {
-      $addFields: {
-        realPurchaseCount: { $arrayElemAt: ['$realPurchaseCount.count', 0] }
-      }
-    },
-    {
-      $addFields: {
-        realPurchaseCount: { $ifNull: ['$realPurchaseCount', 0] }
-      }
-    }
-  ]);
+  const stats = await ProductStats.findOne({ product: product._id }).select('realUnits');
 
   // Check if product has demos
   const demoCount = await Demo.countDocuments({
@@ -608,10 +546,14 @@ router.get('/:slug', asyncHandler(async (req: Request, res: Response) => {
     isActive: true
   });
 
-  // Convert to plain object for response
+  // Convert to plain object for response, with any scheduled price applied
+  const schedules = await getPriceSchedules();
+  const plain = product.toObject();
   const processedProduct = {
-    ...product.toObject(),
-    realPurchaseCount: purchaseData[0] ? purchaseData[0].realPurchaseCount : 0,
+    ...plain,
+    ...resolveProductPrice(plain, schedules),
+    bundleProducts: applyPriceSchedules(plain.bundleProducts as any[], schedules),
+    realPurchaseCount: stats?.realUnits || 0,
     hasDemos: demoCount > 0
   };
 
@@ -645,8 +587,8 @@ router.get('/:slug/has-demos', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
-// Create product (admin only)
-router.post('/', authenticate, authorizeAdmin, asyncHandler(async (req: Request, res: Response) => {
+// Create product (catalog permission)
+router.post('/', authenticate, requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   try {
     console.log('Product creation request body:', req.body);
     
@@ -662,8 +604,25 @@ router.post('/', authenticate, authorizeAdmin, asyncHandler(async (req: Request,
       pdfPassword: req.body.pdfPassword
     });
     
+    if (req.body.type === 'bundle') {
+      const bundleError = await validateBundleProducts(req.body.bundleProducts);
+      if (bundleError) {
+        res.status(400).json({ success: false, error: bundleError });
+        return;
+      }
+    }
+
     const product = new Product(req.body);
     await product.save();
+    invalidateCatalogSearchIndex();
+
+    await recordAudit(req, {
+      action: 'product.create',
+      entityType: 'product',
+      entityId: product._id,
+      entityLabel: product.name,
+      after: product
+    });
 
     res.status(201).json({
       success: true,
@@ -690,11 +649,31 @@ router.post('/', authenticate, authorizeAdmin, asyncHandler(async (req: Request,
   }
 }));
 
-// Update product (admin only)
-router.put('/:id', authenticate, authorizeAdmin, asyncHandler(async (req: Request, res: Response) => {
+// Update product (catalog permission)
+router.put('/:id', authenticate, requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const previous = await Product.findById(req.params.id);
+  if (!previous) {
+    res.status(404).json({ error: 'Product not found' });
+    return;
+  }
+
+  if ((req.body.type ?? previous.type) === 'bundle') {
+    const bundleError = await validateBundleProducts(req.body.bundleProducts ?? previous.bundleProducts, String(previous._id));
+    if (bundleError) {
+      res.status(400).json({ error: bundleError });
+      return;
+    }
+    if (previous.type !== 'bundle' && await Product.exists({ bundleProducts: previous._id })) {
+      res.status(400).json({ error: 'This product is part of a bundle and cannot become a bundle itself' });
+      return;
+    }
+  }
+
+  // The version number only moves through releases; a changelog describes a new file
+  const { currentVersion, changelog, ...updates } = req.body;
   const product = await Product.findByIdAndUpdate(
     req.params.id,
-    req.body,
+    updates,
     { new: true, runValidators: true }
   );
 
@@ -703,25 +682,152 @@ router.put('/:id', authenticate, authorizeAdmin, asyncHandler(async (req: Reques
     return;
   }
 
+  // Replacing the file releases a new version so earlier buyers keep access to the old one
+  if (previous.type !== 'bundle' && updates.pdfUrl && updates.pdfUrl !== previous.pdfUrl) {
+    const version = await releaseProductVersion(
+      previous,
+      { pdfUrl: updates.pdfUrl, pdfPassword: updates.pdfPassword },
+      typeof changelog === 'string' && changelog.trim() ? changelog : 'Updated file',
+      (req as any).user?._id?.toString()
+    );
+    product.currentVersion = version.version;
+  }
+
+  invalidateCatalogSearchIndex();
+
+  await recordAudit(req, {
+    action: 'product.update',
+    entityType: 'product',
+    entityId: product._id,
+    entityLabel: product.name,
+    before: previous,
+    after: product
+  });
+
   res.json({
     success: true,
     product
   });
 }));
 
-// Delete product (admin only)
-router.delete('/:id', authenticate, authorizeAdmin, asyncHandler(async (req: Request, res: Response) => {
-  const product = await Product.findByIdAndUpdate(
+// Version history of a product (catalog permission)
+router.get('/:id/versions', authenticate, requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const product = await Product.findById(req.params.id).select('name currentVersion');
+  if (!product) {
+    res.status(404).json({ error: 'Product not found' });
+    return;
+  }
+
+  const versions = await ProductVersion.find({ product: product._id })
+    .select('-pdfPassword')
+    .populate('releasedBy', 'name email')
+    .sort({ version: -1 });
+
+  res.json({
+    success: true,
+    currentVersion: product.currentVersion,
+    versions
+  });
+}));
+
+// Release a new version of a product's PDF (catalog permission)
+router.post('/:id/versions', authenticate, requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const { pdfUrl, pdfPassword, changelog } = req.body;
+
+  if (typeof pdfUrl !== 'string' || !pdfUrl.trim()) {
+    res.status(400).json({ error: 'pdfUrl is required' });
+    return;
+  }
+  if (typeof changelog !== 'string' || !changelog.trim()) {
+    res.status(400).json({ error: 'A changelog is required' });
+    return;
+  }
+
+  const product = await Product.findById(req.params.id);
+  if (!product) {
+    res.status(404).json({ error: 'Product not found' });
+    return;
+  }
+  if (product.type === 'bundle') {
+    res.status(400).json({ error: 'Bundles have no file of their own; release a version of the products they contain' });
+    return;
+  }
+
+  let version;
+  try {
+    version = await releaseProductVersion(product, { pdfUrl, pdfPassword }, changelog, (req as any).user?._id?.toString());
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      res.status(409).json({ error: 'Another version was released at the same time. Please try again.' });
+      return;
+    }
+    throw error;
+  }
+
+  await recordAudit(req, {
+    action: 'product.version.release',
+    entityType: 'product',
+    entityId: product._id,
+    entityLabel: product.name,
+    metadata: { version: version.version, changelog: version.changelog }
+  });
+
+  res.status(201).json({
+    success: true,
+    version: { ...version.toObject(), pdfPassword: undefined }
+  });
+}));
+
+// Email buyers who opted in about a version. Runs in the background, once per version (catalog permission).
+router.post('/:id/versions/:version/notify', authenticate, requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const version = await ProductVersion.findOne({ product: req.params.id, version: Number(req.params.version) });
+  if (!version) {
+    res.status(404).json({ error: 'Version not found' });
+    return;
+  }
+
+  const started = await notifyPastBuyers(version, (req as any).user?._id?.toString());
+  if (!started) {
+    res.status(409).json({ error: 'Buyers have already been notified about this version', notification: version.notification });
+    return;
+  }
+
+  await recordAudit(req, {
+    action: 'product.version.notify',
+    entityType: 'product',
+    entityId: String(version.product),
+    metadata: { version: version.version }
+  });
+
+  res.status(202).json({
+    success: true,
+    message: 'Notifying buyers about this version'
+  });
+}));
+
+// Delete product (catalog permission)
+router.delete('/:id', authenticate, requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
+  const previous = await Product.findByIdAndUpdate(
     req.params.id,
-    { isActive: false },
-    { new: true }
+    { isActive: false }
   );
 
-  if (!product) {
+  if (!previous) {
     res.status(404).json({ error: 'Product not found' });
     return;
   }
 
+  invalidateCatalogSearchIndex();
+
+  await recordAudit(req, {
+    action: 'product.deactivate',
+    entityType: 'product',
+    entityId: previous._id,
+    entityLabel: previous.name,
+    before: { isActive: previous.isActive },
+    after: { isActive: false }
+  });
+
   res.json({
     success: true,
     message: 'Product deactivated successfully'
@@ -733,11 +839,12 @@ router.get('/featured/list', asyncHandler(async (_req: Request, res: Response) =
   const products = await Product.find({ isActive: true })
     .sort({ salesCount: -1, averageRating: -1 })
     .limit(8)
-    .select('-pdfUrl -pdfPassword');
+    .select('-pdfUrl -pdfPassword')
+    .lean();
 
   res.json({
     success: true,
-    products
+    products: applyPriceSchedules(products, await getPriceSchedules())
   });
 }));
 
@@ -752,7 +859,7 @@ router.get('/categories/list', asyncHandler(async (_req: Request, res: Response)
 }));
 
 // Get all products for admin (with order management)
-router.get('/admin/all', authenticate, authorizeAdmin, asyncHandler(async (_req: Request, res: Response) => {
+router.get('/admin/all', authenticate, requirePermission('catalog'), asyncHandler(async (_req: Request, res: Response) => {
   const products = await Product.find({})
     .sort({ order: 1, createdAt: -1 })
     .select('name description price originalPrice category subcategory promptCount isActive salesCount averageRating order createdAt');
@@ -764,8 +871,10 @@ router.get('/admin/all', authenticate, authorizeAdmin, asyncHandler(async (_req:
 }));
 
 // Update multiple product orders
-router.put('/admin/reorder', authenticate, authorizeAdmin, asyncHandler(async (req: Request, res: Response) => {
+router.put('/admin/reorder', authenticate, requirePermission('catalog'), asyncHandler(async (req: Request, res: Response) => {
   const { products } = req.body; // Array of { id, order }
+
+  const previous = await Product.find({ _id: { $in: products.map((product: any) => product.id) } }).select('order');
   
   const updatePromises = products.map((product: any) => 
     Product.findByIdAndUpdate(
@@ -776,6 +885,15 @@ router.put('/admin/reorder', authenticate, authorizeAdmin, asyncHandler(async (r
   );
   
   await Promise.all(updatePromises);
+  invalidateCatalogSearchIndex();
+
+  // One entry for the whole reorder, keyed by product id
+  await recordAudit(req, {
+    action: 'product.reorder',
+    entityType: 'product',
+    before: Object.fromEntries(previous.map(product => [String(product._id), product.order])),
+    after: Object.fromEntries(products.map((product: any) => [String(product.id), product.order]))
+  });
   
   res.json({
     success: true,
@@ -1,12 +1,17 @@
 import { Router, Request, Response } from 'express';
 import { RazorpayEvent } from '../models/RazorpayEvent.model';
-import { authenticate, authorizeAdmin } from '../middleware/auth.middleware';
+import { authenticate } from '../middleware/auth.middleware';
+import { requirePermission } from '../middleware/admin.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { replayRazorpayEvent, replayRazorpayEvents } from '../utils/webhook.utils';
+import { recordAudit } from '../utils/audit.utils';
+import { replayEventSchema, replayEventsSchema } from '../validators/razorpay.validators';
 
 const router: Router = Router();
 
 // Get all Razorpay events with pagination
-router.get('/events', authenticate, authorizeAdmin, asyncHandler(async (req: Request, res: Response) => {
+router.get('/events', authenticate, requirePermission('orders'), asyncHandler(async (req: Request, res: Response) => {
   try {
     const { page = 1, limit = 20, eventType, status, search } = req.query;
     const skip = (Number(page) - 1) * Number(limit);
@@ -60,7 +65,7 @@ router.get('/events', authenticate, authorizeAdmin, asyncHandler(async (req: Req
 }));
 
 // Get event statistics
-router.get('/stats', authenticate, authorizeAdmin, asyncHandler(async (_req: Request, res: Response) => {
+router.get('/stats', authenticate, requirePermission('orders'), asyncHandler(async (_req: Request, res: Response) => {
   try {
     const now = new Date();
     const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
@@ -148,7 +153,7 @@ router.get('/stats', authenticate, authorizeAdmin, asyncHandler(async (_req: Req
 }));
 
 // Get event by ID
-router.get('/events/:id', authenticate, authorizeAdmin, asyncHandler(async (req: Request, res: Response) => {
+router.get('/events/:id', authenticate, requirePermission('orders'), asyncHandler(async (req: Request, res: Response) => {
   try {
     const event = await RazorpayEvent.findById(req.params.id);
     
@@ -175,7 +180,7 @@ router.get('/events/:id', authenticate, authorizeAdmin, asyncHandler(async (req:
 }));
 
 // Get events by payment ID
-router.get('/events/payment/:paymentId', authenticate, authorizeAdmin, asyncHandler(async (req: Request, res: Response) => {
+router.get('/events/payment/:paymentId', authenticate, requirePermission('orders'), asyncHandler(async (req: Request, res: Response) => {
   try {
     const events = await RazorpayEvent.find({ paymentId: req.params.paymentId })
       .sort({ createdAt: -1 });
@@ -195,4 +200,111 @@ router.get('/events/payment/:paymentId', authenticate, authorizeAdmin, asyncHand
   }
 }));
 
-export default router;
\ No newline at end of file
+// Replay failed (dead-lettered) events in bulk. Declared before /events/:id/replay so
+// "replay" is never read as an event id.
+router.post('/events/replay', authenticate, requirePermission('orders'), validate(replayEventsSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { status, eventType, from, to, eventIds, limit, dryRun, force } = req.body;
+    const summary = await replayRazorpayEvents(
+      {
+        status,
+        eventType,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        eventIds
+      },
+      { dryRun, force, limit, replayedBy: (req as any).user?._id?.toString() }
+    );
+
+    if (!dryRun) {
+      await recordAudit(req, {
+        action: 'razorpay_event.replay_bulk',
+        entityType: 'razorpay_event',
+        metadata: {
+          filter: { status, eventType, from, to, eventIds },
+          force: !!force,
+          matched: summary.matched,
+          processed: summary.processed,
+          failed: summary.failed,
+          skipped: summary.skipped,
+          eventIds: summary.results.map(result => result.eventId)
+        }
+      });
+    }
+
+    console.log('🔁 Bulk webhook replay:', {
+      dryRun: !!dryRun,
+      matched: summary.matched,
+      processed: summary.processed,
+      failed: summary.failed,
+      skipped: summary.skipped
+    });
+
+    res.json({
+      success: true,
+      dryRun: !!dryRun,
+      ...summary
+    });
+    return;
+  } catch (error) {
+    console.error('Error replaying Razorpay events:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay Razorpay events'
+    });
+    return;
+  }
+}));
+
+// Replay a single event through the webhook handlers
+router.post('/events/:id/replay', authenticate, requirePermission('orders'), validate(replayEventSchema), asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const result = await replayRazorpayEvent(String(req.params.id), {
+      dryRun: req.body.dryRun,
+      force: req.body.force,
+      replayedBy: (req as any).user?._id?.toString()
+    });
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Event not found'
+      });
+    }
+
+    if (!result.dryRun && result.outcome !== 'skipped') {
+      await recordAudit(req, {
+        action: 'razorpay_event.replay',
+        entityType: 'razorpay_event',
+        entityId: String(req.params.id),
+        entityLabel: result.eventType,
+        before: { status: result.statusBefore },
+        after: { status: result.statusAfter },
+        metadata: { eventId: result.eventId, outcome: result.outcome, force: !!req.body.force }
+      });
+    }
+
+    if (!result.dryRun && result.outcome === 'skipped') {
+      return res.status(409).json({
+        success: false,
+        error: result.errorMessage,
+        result
+      });
+    }
+
+    res.json({
+      success: result.outcome !== 'failed',
+      result
+    });
+    return;
+  } catch (error) {
+    console.error('Error replaying Razorpay event:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay Razorpay event'
+    });
+    return;
+  }
+}));
+
+export default router;
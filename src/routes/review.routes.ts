@@ -4,10 +4,14 @@ import { Order } from '../models/Order.model';
 import { validate } from '../middleware/validation.middleware';
 import { optionalAuth, authenticate } from '../middleware/auth.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
+import { enforcePolicy } from '../middleware/policy.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
 import { createReviewSchema } from '../validators/review.validators';
 
 const router: Router = Router();
 
+const reviewLimiter = rateLimit({ name: 'review', windowMs: 60 * 60 * 1000, perIp: 20, perAccount: 10 });
+
 // Check if user has purchased a product (for review eligibility)
 router.get('/purchase-verification/:productId', authenticate, asyncHandler(async (req: Request, res: Response) => {
   const { productId } = req.params;
@@ -92,7 +96,7 @@ router.get('/:reviewId', asyncHandler(async (req: Request, res: Response) => {
 }));
 
 // Create review (verified purchase only) - Enhanced with better error logging
-router.post('/', optionalAuth, validate(createReviewSchema), asyncHandler(async (req: Request, res: Response) => {
+router.post('/', optionalAuth, reviewLimiter, enforcePolicy('post_review'), validate(createReviewSchema), asyncHandler(async (req: Request, res: Response) => {
   try {
     const { productId, orderId, rating, title, comment } = req.body;
     const userId = (req as any).user?._id;
@@ -200,7 +204,7 @@ router.post('/', optionalAuth, validate(createReviewSchema), asyncHandler(async
 }));
 
 // Create review (verified purchase only) - BULLETPROOF VERSION
-router.post('/bulletproof', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+router.post('/bulletproof', optionalAuth, reviewLimiter, enforcePolicy('post_review'), asyncHandler(async (req: Request, res: Response) => {
   try {
     console.log('=== BULLETPROOF REVIEW SUBMISSION ===');
     console.log('Full request body:', req.body);
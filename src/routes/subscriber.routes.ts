@@ -1,11 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { Subscriber } from '../models/Subscriber.model';
 import { asyncHandler } from '../middleware/error.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
+import { getClientIp } from '../utils/download.utils';
 
 const router: Router = Router();
 
+const subscribeLimiter = rateLimit({ name: 'subscribe', windowMs: 60 * 60 * 1000, perIp: 10, perAccount: 3 });
+
 // Subscribe to newsletter
-router.post('/subscribe', asyncHandler(async (req: Request, res: Response) => {
+router.post('/subscribe', subscribeLimiter, asyncHandler(async (req: Request, res: Response) => {
   try {
     const { email, source = 'other' } = req.body;
     
@@ -31,14 +35,14 @@ router.post('/subscribe', asyncHandler(async (req: Request, res: Response) => {
     }
 
     // Get IP address and user agent
-    const ipAddress = req.headers['x-forwarded-for'] as string || req.socket.remoteAddress || '';
+    const ipAddress = getClientIp(req);
     const userAgent = req.headers['user-agent'] || '';
 
     // Create new subscriber
     const subscriber = new Subscriber({
       email,
       source,
-      ipAddress: ipAddress.split(',')[0].trim(), // Get first IP if multiple
+      ipAddress,
       userAgent: Array.isArray(userAgent) ? userAgent[0] : userAgent
     });
 
@@ -1,11 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { SupportTicket } from '../models/SupportTicket.model';
 import { Order } from '../models/Order.model';
-import { optionalAuth, authenticate } from '../middleware/auth.middleware';
+import { optionalAuth, authenticate, authenticateGuest } from '../middleware/auth.middleware';
 import { asyncHandler } from '../middleware/error.middleware';
+import { enforcePolicy } from '../middleware/policy.middleware';
+import { requestHasPermission } from '../middleware/admin.middleware';
+import { rateLimit } from '../middleware/rateLimit.middleware';
 
 const router: Router = Router();
 
+const ticketLimiter = rateLimit({ name: 'support_ticket', windowMs: 60 * 60 * 1000, perIp: 10, perAccount: 5 });
+
 // Get user's orders for support form (registered users)
 router.get('/user-orders', authenticate, asyncHandler(async (req: Request, res: Response) => {
   const orders = await Order.find({ 
@@ -68,8 +73,8 @@ router.post('/verify-purchase', asyncHandler(async (req: Request, res: Response)
   });
 }));
 
-// Create support ticket
-router.post('/tickets', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
+// Create support ticket. Unverified accounts can only raise issues about a purchase.
+router.post('/tickets', optionalAuth, ticketLimiter, enforcePolicy(req => req.body.ticketType === 'purchase_issue' ? null : 'open_general_ticket'), asyncHandler(async (req: Request, res: Response) => {
   const { 
     subject, 
     message, 
@@ -178,8 +183,20 @@ router.get('/tickets/my-tickets', authenticate, asyncHandler(async (req: Request
   });
 }));
 
-// Get ticket by number (for guests)
-router.get('/tickets/track/:ticketNumber', asyncHandler(async (req: Request, res: Response) => {
+// Get a magic-link guest's tickets
+router.get('/tickets/guest-tickets', authenticateGuest, asyncHandler(async (req: Request, res: Response) => {
+  const tickets = await SupportTicket.find({ guestEmail: (req as any).guestEmail })
+    .populate('order', 'orderNumber')
+    .sort({ createdAt: -1 });
+
+  res.json({
+    success: true,
+    tickets
+  });
+}));
+
+// Get ticket by number (for guests, by email or a magic-link guest session)
+router.get('/tickets/track/:ticketNumber', optionalAuth, asyncHandler(async (req: Request, res: Response) => {
   const { ticketNumber } = req.params;
   const { email } = req.query;
 
@@ -192,7 +209,7 @@ router.get('/tickets/track/:ticketNumber', asyncHandler(async (req: Request, res
   }
 
   // Verify email for guest tickets
-  if (ticket.guestEmail && ticket.guestEmail !== email) {
+  if (ticket.guestEmail && ticket.guestEmail !== email && ticket.guestEmail !== (req as any).guestEmail) {
     res.status(403).json({ error: 'Invalid email for this ticket' });
     return;
   }
@@ -218,21 +235,21 @@ router.post('/tickets/:ticketId/responses', optionalAuth, asyncHandler(async (re
   // Verify ownership
   const isOwner = 
     (userId && ticket.user?.toString() === userId.toString()) ||
-    (!userId && ticket.guestEmail === guestEmail);
+    (!userId && !!ticket.guestEmail && (ticket.guestEmail === guestEmail || ticket.guestEmail === (req as any).guestEmail));
   
-  if (!isOwner && (req as any).user?.role !== 'admin') {
+  if (!isOwner && !requestHasPermission(req, 'support')) {
     res.status(403).json({ error: 'Unauthorized' });
     return;
   }
 
   ticket.responses.push({
     message,
-    isAdminResponse: (req as any).user?.role === 'admin',
+    isAdminResponse: requestHasPermission(req, 'support'),
     createdAt: new Date()
   });
 
   // Update status if admin responds
-  if ((req as any).user?.role === 'admin' && ticket.status === 'open') {
+  if (requestHasPermission(req, 'support') && ticket.status === 'open') {
     ticket.status = 'in-progress';
   }
 
@@ -257,7 +274,7 @@ router.patch('/tickets/:ticketId/status', authenticate, asyncHandler(async (req:
 
   // Only ticket owner or admin can update status
   const isOwner = ticket.user?.toString() === (req as any).user._id.toString();
-  if (!isOwner && (req as any).user.role !== 'admin') {
+  if (!isOwner && !requestHasPermission(req, 'support')) {
     res.status(403).json({ error: 'Unauthorized' });
     return;
   }
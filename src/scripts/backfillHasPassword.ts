@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import { User } from '../models/User.model';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Accounts created before hasPassword was stored get it from whether a password hash is set
+async function backfillHasPassword() {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/indian-promptpack');
+    console.log('✅ Connected to MongoDB');
+
+    const withPassword = await User.updateMany(
+      { password: { $exists: true, $nin: [null, ''] } },
+      { $set: { hasPassword: true } }
+    );
+    const withoutPassword = await User.updateMany(
+      { $or: [{ password: { $exists: false } }, { password: { $in: [null, ''] } }] },
+      { $set: { hasPassword: false } }
+    );
+
+    console.log(`🎉 Marked ${withPassword.modifiedCount} accounts with a password and ${withoutPassword.modifiedCount} without`);
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+backfillHasPassword();
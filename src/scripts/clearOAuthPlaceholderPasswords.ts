@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+import * as bcrypt from 'bcryptjs';
+import { User, LEGACY_OAUTH_PASSWORD } from '../models/User.model';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Google sign-ups used to get the password "google-oauth-user". Remove it so those
+// accounts are in the "no password set" state and can only set one explicitly.
+async function clearOAuthPlaceholderPasswords() {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/indian-promptpack');
+    console.log('✅ Connected to MongoDB');
+
+    const users = await User.find({
+      googleId: { $exists: true, $ne: null },
+      password: { $exists: true }
+    }).select('password email');
+
+    console.log(`📝 Checking ${users.length} Google accounts`);
+
+    let cleared = 0;
+    for (const user of users) {
+      if (user.password && await bcrypt.compare(LEGACY_OAUTH_PASSWORD, user.password)) {
+        await User.updateOne({ _id: user._id }, { $unset: { password: 1 }, $set: { hasPassword: false } });
+        cleared++;
+        console.log(`✅ Cleared placeholder password for ${user.email}`);
+      }
+    }
+
+    console.log(`🎉 Cleared ${cleared} placeholder passwords`);
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+clearOAuthPlaceholderPasswords();
@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+import { rebuildProductStats } from '../utils/productStats.utils';
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// Recount product stats from all paid orders. Run once when product stats are first deployed,
+// before orders complete through the new code, and again whenever the counts look wrong.
+async function rebuild() {
+  try {
+    // Connect to MongoDB
+    await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/indian-promptpack');
+    console.log('✅ Connected to MongoDB');
+
+    const result = await rebuildProductStats();
+
+    console.log(`🎉 Rebuilt stats for ${result.products} products from ${result.orders} orders`);
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+  } finally {
+    await mongoose.disconnect();
+    console.log('👋 Disconnected from MongoDB');
+    process.exit(0);
+  }
+}
+
+rebuild();
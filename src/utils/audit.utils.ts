@@ -0,0 +1,75 @@
+import { Request } from 'express';
+import { AuditLog, AuditEntityType, IAuditChange } from '../models/AuditLog.model';
+import { getClientIp } from './download.utils';
+
+export interface AuditEntry {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: unknown;
+  entityLabel?: string;
+  before?: any; // Document or plain object; omit for creates
+  after?: any; // Document or plain object; omit for deletes
+  metadata?: Record<string, any>;
+}
+
+// Bookkeeping fields that change on every save
+const IGNORED_PATHS = new Set(['_id', '__v', 'createdAt', 'updatedAt']);
+
+// Never copied into the audit log
+const REDACTED_KEYS = new Set(['password', 'twoFactor', 'tokenHash', 'refreshTokenHash', 'previousTokenHashes', 'pdfPassword']);
+
+// Plain JSON copy of a document, so ObjectIds and dates compare by value
+export const toAuditSnapshot = (value: any): any => {
+  if (value === undefined || value === null) return undefined;
+  const plain = typeof value.toObject === 'function' ? value.toObject({ depopulate: true }) : value;
+  return JSON.parse(JSON.stringify(plain, (key, item) => (REDACTED_KEYS.has(key) ? undefined : item)));
+};
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Field-level differences between two snapshots. Nested objects are compared by dotted path;
+// arrays are compared as a whole.
+export const diffSnapshots = (before: any, after: any, prefix: string = ''): IAuditChange[] => {
+  const changes: IAuditChange[] = [];
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  for (const key of keys) {
+    if (!prefix && IGNORED_PATHS.has(key)) continue;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    const from = before?.[key];
+    const to = after?.[key];
+
+    if (isPlainObject(from) && isPlainObject(to)) {
+      changes.push(...diffSnapshots(from, to, path));
+    } else if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ path, before: from, after: to });
+    }
+  }
+
+  return changes;
+};
+
+// Append an audit entry for a back-office action. Never throws: a failed write is logged,
+// not allowed to fail the action that already happened.
+export const recordAudit = async (req: Request, entry: AuditEntry): Promise<void> => {
+  const actor = (req as any).user;
+
+  try {
+    await AuditLog.create({
+      actor: actor?._id,
+      actorEmail: actor?.email,
+      actorRole: actor?.role,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId ? String(entry.entityId) : undefined,
+      entityLabel: entry.entityLabel,
+      changes: diffSnapshots(toAuditSnapshot(entry.before), toAuditSnapshot(entry.after)),
+      metadata: entry.metadata,
+      ipAddress: getClientIp(req),
+      userAgent: req.header('user-agent')
+    });
+  } catch (error) {
+    console.error('❌ Failed to write audit log:', { action: entry.action, entityId: entry.entityId, error });
+  }
+};
@@ -0,0 +1,109 @@
+import * as crypto from 'crypto';
+import { AuthToken, AuthTokenPurpose, IAuthToken } from '../models/AuthToken.model';
+import { IUser } from '../models/User.model';
+import { env } from '../config/environment.config';
+import { sendEmail, getWelcomeEmail, getVerificationEmail } from './email.utils';
+
+export const PASSWORD_RESET_TTL_MINUTES = 30;
+export const EMAIL_VERIFICATION_TTL_MINUTES = 24 * 60;
+export const VERIFICATION_RESEND_INTERVAL_SECONDS = 60;
+export const VERIFICATION_RESEND_DAILY_LIMIT = 5;
+export const MAGIC_LINK_TTL_MINUTES = 15;
+
+export const hashAuthToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+// Issue a new emailed token, expiring any unused token for the same owner and purpose.
+// Returns the raw token; only its hash is stored. Expired tokens are kept for a day
+// (see the TTL index) so recent sends can be counted for throttling.
+const createAuthToken = async (
+  owner: { user: string } | { email: string },
+  purpose: AuthTokenPurpose,
+  ttlMinutes: number,
+  requestedIp?: string
+): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  const now = new Date();
+  await AuthToken.updateMany(
+    { ...owner, purpose, usedAt: null, expiresAt: { $gt: now } },
+    { $set: { expiresAt: now } }
+  );
+  await AuthToken.create({
+    ...owner,
+    purpose,
+    tokenHash: hashAuthToken(token),
+    expiresAt: new Date(now.getTime() + ttlMinutes * 60 * 1000),
+    requestedIp
+  });
+
+  return token;
+};
+
+export const issueAuthToken = (
+  userId: string,
+  purpose: AuthTokenPurpose,
+  ttlMinutes: number,
+  requestedIp?: string
+): Promise<string> => createAuthToken({ user: userId }, purpose, ttlMinutes, requestedIp);
+
+// For addresses that may not have an account, e.g. guest buyers
+export const issueEmailAuthToken = (
+  email: string,
+  purpose: AuthTokenPurpose,
+  ttlMinutes: number,
+  requestedIp?: string
+): Promise<string> => createAuthToken({ email: email.toLowerCase() }, purpose, ttlMinutes, requestedIp);
+
+// Mark a token used and return it, or null if it is unknown, expired or already used.
+// The conditional update makes the token single-use even under concurrent requests.
+export const consumeAuthToken = async (token: string, purpose: AuthTokenPurpose): Promise<IAuthToken | null> => {
+  return AuthToken.findOneAndUpdate(
+    {
+      tokenHash: hashAuthToken(token),
+      purpose,
+      usedAt: null,
+      expiresAt: { $gt: new Date() }
+    },
+    { $set: { usedAt: new Date() } },
+    { new: true }
+  );
+};
+
+// Whether another verification email may be sent, given when the recent ones were sent
+export const getResendThrottle = (
+  sentAt: Date[],
+  now: Date = new Date()
+): { allowed: boolean; retryAfterSeconds?: number } => {
+  const dayAgo = now.getTime() - 24 * 60 * 60 * 1000;
+  const recent = sentAt.map(date => date.getTime()).filter(time => time > dayAgo).sort((a, b) => b - a);
+
+  if (recent.length > 0) {
+    const nextAllowed = recent[0] + VERIFICATION_RESEND_INTERVAL_SECONDS * 1000;
+    if (nextAllowed > now.getTime()) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((nextAllowed - now.getTime()) / 1000) };
+    }
+  }
+
+  if (recent.length >= VERIFICATION_RESEND_DAILY_LIMIT) {
+    const oldest = recent[VERIFICATION_RESEND_DAILY_LIMIT - 1];
+    return { allowed: false, retryAfterSeconds: Math.ceil((oldest - dayAgo) / 1000) };
+  }
+
+  return { allowed: true };
+};
+
+// Email a new verification link to a local account
+export const sendVerificationEmail = async (user: IUser, isNewAccount: boolean = false): Promise<void> => {
+  const token = await issueAuthToken(String(user._id), 'email_verification', EMAIL_VERIFICATION_TTL_MINUTES);
+  const verificationLink = `${env.frontendUrl}/verify-email?token=${token}`;
+
+  await sendEmail({
+    to: user.email,
+    subject: isNewAccount ? 'Welcome to Desi Prompts!' : 'Verify your email for Desi Prompts',
+    html: isNewAccount
+      ? getWelcomeEmail(user.name, verificationLink)
+      : getVerificationEmail(user.name, verificationLink)
+  });
+};
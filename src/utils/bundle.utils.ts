@@ -0,0 +1,138 @@
+import mongoose from 'mongoose';
+import { Product, IProduct } from '../models/Product.model';
+import { IOrderItem, IOrderBundleItem } from '../models/Order.model';
+
+export const MIN_BUNDLE_PRODUCTS = 2;
+export const MAX_BUNDLE_PRODUCTS = 20;
+
+// One PDF the buyer receives: a regular order line, or a product inside a bundle line
+export interface OrderDeliverable {
+  product: mongoose.Types.ObjectId;
+  name: string;
+  line: mongoose.Types.ObjectId; // Product of the order line it belongs to
+  bundleName?: string; // Set for products delivered as part of a bundle
+  deliveryKey?: string;
+  deliveryPassword?: string;
+  deliveryStatus?: 'pending' | 'ready' | 'failed';
+  deliveryVersion?: number;
+}
+
+export const isBundleLine = (item: Pick<IOrderItem, 'bundleItems'>): boolean =>
+  Array.isArray(item.bundleItems) && item.bundleItems.length > 0;
+
+// Every PDF an order delivers, with bundle lines expanded into the products they contain
+export const getOrderDeliverables = (items: IOrderItem[]): OrderDeliverable[] => {
+  return items.flatMap(item => {
+    if (!isBundleLine(item)) {
+      return [{
+        product: item.product,
+        name: item.name,
+        line: item.product,
+        deliveryKey: item.deliveryKey,
+        deliveryPassword: item.deliveryPassword,
+        deliveryStatus: item.deliveryStatus,
+        deliveryVersion: item.deliveryVersion
+      }];
+    }
+
+    return item.bundleItems!.map(component => ({
+      product: component.product,
+      name: component.name,
+      line: item.product,
+      bundleName: item.name,
+      deliveryKey: component.deliveryKey,
+      deliveryPassword: component.deliveryPassword,
+      deliveryStatus: component.deliveryStatus,
+      deliveryVersion: component.deliveryVersion
+    }));
+  });
+};
+
+export const findDeliverable = (items: IOrderItem[], productId: string): OrderDeliverable | undefined =>
+  getOrderDeliverables(items).find(deliverable => deliverable.product.toString() === productId);
+
+// Products delivered by the given order lines, e.g. to withdraw access when those lines are refunded
+export const getDeliveredProductIds = (items: IOrderItem[], lineProductIds: string[]): string[] =>
+  getOrderDeliverables(items)
+    .filter(deliverable => lineProductIds.includes(deliverable.line.toString()))
+    .map(deliverable => deliverable.product.toString());
+
+// The first product a cart would deliver more than once, e.g. a pack bought alongside a
+// bundle that contains it. Each product has one buyer copy and one entitlement per order.
+export const findRepeatedDelivery = (lines: { productId: string; contains?: string[] }[]): string | null => {
+  const seen = new Set<string>();
+  for (const line of lines) {
+    for (const productId of line.contains?.length ? line.contains : [line.productId]) {
+      if (seen.has(productId)) return productId;
+      seen.add(productId);
+    }
+  }
+  return null;
+};
+
+// Check the products a bundle is made of. Returns an error message, or null when they are fine.
+export const validateBundleProducts = async (productIds: unknown, bundleId?: string): Promise<string | null> => {
+  if (!Array.isArray(productIds)) {
+    return 'A bundle needs a list of bundleProducts';
+  }
+
+  const ids = productIds.map(String);
+  if (new Set(ids).size !== ids.length) {
+    return 'A bundle cannot contain the same product twice';
+  }
+  if (ids.length < MIN_BUNDLE_PRODUCTS || ids.length > MAX_BUNDLE_PRODUCTS) {
+    return `A bundle must contain between ${MIN_BUNDLE_PRODUCTS} and ${MAX_BUNDLE_PRODUCTS} products`;
+  }
+  if (ids.some(id => !mongoose.isValidObjectId(id))) {
+    return 'Invalid product ID in bundle';
+  }
+  if (bundleId && ids.includes(bundleId)) {
+    return 'A bundle cannot contain itself';
+  }
+
+  const products = await Product.find({ _id: { $in: ids } }).select('type pdfUrl');
+  if (products.length !== ids.length) {
+    return 'Some bundle products do not exist';
+  }
+  if (products.some(product => product.type === 'bundle')) {
+    return 'Bundles cannot contain other bundles';
+  }
+  if (products.some(product => !product.pdfUrl)) {
+    return 'Every bundle product needs a PDF';
+  }
+
+  return null;
+};
+
+// Order lines for the bundles in a cart: the products each bundle delivers, by bundle id.
+// Fails when a bundle's contents can no longer be delivered.
+export const getCartBundleItems = async (
+  products: IProduct[]
+): Promise<{ items: Map<string, IOrderBundleItem[]>; error?: string }> => {
+  const items = new Map<string, IOrderBundleItem[]>();
+  const bundles = products.filter(product => product.type === 'bundle');
+  if (bundles.length === 0) {
+    return { items };
+  }
+
+  const componentIds = bundles.flatMap(bundle => bundle.bundleProducts);
+  const components = await Product.find({ _id: { $in: componentIds }, type: { $ne: 'bundle' } }).select('name pdfUrl');
+
+  for (const bundle of bundles) {
+    const contents: IOrderBundleItem[] = [];
+    for (const componentId of bundle.bundleProducts) {
+      const component = components.find(product => String(product._id) === String(componentId));
+      if (!component?.pdfUrl) {
+        return { items, error: `${bundle.name} is not available right now` };
+      }
+      contents.push({ product: component._id as mongoose.Types.ObjectId, name: component.name });
+    }
+
+    if (contents.length === 0) {
+      return { items, error: `${bundle.name} is not available right now` };
+    }
+    items.set(String(bundle._id), contents);
+  }
+
+  return { items };
+};
@@ -0,0 +1,265 @@
+import mongoose from 'mongoose';
+import { Coupon, ICoupon } from '../models/Coupon.model';
+import { Order, IOrder } from '../models/Order.model';
+
+export interface CartLine {
+  productId: string;
+  category: string;
+  price: number;
+  listPrice?: number;
+  quantity: number;
+}
+
+export interface CouponRules {
+  code: string;
+  discountType: 'percentage' | 'flat';
+  discountValue: number;
+  maxDiscountAmount?: number;
+  minOrderAmount?: number;
+  applicableProducts?: Array<{ toString(): string }>;
+  applicableCategories?: string[];
+  validFrom?: Date;
+  validUntil?: Date;
+  usageLimit?: number;
+  usedCount?: number;
+  isActive?: boolean;
+}
+
+export interface CouponEvaluation {
+  valid: boolean;
+  reason?: string;
+  eligibleSubtotal: number;
+  discountAmount: number;
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const normalizeCouponCode = (code: string): string => code.trim().toUpperCase();
+
+export const getCartSubtotal = (lines: CartLine[]): number => {
+  return roundAmount(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+};
+
+// Lines a coupon applies to. A coupon with no product or category scope applies to the whole cart.
+export const getEligibleLines = (coupon: CouponRules, lines: CartLine[]): CartLine[] => {
+  const productIds = (coupon.applicableProducts || []).map(id => id.toString());
+  const categories = coupon.applicableCategories || [];
+
+  if (productIds.length === 0 && categories.length === 0) {
+    return lines;
+  }
+
+  return lines.filter(line =>
+    productIds.includes(line.productId) || categories.includes(line.category)
+  );
+};
+
+// Pure evaluation of a coupon against a cart (no per-customer checks)
+export const evaluateCoupon = (
+  coupon: CouponRules,
+  lines: CartLine[],
+  now: Date = new Date()
+): CouponEvaluation => {
+  const invalid = (reason: string): CouponEvaluation => ({
+    valid: false,
+    reason,
+    eligibleSubtotal: 0,
+    discountAmount: 0
+  });
+
+  if (coupon.isActive === false) {
+    return invalid('Coupon is not active');
+  }
+
+  if (coupon.validFrom && now < coupon.validFrom) {
+    return invalid('Coupon is not yet valid');
+  }
+
+  if (coupon.validUntil && now > coupon.validUntil) {
+    return invalid('Coupon has expired');
+  }
+
+  if (coupon.usageLimit && (coupon.usedCount || 0) >= coupon.usageLimit) {
+    return invalid('Coupon usage limit reached');
+  }
+
+  const subtotal = getCartSubtotal(lines);
+  if (coupon.minOrderAmount && subtotal < coupon.minOrderAmount) {
+    return invalid(`Minimum order amount of ₹${coupon.minOrderAmount} required`);
+  }
+
+  const eligibleSubtotal = getCartSubtotal(getEligibleLines(coupon, lines));
+  if (eligibleSubtotal <= 0) {
+    return invalid('Coupon does not apply to any item in your cart');
+  }
+
+  let discountAmount = coupon.discountType === 'percentage'
+    ? eligibleSubtotal * (coupon.discountValue / 100)
+    : coupon.discountValue;
+
+  if (coupon.maxDiscountAmount) {
+    discountAmount = Math.min(discountAmount, coupon.maxDiscountAmount);
+  }
+
+  return {
+    valid: true,
+    eligibleSubtotal,
+    discountAmount: roundAmount(Math.min(discountAmount, eligibleSubtotal))
+  };
+};
+
+// Count completed redemptions of a coupon by one customer
+export const countCustomerRedemptions = async (
+  couponCode: string,
+  userId?: string,
+  guestEmail?: string
+): Promise<number> => {
+  if (!userId && !guestEmail) {
+    return 0;
+  }
+
+  const customerQuery = userId ? { user: userId } : { guestEmail: guestEmail!.toLowerCase() };
+
+  return Order.countDocuments({
+    ...customerQuery,
+    'coupon.code': couponCode,
+    paymentStatus: 'completed'
+  });
+};
+
+// Look up a coupon by code and evaluate it for this cart and customer
+export const resolveCoupon = async (
+  code: string,
+  lines: CartLine[],
+  userId?: string,
+  guestEmail?: string
+): Promise<{ coupon: ICoupon | null; evaluation: CouponEvaluation }> => {
+  const coupon = await Coupon.findOne({ code: normalizeCouponCode(code) });
+
+  if (!coupon) {
+    return {
+      coupon: null,
+      evaluation: { valid: false, reason: 'Invalid coupon code', eligibleSubtotal: 0, discountAmount: 0 }
+    };
+  }
+
+  const evaluation = evaluateCoupon(coupon, lines);
+  if (!evaluation.valid) {
+    return { coupon, evaluation };
+  }
+
+  if (coupon.perCustomerLimit) {
+    const redemptions = await countCustomerRedemptions(coupon.code, userId, guestEmail);
+    if (redemptions >= coupon.perCustomerLimit) {
+      return {
+        coupon,
+        evaluation: { valid: false, reason: 'You have already used this coupon', eligibleSubtotal: 0, discountAmount: 0 }
+      };
+    }
+  }
+
+  return { coupon, evaluation };
+};
+
+// Unpaid orders give their coupon redemption back after this long
+export const COUPON_RESERVATION_TTL_HOURS = 24;
+
+// Take one of a coupon's redemptions for an order at checkout. The limit check and the
+// increment are a single update, so concurrent checkouts cannot go past the usage limit.
+export const reserveCouponRedemption = async (couponId: unknown): Promise<boolean> => {
+  const result = await Coupon.updateOne(
+    {
+      _id: couponId,
+      $or: [{ usageLimit: null }, { $expr: { $lt: ['$usedCount', '$usageLimit'] } }]
+    },
+    { $inc: { usedCount: 1 } }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Give back a redemption taken for an order that was never placed
+export const returnCouponRedemption = async (couponId: unknown): Promise<void> => {
+  await Coupon.updateOne({ _id: couponId, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+};
+
+// Give back the redemption an unpaid order holds, once its payment fails or it expires.
+// Claimed on the order first, so a redemption is only ever given back once.
+export const releaseCouponReservation = async (orderId: unknown): Promise<boolean> => {
+  const order = await Order.findOneAndUpdate(
+    { _id: orderId, 'coupon.reserved': true, paymentStatus: { $in: ['pending', 'failed'] } },
+    { $set: { 'coupon.reserved': false } }
+  );
+  if (!order?.coupon) {
+    return false;
+  }
+
+  await returnCouponRedemption(order.coupon.couponId);
+  console.log('Released coupon reservation:', { code: order.coupon.code, orderNumber: order.orderNumber });
+  return true;
+};
+
+// Release the redemptions held by orders that were never paid
+export const releaseExpiredCouponReservations = async (now: Date = new Date()): Promise<number> => {
+  const cutoff = new Date(now.getTime() - COUPON_RESERVATION_TTL_HOURS * 60 * 60 * 1000);
+  const orders = await Order.find({
+    'coupon.reserved': true,
+    paymentStatus: { $in: ['pending', 'failed'] },
+    createdAt: { $lt: cutoff }
+  }).select('_id');
+
+  let released = 0;
+  for (const order of orders) {
+    if (await releaseCouponReservation(order._id)) {
+      released++;
+    }
+  }
+  return released;
+};
+
+const RESERVATION_EXPIRY_INTERVAL_MS = 15 * 60 * 1000;
+
+// Release expired reservations on a timer of their own, so coupon limits free up
+// whether or not payment reconciliation is scheduled
+export const scheduleCouponReservationExpiry = (): NodeJS.Timeout => {
+  const timer = setInterval(async () => {
+    try {
+      if (mongoose.connection.readyState !== 1) return;
+      const released = await releaseExpiredCouponReservations();
+      if (released > 0) {
+        console.log('🎟️ Released expired coupon reservations:', { released });
+      }
+    } catch (error) {
+      console.error('❌ Failed to release expired coupon reservations:', error);
+    }
+  }, RESERVATION_EXPIRY_INTERVAL_MS);
+
+  return timer.unref();
+};
+
+// Count a redemption once the order's payment is completed. Orders that still hold the
+// redemption reserved at checkout were counted then; one that gave it back (a failed
+// attempt before a successful one) takes it again, even past the limit, as it is paid.
+export const recordCouponRedemption = async (order: IOrder) => {
+  if (!order.coupon?.couponId) {
+    return;
+  }
+
+  try {
+    if (order.coupon.reserved !== undefined) {
+      const reclaimed = await Order.updateOne(
+        { _id: order._id, 'coupon.reserved': false },
+        { $set: { 'coupon.reserved': true } }
+      );
+      if (reclaimed.modifiedCount === 0) {
+        return;
+      }
+    }
+
+    await Coupon.findByIdAndUpdate(order.coupon.couponId, {
+      $inc: { usedCount: 1 }
+    });
+    console.log('Recorded coupon redemption:', { code: order.coupon.code, orderNumber: order.orderNumber });
+  } catch (error) {
+    console.error('Failed to record coupon redemption:', error);
+  }
+};
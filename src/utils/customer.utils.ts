@@ -0,0 +1,151 @@
+import { User, IUser } from '../models/User.model';
+import { Order } from '../models/Order.model';
+import { Review } from '../models/Review.model';
+import { SupportTicket } from '../models/SupportTicket.model';
+
+export interface CustomerStats {
+  totalOrders: number;
+  totalSpent: number;
+  averageOrderValue: number;
+  firstPurchaseDate?: Date;
+  lastPurchaseDate?: Date;
+}
+
+export interface GuestClaimResult {
+  orders: number;
+  reviews: number;
+  tickets: number;
+}
+
+export interface GuestClaimBackfillResult {
+  dryRun: boolean;
+  usersMatched: number;
+  usersLinked: number;
+  orders: number;
+  reviews: number;
+  tickets: number;
+  failed: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Customer analytics from a user's completed orders
+export const summarizeCustomerOrders = (orders: { totalAmount: number; createdAt: Date }[]): CustomerStats => {
+  const sorted = [...orders].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const totalOrders = sorted.length;
+  const totalSpent = sorted.reduce((sum, order) => sum + (order.totalAmount || 0), 0);
+
+  return {
+    totalOrders,
+    totalSpent: round2(totalSpent),
+    averageOrderValue: totalOrders > 0 ? round2(totalSpent / totalOrders) : 0,
+    firstPurchaseDate: sorted[0]?.createdAt,
+    lastPurchaseDate: sorted[totalOrders - 1]?.createdAt
+  };
+};
+
+export const recomputeCustomerStats = async (userId: unknown): Promise<CustomerStats> => {
+  const orders = await Order.find({
+    user: userId,
+    paymentStatus: 'completed',
+    isFakeOrder: { $ne: true }
+  }).select('totalAmount createdAt');
+
+  const stats = summarizeCustomerOrders(orders);
+  await User.updateOne(
+    { _id: userId },
+    stats.totalOrders > 0
+      ? { $set: stats }
+      : { $set: { totalOrders: 0, totalSpent: 0, averageOrderValue: 0 }, $unset: { firstPurchaseDate: 1, lastPurchaseDate: 1 } }
+  );
+  return stats;
+};
+
+// Attach guest purchases, reviews and tickets made with the user's email to their account.
+// Only for verified emails, so nobody can claim someone else's purchases by signing up with their address.
+export const claimGuestRecords = async (user: IUser): Promise<GuestClaimResult> => {
+  if (!user.isVerified || !user.email) {
+    return { orders: 0, reviews: 0, tickets: 0 };
+  }
+
+  const guestEmail = user.email.toLowerCase();
+  const [orders, reviews, tickets] = await Promise.all([
+    Order.updateMany(
+      { user: null, guestEmail, paymentStatus: 'completed', isFakeOrder: { $ne: true } },
+      { $set: { user: user._id } }
+    ),
+    Review.updateMany({ user: null, guestEmail, isFakeReview: { $ne: true } }, { $set: { user: user._id } }),
+    SupportTicket.updateMany({ user: null, guestEmail }, { $set: { user: user._id } })
+  ]);
+
+  const result = {
+    orders: orders.modifiedCount,
+    reviews: reviews.modifiedCount,
+    tickets: tickets.modifiedCount
+  };
+
+  if (result.orders > 0) {
+    await recomputeCustomerStats(user._id);
+  }
+
+  if (result.orders + result.reviews + result.tickets > 0) {
+    console.log('🔗 Linked guest records to account:', { userId: user._id, ...result });
+  }
+
+  return result;
+};
+
+// Find verified accounts with unclaimed guest records and link them. A dry run only counts.
+export const backfillGuestClaims = async (
+  options: { dryRun?: boolean; limit?: number } = {}
+): Promise<GuestClaimBackfillResult> => {
+  const dryRun = !!options.dryRun;
+  const [orderEmails, reviewEmails, ticketEmails] = await Promise.all([
+    Order.distinct('guestEmail', { user: null, paymentStatus: 'completed', isFakeOrder: { $ne: true } }),
+    Review.distinct('guestEmail', { user: null, isFakeReview: { $ne: true } }),
+    SupportTicket.distinct('guestEmail', { user: null })
+  ]);
+
+  const emails = Array.from(new Set([...orderEmails, ...reviewEmails, ...ticketEmails].filter(Boolean)));
+  const users = await User.find({ email: { $in: emails }, isVerified: true })
+    .limit(options.limit || 1000);
+
+  const result: GuestClaimBackfillResult = {
+    dryRun,
+    usersMatched: users.length,
+    usersLinked: 0,
+    orders: 0,
+    reviews: 0,
+    tickets: 0,
+    failed: 0
+  };
+
+  for (const user of users) {
+    if (dryRun) {
+      const [orders, reviews, tickets] = await Promise.all([
+        Order.countDocuments({ user: null, guestEmail: user.email, paymentStatus: 'completed', isFakeOrder: { $ne: true } }),
+        Review.countDocuments({ user: null, guestEmail: user.email, isFakeReview: { $ne: true } }),
+        SupportTicket.countDocuments({ user: null, guestEmail: user.email })
+      ]);
+      result.orders += orders;
+      result.reviews += reviews;
+      result.tickets += tickets;
+      continue;
+    }
+
+    try {
+      const claimed = await claimGuestRecords(user);
+      result.orders += claimed.orders;
+      result.reviews += claimed.reviews;
+      result.tickets += claimed.tickets;
+      if (claimed.orders + claimed.reviews + claimed.tickets > 0) {
+        result.usersLinked++;
+      }
+    } catch (error) {
+      result.failed++;
+      console.error('❌ Failed to link guest records:', { userId: user._id, error });
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,304 @@
+import * as crypto from 'crypto';
+import { PDFDocument, StandardFonts, rgb } from '@cantoo/pdf-lib';
+import { Order, IOrder } from '../models/Order.model';
+import { Product } from '../models/Product.model';
+import { IProductVersion } from '../models/ProductVersion.model';
+import { uploadFile, getFileBuffer, checkFileExists } from './storage.utils';
+import { ensureEntitlement, getDownloadLink } from './download.utils';
+import { sendEmail, getOrderConfirmationEmail } from './email.utils';
+import { getOrderDeliverables, OrderDeliverable } from './bundle.utils';
+
+export interface BuyerStamp {
+  name: string;
+  email: string;
+  purchaseId: string;
+}
+
+export interface OrderDownload {
+  productId: string;
+  name: string;
+  password: string;
+  downloadLink: string;
+}
+
+// Unambiguous characters only, since buyers type this password by hand
+const PASSWORD_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const generateDeliveryPassword = (): string => {
+  const bytes = crypto.randomBytes(12);
+  const chars = Array.from(bytes, byte => PASSWORD_CHARS[byte % PASSWORD_CHARS.length]);
+  return [chars.slice(0, 4), chars.slice(4, 8), chars.slice(8, 12)].map(group => group.join('')).join('-');
+};
+
+// Copies of versions other than the one first delivered get their own key
+export const getDeliveryKey = (orderId: string, productId: string, version?: number): string => {
+  return version ? `deliveries/${orderId}/${productId}-v${version}.pdf` : `deliveries/${orderId}/${productId}.pdf`;
+};
+
+export const getStampText = (stamp: BuyerStamp): string => {
+  const text = `Licensed to ${stamp.name} (${stamp.email}) - Purchase ID ${stamp.purchaseId}. Not for redistribution.`;
+  // Standard fonts only cover WinAnsi, so drop anything outside printable ASCII
+  return text.replace(/[^\x20-\x7E]/g, '');
+};
+
+// Stamp the buyer's details in the footer of every page and encrypt the copy with their password
+export const createBuyerCopy = async (
+  source: Buffer,
+  stamp: BuyerStamp,
+  password: string,
+  sourcePassword?: string
+): Promise<Buffer> => {
+  const pdfDoc = await PDFDocument.load(source, { password: sourcePassword });
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const text = getStampText(stamp);
+
+  for (const page of pdfDoc.getPages()) {
+    const { width } = page.getSize();
+    let size = 7;
+    while (size > 4 && font.widthOfTextAtSize(text, size) > width - 40) {
+      size -= 0.5;
+    }
+    page.drawText(text, {
+      x: Math.max(20, (width - font.widthOfTextAtSize(text, size)) / 2),
+      y: 12,
+      size,
+      font,
+      color: rgb(0.45, 0.45, 0.45)
+    });
+  }
+
+  pdfDoc.setSubject(`Purchase ID ${stamp.purchaseId}`);
+  pdfDoc.setKeywords([stamp.purchaseId, stamp.email]);
+
+  pdfDoc.encrypt({
+    userPassword: password,
+    ownerPassword: crypto.randomBytes(24).toString('hex'),
+    permissions: {
+      printing: 'highResolution',
+      modifying: false,
+      copying: false,
+      annotating: false,
+      documentAssembly: false
+    }
+  });
+
+  return Buffer.from(await pdfDoc.save());
+};
+
+// Update the delivery fields of one deliverable, which lives on its order line or,
+// for bundles, inside the line's bundleItems. `onlyIf` further restricts the matched entry.
+const updateDeliverable = (
+  orderId: unknown,
+  deliverable: OrderDeliverable,
+  fields: Record<string, any>,
+  onlyIf: Record<string, any> = {}
+) => {
+  const inBundle = !!deliverable.bundleName;
+  const prefix = inBundle ? 'items.$[line].bundleItems.$[part]' : 'items.$[line]';
+  const $set = Object.fromEntries(Object.entries(fields).map(([key, value]) => [`${prefix}.${key}`, value]));
+  const condition = Object.fromEntries(Object.entries(onlyIf).map(([key, value]) => [`${inBundle ? 'part' : 'line'}.${key}`, value]));
+
+  return Order.updateOne(
+    { _id: orderId },
+    { $set },
+    {
+      arrayFilters: inBundle
+        ? [{ 'line.product': deliverable.line }, { 'part.product': deliverable.product, ...condition }]
+        : [{ 'line.product': deliverable.product, ...condition }]
+    }
+  );
+};
+
+const getBuyerStamp = (order: IOrder): BuyerStamp => {
+  const customer = order.user as any;
+  return {
+    name: customer?.name || order.guestName || 'Customer',
+    email: customer?.email || order.guestEmail || '',
+    purchaseId: order.purchaseId
+  };
+};
+
+// Give every PDF of the order its own password, once. The conditional update keeps
+// verify-payment and the webhook from handing the buyer two different passwords.
+const ensureDeliveryPasswords = async (order: IOrder) => {
+  for (const deliverable of getOrderDeliverables(order.items)) {
+    if (deliverable.deliveryPassword) continue;
+
+    await updateDeliverable(
+      order._id,
+      deliverable,
+      { deliveryPassword: generateDeliveryPassword(), deliveryStatus: 'pending' },
+      { deliveryPassword: { $exists: false } }
+    );
+  }
+};
+
+// Produce the buyer's watermarked, encrypted copy of every product in a completed order,
+// including each product inside a bundle.
+// Never throws; lines that fail are marked failed and retried on the next call.
+export const prepareOrderDeliveries = async (orderId: string): Promise<void> => {
+  try {
+    let order = await Order.findById(orderId);
+    if (!order || order.paymentStatus !== 'completed') {
+      console.log('Skipping delivery, order not completed:', { orderId, paymentStatus: order?.paymentStatus });
+      return;
+    }
+
+    await ensureDeliveryPasswords(order);
+    order = await Order.findById(orderId).populate('user', 'name email');
+    if (!order) return;
+
+    const stamp = getBuyerStamp(order);
+
+    for (const item of getOrderDeliverables(order.items)) {
+      if (item.deliveryStatus === 'ready' && item.deliveryKey) continue;
+
+      const productId = item.product.toString();
+      let status: 'ready' | 'failed' = 'failed';
+      let key: string | undefined;
+      let version: number | undefined;
+
+      try {
+        const product = await Product.findById(productId);
+        if (!product?.pdfUrl) {
+          throw new Error('Product PDF not found');
+        }
+
+        const source = await getFileBuffer(product.pdfUrl);
+        const copy = await createBuyerCopy(source, stamp, item.deliveryPassword!, product.pdfPassword);
+        key = await uploadFile(copy, getDeliveryKey(orderId, productId), 'application/pdf');
+        version = product.currentVersion;
+        status = 'ready';
+        console.log('📦 Buyer copy prepared:', { orderNumber: order.orderNumber, productId });
+      } catch (error) {
+        console.error('❌ Failed to prepare buyer copy:', { orderNumber: order.orderNumber, productId }, error);
+      }
+
+      await updateDeliverable(order._id, item, {
+        deliveryStatus: status,
+        ...(key ? { deliveryKey: key, deliveryVersion: version } : {})
+      });
+    }
+  } catch (error) {
+    console.error('❌ Failed to prepare deliveries for order:', orderId, error);
+  }
+};
+
+// The buyer's copy of one version of a product. The copy made at delivery is reused when it is
+// that version; other versions are stamped on first request with the same password.
+export const prepareVersionCopy = async (
+  order: IOrder,
+  deliverable: OrderDeliverable,
+  version: IProductVersion
+): Promise<string> => {
+  if (deliverable.deliveryKey && (deliverable.deliveryVersion ?? 1) === version.version) {
+    return deliverable.deliveryKey;
+  }
+
+  const orderId = String(order._id);
+  const productId = deliverable.product.toString();
+  const key = getDeliveryKey(orderId, productId, version.version);
+  if (await checkFileExists(key)) {
+    return key;
+  }
+
+  const buyer = await Order.findById(orderId).populate('user', 'name email');
+  const source = await getFileBuffer(version.fileKey);
+  const copy = await createBuyerCopy(source, getBuyerStamp(buyer || order), deliverable.deliveryPassword!, version.pdfPassword);
+  await uploadFile(copy, key, 'application/pdf');
+  console.log('📦 Buyer copy prepared:', { orderNumber: order.orderNumber, productId, version: version.version });
+
+  return key;
+};
+
+// Tokenised download links and passwords for every buyer copy that is ready
+export const getOrderDownloads = async (orderId: string): Promise<OrderDownload[]> => {
+  const order = await Order.findById(orderId);
+  if (!order) return [];
+
+  const downloads: OrderDownload[] = [];
+  for (const item of getOrderDeliverables(order.items)) {
+    if (item.deliveryStatus !== 'ready' || !item.deliveryKey || !item.deliveryPassword) continue;
+
+    const entitlement = await ensureEntitlement(orderId, item.product.toString());
+    downloads.push({
+      productId: item.product.toString(),
+      name: item.bundleName ? `${item.name} (${item.bundleName})` : item.name,
+      password: item.deliveryPassword,
+      downloadLink: getDownloadLink(entitlement)
+    });
+  }
+
+  return downloads;
+};
+
+// Prepare any missing buyer copies and email the confirmation with download links.
+// Used when an order is completed outside the checkout flow.
+export const sendOrderConfirmation = async (
+  orderId: string,
+  fallbackEmail?: string
+): Promise<{ emailSent: boolean; delivered: boolean }> => {
+  await prepareOrderDeliveries(orderId);
+
+  const order = await Order.findById(orderId).populate('user', 'name email');
+  if (!order) {
+    return { emailSent: false, delivered: false };
+  }
+
+  const customer = order.user as any;
+  const customerEmail = order.guestEmail || customer?.email || fallbackEmail;
+  if (!customerEmail) {
+    console.warn('No customer email for order confirmation:', { orderNumber: order.orderNumber });
+    return { emailSent: false, delivered: false };
+  }
+
+  const downloads = await getOrderDownloads(orderId);
+  await sendEmail({
+    to: customerEmail,
+    subject: `Order Confirmation - ${order.orderNumber}`,
+    html: getOrderConfirmationEmail(
+      order.guestName || customer?.name || 'Customer',
+      order.orderNumber,
+      order.purchaseId,
+      order.items.map(item => ({ name: item.name, price: item.price })),
+      order.totalAmount,
+      downloads
+    )
+  });
+
+  const delivered = downloads.length === getOrderDeliverables(order.items).length;
+  await Order.updateOne(
+    { _id: order._id },
+    {
+      $set: {
+        emailSent: true,
+        emailSentAt: new Date(),
+        ...(delivered && !order.pdfDelivered ? { pdfDelivered: true, pdfDeliveredAt: new Date() } : {})
+      }
+    }
+  );
+
+  return { emailSent: true, delivered };
+};
+
+// Finish an order whose delivery is incomplete. The confirmation email goes out once: when it
+// was already sent without every download, the buyer only hears again once all files are ready.
+export const retryOrderDelivery = async (
+  orderId: string,
+  fallbackEmail?: string
+): Promise<{ emailSent: boolean; delivered: boolean }> => {
+  const order = await Order.findById(orderId).select('emailSent');
+  if (!order?.emailSent) {
+    return sendOrderConfirmation(orderId, fallbackEmail);
+  }
+
+  await prepareOrderDeliveries(orderId);
+
+  const refreshed = await Order.findById(orderId).select('items');
+  const ready = !!refreshed && getOrderDeliverables(refreshed.items).every(item => item.deliveryStatus === 'ready');
+  if (!ready) {
+    return { emailSent: false, delivered: false };
+  }
+
+  return sendOrderConfirmation(orderId, fallbackEmail);
+};
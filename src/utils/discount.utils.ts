@@ -1,5 +1,7 @@
 import { User } from '../models/User.model';
-import { Order } from '../models/Order.model';
+import { Order, IOrder } from '../models/Order.model';
+import { ICoupon } from '../models/Coupon.model';
+import { CartLine, getCartSubtotal, resolveCoupon, recordCouponRedemption } from './coupon.utils';
 
 export const FIRST_TIME_DISCOUNT_PERCENTAGE = 10;
 
@@ -86,3 +88,116 @@ export const markFirstTimeDiscountUsed = async (userId: string) => {
     $inc: { totalOrders: 1 }
   });
 };
+
+export interface DiscountBreakdown {
+  subtotal: number;
+  couponDiscount: number;
+  firstTimeDiscount: number;
+  totalAmount: number;
+}
+
+// Apply the stacking policy: a stackable coupon is applied first and the first-time
+// discount is taken on the remainder; otherwise only the larger of the two is used
+export const combineDiscounts = (
+  subtotal: number,
+  couponDiscount: number,
+  couponStackable: boolean,
+  firstTimeEligible: boolean,
+  firstTimePercentage: number = FIRST_TIME_DISCOUNT_PERCENTAGE
+): DiscountBreakdown => {
+  const round = (amount: number) => Math.round(amount * 100) / 100;
+
+  let appliedCoupon = couponDiscount;
+  let appliedFirstTime = 0;
+
+  if (firstTimeEligible) {
+    if (couponDiscount > 0 && couponStackable) {
+      appliedFirstTime = calculateDiscount(subtotal - couponDiscount, firstTimePercentage);
+    } else {
+      const firstTimeAmount = calculateDiscount(subtotal, firstTimePercentage);
+      if (firstTimeAmount > couponDiscount) {
+        appliedFirstTime = firstTimeAmount;
+        appliedCoupon = 0;
+      }
+    }
+  }
+
+  appliedCoupon = round(appliedCoupon);
+  appliedFirstTime = round(appliedFirstTime);
+
+  return {
+    subtotal: round(subtotal),
+    couponDiscount: appliedCoupon,
+    firstTimeDiscount: appliedFirstTime,
+    totalAmount: round(Math.max(0, subtotal - appliedCoupon - appliedFirstTime))
+  };
+};
+
+export interface CartPricing extends DiscountBreakdown {
+  coupon?: ICoupon;
+  couponError?: string;
+  // Set when a valid coupon is dropped because the first-time discount gives a better price
+  couponNotice?: string;
+  firstTimeEligible: boolean;
+}
+
+// Price a cart server-side with an optional coupon code and the first-time discount
+export const priceCart = async (
+  lines: CartLine[],
+  couponCode?: string,
+  userId?: string,
+  guestEmail?: string
+): Promise<CartPricing> => {
+  const subtotal = getCartSubtotal(lines);
+
+  let coupon: ICoupon | undefined;
+  let couponError: string | undefined;
+  let couponNotice: string | undefined;
+  let couponDiscount = 0;
+
+  if (couponCode) {
+    const result = await resolveCoupon(couponCode, lines, userId, guestEmail);
+    if (result.coupon && result.evaluation.valid) {
+      coupon = result.coupon;
+      couponDiscount = result.evaluation.discountAmount;
+    } else {
+      couponError = result.evaluation.reason;
+    }
+  }
+
+  const firstTimeCheck = await checkFirstTimeDiscount(userId, guestEmail);
+  const breakdown = combineDiscounts(
+    subtotal,
+    couponDiscount,
+    !!coupon?.stackableWithFirstTimeDiscount,
+    firstTimeCheck.eligible
+  );
+
+  // The coupon is dropped when the first-time discount wins under the stacking policy;
+  // that is not a failure, the cart is simply priced with the better discount
+  if (coupon && breakdown.couponDiscount === 0) {
+    coupon = undefined;
+    couponNotice = 'Coupon cannot be combined with the first-time discount, which gives a better price';
+  }
+
+  return {
+    ...breakdown,
+    coupon,
+    couponError,
+    couponNotice,
+    firstTimeEligible: firstTimeCheck.eligible
+  };
+};
+
+// Record coupon and first-time discount usage once an order's payment is completed
+export const recordOrderDiscounts = async (order: IOrder) => {
+  await recordCouponRedemption(order);
+
+  if ((order.pricing?.firstTimeDiscount || 0) > 0 && order.user) {
+    try {
+      await User.findByIdAndUpdate(order.user, { hasUsedFirstTimeDiscount: true });
+    } catch (error) {
+      console.error('Failed to mark first-time discount as used:', error);
+    }
+  }
+};
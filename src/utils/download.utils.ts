@@ -0,0 +1,295 @@
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { DownloadEntitlement, IDownloadEntitlement } from '../models/DownloadEntitlement.model';
+import { DownloadEvent } from '../models/DownloadEvent.model';
+import { env, getBackendUrl } from '../config/environment.config';
+
+export interface DownloadClient {
+  ipAddress: string;
+  userAgent: string;
+  fingerprint: string;
+}
+
+export interface EntitlementState {
+  maxDownloads: number;
+  maxDevices: number;
+  maxIpAddresses: number;
+  downloadCount: number;
+  devices: string[];
+  ipAddresses: string[];
+  expiresAt: Date;
+  revokedAt?: Date;
+}
+
+export interface DownloadTokenPayload {
+  purpose: 'download';
+  entitlementId: string;
+  orderId: string;
+  productId: string;
+  version: number;
+}
+
+export interface RedeemResult {
+  allowed: boolean;
+  reason?: string;
+  entitlement: IDownloadEntitlement;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The client IP as seen by the proxies we trust (the app's 'trust proxy' setting).
+// X-Forwarded-For is never read directly: clients can put anything in it.
+export const getClientIp = (req: Request): string => {
+  return req.ip || req.socket?.remoteAddress || 'unknown';
+};
+
+// A coarse device fingerprint from request headers. Browsers on the same device produce the same value.
+export const getDownloadClient = (req: Request): DownloadClient => {
+  const userAgent = req.header('user-agent') || 'unknown';
+  const fingerprint = crypto
+    .createHash('sha256')
+    .update([userAgent, req.header('accept-language') || '', req.header('x-device-id') || ''].join('|'))
+    .digest('hex')
+    .substring(0, 32);
+
+  return { ipAddress: getClientIp(req), userAgent, fingerprint };
+};
+
+// Buyers downloading from their account or guest session own the purchase; the expiry only
+// limits how long emailed links keep working
+export const isOwnerDownload = (via: 'token' | 'account' | 'guest' | 'admin'): boolean => {
+  return via === 'account' || via === 'guest';
+};
+
+// Pure check of an entitlement's limits for one client
+export const evaluateEntitlement = (
+  entitlement: EntitlementState,
+  client: Pick<DownloadClient, 'ipAddress' | 'fingerprint'>,
+  now: Date = new Date(),
+  options: { ignoreExpiry?: boolean } = {}
+): { allowed: boolean; reason?: string } => {
+  if (entitlement.revokedAt) {
+    return { allowed: false, reason: 'Download access has been revoked' };
+  }
+
+  if (!options.ignoreExpiry && entitlement.expiresAt <= now) {
+    return { allowed: false, reason: 'Download link has expired' };
+  }
+
+  if (entitlement.downloadCount >= entitlement.maxDownloads) {
+    return { allowed: false, reason: 'Download limit reached' };
+  }
+
+  if (!entitlement.devices.includes(client.fingerprint) && entitlement.devices.length >= entitlement.maxDevices) {
+    return { allowed: false, reason: 'Download limit for devices reached' };
+  }
+
+  if (!entitlement.ipAddresses.includes(client.ipAddress) && entitlement.ipAddresses.length >= entitlement.maxIpAddresses) {
+    return { allowed: false, reason: 'Download limit for networks reached' };
+  }
+
+  return { allowed: true };
+};
+
+// Find or create the entitlement for one product of an order
+export const ensureEntitlement = async (orderId: string, productId: string): Promise<IDownloadEntitlement> => {
+  const existing = await DownloadEntitlement.findOne({ order: orderId, product: productId });
+  if (existing) {
+    return existing;
+  }
+
+  try {
+    return await DownloadEntitlement.create({
+      order: orderId,
+      product: productId,
+      maxDownloads: env.downloads.maxDownloads,
+      maxDevices: env.downloads.maxDevices,
+      maxIpAddresses: env.downloads.maxIpAddresses,
+      expiresAt: new Date(Date.now() + env.downloads.tokenTtlDays * DAY_MS)
+    });
+  } catch (error: any) {
+    // Created concurrently by another request
+    if (error?.code === 11000) {
+      return (await DownloadEntitlement.findOne({ order: orderId, product: productId }))!;
+    }
+    throw error;
+  }
+};
+
+export const signDownloadToken = (entitlement: IDownloadEntitlement): string => {
+  const payload: DownloadTokenPayload = {
+    purpose: 'download',
+    entitlementId: String(entitlement._id),
+    orderId: entitlement.order.toString(),
+    productId: entitlement.product.toString(),
+    version: entitlement.tokenVersion
+  };
+
+  const expiresIn = Math.max(1, Math.floor((entitlement.expiresAt.getTime() - Date.now()) / 1000));
+  return jwt.sign(payload, env.jwtSecret, { expiresIn });
+};
+
+export const verifyDownloadToken = (token: string): DownloadTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, env.jwtSecret) as any;
+    return decoded?.purpose === 'download' ? decoded as DownloadTokenPayload : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Load the entitlement a token was issued for, rejecting tokens from before a reset
+export const getEntitlementForToken = async (token: string): Promise<IDownloadEntitlement | null> => {
+  const payload = verifyDownloadToken(token);
+  if (!payload) {
+    return null;
+  }
+
+  const entitlement = await DownloadEntitlement.findById(payload.entitlementId);
+  if (!entitlement || entitlement.tokenVersion !== payload.version) {
+    return null;
+  }
+
+  return entitlement;
+};
+
+export const getDownloadLink = (entitlement: IDownloadEntitlement): string => {
+  return `${getBackendUrl()}/api/orders/download/${signDownloadToken(entitlement)}`;
+};
+
+// Count one download against an entitlement and record the attempt.
+// The conditional update enforces the limits atomically under concurrent downloads.
+export const redeemEntitlement = async (
+  entitlement: IDownloadEntitlement,
+  client: DownloadClient,
+  via: 'token' | 'account' | 'guest' | 'admin',
+  userId?: string
+): Promise<RedeemResult> => {
+  const now = new Date();
+  let result: RedeemResult;
+
+  if (via === 'admin') {
+    // Admin downloads are logged but never count against the buyer's limits
+    result = { allowed: true, entitlement };
+  } else {
+    const options = { ignoreExpiry: isOwnerDownload(via) };
+    const check = evaluateEntitlement(entitlement, client, now, options);
+    const updated = check.allowed
+      ? await DownloadEntitlement.findOneAndUpdate(
+          {
+            _id: entitlement._id,
+            tokenVersion: entitlement.tokenVersion,
+            revokedAt: null,
+            ...(options.ignoreExpiry ? {} : { expiresAt: { $gt: now } }),
+            $expr: { $lt: ['$downloadCount', '$maxDownloads'] },
+            $and: [
+              { $or: [{ devices: client.fingerprint }, { $expr: { $lt: [{ $size: '$devices' }, '$maxDevices'] } }] },
+              { $or: [{ ipAddresses: client.ipAddress }, { $expr: { $lt: [{ $size: '$ipAddresses' }, '$maxIpAddresses'] } }] }
+            ]
+          },
+          {
+            $inc: { downloadCount: 1 },
+            $addToSet: { devices: client.fingerprint, ipAddresses: client.ipAddress },
+            $set: { lastDownloadedAt: now }
+          },
+          { new: true }
+        )
+      : null;
+
+    if (updated) {
+      result = { allowed: true, entitlement: updated };
+    } else {
+      // Lost a race or failed the check; re-read so the reason reflects the current state
+      const current = (await DownloadEntitlement.findById(entitlement._id)) || entitlement;
+      const reason = check.allowed
+        ? evaluateEntitlement(current, client, now, options).reason || 'Download limit reached'
+        : check.reason;
+      result = { allowed: false, reason, entitlement: current };
+    }
+  }
+
+  try {
+    await DownloadEvent.create({
+      entitlement: entitlement._id,
+      order: entitlement.order,
+      product: entitlement.product,
+      user: userId && mongoose.isValidObjectId(userId) ? userId : undefined,
+      via,
+      outcome: result.allowed ? 'allowed' : 'denied',
+      reason: result.reason,
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+      fingerprint: client.fingerprint
+    });
+  } catch (error) {
+    console.error('Failed to record download event:', error);
+  }
+
+  console.log('Download attempt:', {
+    entitlementId: entitlement._id,
+    via,
+    allowed: result.allowed,
+    reason: result.reason,
+    downloadCount: result.entitlement.downloadCount
+  });
+
+  return result;
+};
+
+// Clear an entitlement's usage and issue a fresh token. Links issued before the reset stop working.
+export const resetEntitlement = async (
+  entitlementId: string,
+  overrides: { maxDownloads?: number; maxDevices?: number; maxIpAddresses?: number; expiresInDays?: number } = {}
+): Promise<IDownloadEntitlement | null> => {
+  return DownloadEntitlement.findByIdAndUpdate(
+    entitlementId,
+    {
+      $set: {
+        downloadCount: 0,
+        devices: [],
+        ipAddresses: [],
+        maxDownloads: overrides.maxDownloads ?? env.downloads.maxDownloads,
+        maxDevices: overrides.maxDevices ?? env.downloads.maxDevices,
+        maxIpAddresses: overrides.maxIpAddresses ?? env.downloads.maxIpAddresses,
+        expiresAt: new Date(Date.now() + (overrides.expiresInDays ?? env.downloads.tokenTtlDays) * DAY_MS)
+      },
+      $unset: { revokedAt: 1, revokedReason: 1, revokedBy: 1 },
+      $inc: { tokenVersion: 1 }
+    },
+    { new: true }
+  );
+};
+
+// The usage an entitlement starts over with when a new version is emailed: a full download
+// allowance and a link that lasts the usual time. Null for revoked entitlements.
+export const getRenewedUsage = (
+  entitlement: Pick<EntitlementState, 'expiresAt' | 'revokedAt'>,
+  now: Date = new Date()
+): { downloadCount: number; expiresAt: Date } | null => {
+  if (entitlement.revokedAt) {
+    return null;
+  }
+
+  const renewedUntil = new Date(now.getTime() + env.downloads.tokenTtlDays * DAY_MS);
+  return {
+    downloadCount: 0,
+    expiresAt: entitlement.expiresAt > renewedUntil ? entitlement.expiresAt : renewedUntil
+  };
+};
+
+// Give an entitlement a fresh download allowance and expiry so an emailed link works.
+// Devices and networks seen so far are kept; earlier links keep working too.
+export const renewEntitlement = async (entitlement: IDownloadEntitlement): Promise<IDownloadEntitlement | null> => {
+  const usage = getRenewedUsage(entitlement);
+  if (!usage) {
+    return null;
+  }
+
+  return DownloadEntitlement.findOneAndUpdate(
+    { _id: entitlement._id, revokedAt: null },
+    { $set: usage },
+    { new: true }
+  );
+};
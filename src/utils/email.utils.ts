@@ -83,13 +83,23 @@ export const getOrderConfirmationEmail = (
   purchaseId: string,
   products: Array<{ name: string; price: number }>,
   totalAmount: number,
-  pdfPassword: string,
-  downloadLink: string
+  downloads: Array<{ name: string; password: string; downloadLink: string }>
 ) => {
   const productsList = products
     .map(p => `<li>${p.name} - ₹${p.price.toLocaleString('en-IN')}</li>`)
     .join('');
 
+  // Each buyer gets a personal copy of every pack with its own password
+  const downloadsList = downloads
+    .map(d => `
+          <div class="password-box">
+            <h3 style="color: #ffffff;">${d.name}</h3>
+            <p style="color: #cccccc; margin: 15px 0 5px 0;"><strong>PDF Password:</strong></p>
+            <div class="access-token">${d.password}</div>
+            <a href="${d.downloadLink}" class="download-btn">Download Your Prompt Pack</a>
+          </div>`)
+    .join('');
+
   return `
     <!DOCTYPE html>
     <html>
@@ -128,19 +138,12 @@ export const getOrderConfirmationEmail = (
             <p style="font-size: 18px; color: #D4AF37;"><strong>Total Amount: ₹${totalAmount.toLocaleString('en-IN')}</strong></p>
           </div>
           
-          <div class="password-box">
-            <h3 style="color: #ffffff;">PDF Access Information</h3>
-            <p style="color: #cccccc;">Your prompt pack is ready for download:</p>
-            <p style="color: #cccccc; margin: 15px 0 5px 0;"><strong>PDF Password:</strong></p>
-            <div class="access-token">${pdfPassword}</div>
-            <p style="color: #cccccc; font-size: 12px; margin-top: 15px;">Use this password to open your downloaded PDF file</p>
-          </div>
-          
+          <h2 style="color: #D4AF37;">PDF Access Information</h2>
+          <p style="color: #cccccc;">Your prompt packs are ready for download. Each PDF is personalised for you and opens with its own password.</p>
+          ${downloadsList || '<p style="color: #cccccc;">Your personal copies are still being prepared. You can download them from your order page shortly.</p>'}
           <div style="text-align: center;">
-            <p style="color: #cccccc; margin-bottom: 15px;">Click the button below to download your prompt pack:</p>
-            <a href="${downloadLink}" class="download-btn">Download Your Prompt Pack</a>
-            <p style="font-size: 12px; color: #888; margin-top: 10px;">Direct download link - no login required</p>
-            <p style="font-size: 12px; color: #D4AF37; margin-top: 15px; font-weight: bold;">⚠️ This download link will expire in 15 days</p>
+            <p style="font-size: 12px; color: #888; margin-top: 10px;">Personal download links - please do not share them</p>
+            <p style="font-size: 12px; color: #D4AF37; margin-top: 15px; font-weight: bold;">⚠️ Each link works for ${env.downloads.maxDownloads} downloads and expires in ${env.downloads.tokenTtlDays} days</p>
           </div>
           
           <p style="margin-top: 30px;">If you have any questions or issues regarding your purchase, please contact our support team and provide your <strong>Purchase ID: ${purchaseId}</strong> for faster assistance.</p>
@@ -156,7 +159,7 @@ export const getOrderConfirmationEmail = (
   `;
 };
 
-export const getWelcomeEmail = (userName: string) => {
+export const getWelcomeEmail = (userName: string, verificationLink?: string) => {
   return `
     <!DOCTYPE html>
     <html>
@@ -185,9 +188,14 @@ export const getWelcomeEmail = (userName: string) => {
             <li>💾 Order history and easy re-downloads</li>
             <li>⭐ Ability to leave reviews and help others</li>
           </ul>
+          ${verificationLink ? `
+          <p>Please confirm your email address to start leaving reviews and contacting support.</p>
+          <div style="text-align: center;">
+            <a href="${verificationLink}" class="cta-btn">Verify Email</a>
+          </div>` : `
           <div style="text-align: center;">
             <a href="${env.frontendUrl}" class="cta-btn">Start Shopping</a>
-          </div>
+          </div>`}
           <p>Thank you for joining us!</p>
           <p>Best regards,<br>The Desi Prompts Team</p>
         </div>
@@ -199,3 +207,217 @@ export const getWelcomeEmail = (userName: string) => {
     </html>
   `;
 };
+
+export const getPasswordResetEmail = (userName: string, resetLink: string, expiresInMinutes: number) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Arial', sans-serif; background-color: #f5f5f5; margin: 0; padding: 0; }
+        .container { max-width: 600px; margin: 0 auto; background-color: #191A1D; color: #ffffff; }
+        .header { background: linear-gradient(135deg, #D4AF37 0%, #B8941F 100%); padding: 30px; text-align: center; }
+        .content { padding: 40px 30px; }
+        .cta-btn { display: inline-block; background-color: #D4AF37; color: #191A1D; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+        .footer { background-color: #18181B; padding: 20px; text-align: center; color: #888; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="color: #191A1D;">Reset Your Password</h1>
+        </div>
+        <div class="content">
+          <p>Dear ${userName},</p>
+          <p>We received a request to reset the password for your Desi Prompts account.</p>
+          <div style="text-align: center;">
+            <a href="${resetLink}" class="cta-btn">Choose a New Password</a>
+          </div>
+          <p style="font-size: 12px; color: #D4AF37; font-weight: bold;">⚠️ This link works once and expires in ${expiresInMinutes} minutes.</p>
+          <p style="color: #cccccc;">Resetting your password signs you out on every device.</p>
+          <p style="color: #cccccc;">If you did not request this, you can ignore this email. Your password will not change.</p>
+          <p>Best regards,<br>The Desi Prompts Team</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Desi Prompts. All rights reserved.</p>
+          <p>This is an automated email. Please do not reply to this message.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const getVerificationEmail = (userName: string, verificationLink: string) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Arial', sans-serif; background-color: #f5f5f5; margin: 0; padding: 0; }
+        .container { max-width: 600px; margin: 0 auto; background-color: #191A1D; color: #ffffff; }
+        .header { background: linear-gradient(135deg, #D4AF37 0%, #B8941F 100%); padding: 30px; text-align: center; }
+        .content { padding: 40px 30px; }
+        .cta-btn { display: inline-block; background-color: #D4AF37; color: #191A1D; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+        .footer { background-color: #18181B; padding: 20px; text-align: center; color: #888; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="color: #191A1D;">Verify Your Email</h1>
+        </div>
+        <div class="content">
+          <p>Dear ${userName},</p>
+          <p>Please confirm this is your email address to finish setting up your Desi Prompts account.</p>
+          <div style="text-align: center;">
+            <a href="${verificationLink}" class="cta-btn">Verify Email</a>
+          </div>
+          <p style="font-size: 12px; color: #D4AF37; font-weight: bold;">⚠️ This link expires in 24 hours.</p>
+          <p style="color: #cccccc;">If you did not create an account, you can ignore this email.</p>
+          <p>Best regards,<br>The Desi Prompts Team</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Desi Prompts. All rights reserved.</p>
+          <p>This is an automated email. Please do not reply to this message.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const getMagicLinkEmail = (loginLink: string, expiresInMinutes: number) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Arial', sans-serif; background-color: #f5f5f5; margin: 0; padding: 0; }
+        .container { max-width: 600px; margin: 0 auto; background-color: #191A1D; color: #ffffff; }
+        .header { background: linear-gradient(135deg, #D4AF37 0%, #B8941F 100%); padding: 30px; text-align: center; }
+        .content { padding: 40px 30px; }
+        .cta-btn { display: inline-block; background-color: #D4AF37; color: #191A1D; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+        .footer { background-color: #18181B; padding: 20px; text-align: center; color: #888; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="color: #191A1D;">Your Sign-In Link</h1>
+        </div>
+        <div class="content">
+          <p>Hello,</p>
+          <p>Use the button below to view your Desi Prompts orders, downloads and support tickets. No password needed.</p>
+          <div style="text-align: center;">
+            <a href="${loginLink}" class="cta-btn">View My Purchases</a>
+          </div>
+          <p style="font-size: 12px; color: #D4AF37; font-weight: bold;">⚠️ This link works once and expires in ${expiresInMinutes} minutes.</p>
+          <p style="color: #cccccc;">If you did not request this, you can ignore this email.</p>
+          <p>Best regards,<br>The Desi Prompts Team</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Desi Prompts. All rights reserved.</p>
+          <p>This is an automated email. Please do not reply to this message.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const getAccountLockedEmail = (userName: string, lockedUntil: Date, resetLink: string) => {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Arial', sans-serif; background-color: #f5f5f5; margin: 0; padding: 0; }
+        .container { max-width: 600px; margin: 0 auto; background-color: #191A1D; color: #ffffff; }
+        .header { background: linear-gradient(135deg, #D4AF37 0%, #B8941F 100%); padding: 30px; text-align: center; }
+        .content { padding: 40px 30px; }
+        .cta-btn { display: inline-block; background-color: #D4AF37; color: #191A1D; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+        .footer { background-color: #18181B; padding: 20px; text-align: center; color: #888; font-size: 12px; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="color: #191A1D;">Account Temporarily Locked</h1>
+        </div>
+        <div class="content">
+          <p>Dear ${userName},</p>
+          <p>We saw several failed attempts to sign in to your Desi Prompts account, so we have locked it until ${lockedUntil.toUTCString()}.</p>
+          <p style="color: #cccccc;">If this was you, wait for the lock to pass and try again. If it was not, we recommend choosing a new password.</p>
+          <div style="text-align: center;">
+            <a href="${resetLink}" class="cta-btn">Reset My Password</a>
+          </div>
+          <p>Best regards,<br>The Desi Prompts Team</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Desi Prompts. All rights reserved.</p>
+          <p>This is an automated email. Please do not reply to this message.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+export const getProductUpdateEmail = (
+  customerName: string,
+  productName: string,
+  version: number,
+  changelog: string,
+  downloadLink: string,
+  unsubscribeLink: string
+) => {
+  // The changelog is written by staff as plain text
+  const changes = changelog
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body { font-family: 'Arial', sans-serif; background-color: #f5f5f5; margin: 0; padding: 0; }
+        .container { max-width: 600px; margin: 0 auto; background-color: #191A1D; color: #ffffff; }
+        .header { background: linear-gradient(135deg, #D4AF37 0%, #B8941F 100%); padding: 30px; text-align: center; }
+        .content { padding: 40px 30px; }
+        .changelog-box { background-color: #1F2023; border: 1px solid #D4AF37; border-radius: 8px; padding: 20px; margin: 20px 0; color: #cccccc; }
+        .cta-btn { display: inline-block; background-color: #D4AF37; color: #191A1D; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; margin: 20px 0; }
+        .footer { background-color: #18181B; padding: 20px; text-align: center; color: #888; font-size: 12px; }
+        .footer a { color: #888; }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1 style="color: #191A1D;">${productName} Has Been Updated</h1>
+        </div>
+        <div class="content">
+          <p>Dear ${customerName},</p>
+          <p>Version ${version} of ${productName} is out, and it is included with your purchase.</p>
+          <div class="changelog-box">
+            <h3 style="color: #D4AF37; margin-top: 0;">What's new</h3>
+            <p>${changes}</p>
+          </div>
+          <div style="text-align: center;">
+            <a href="${downloadLink}" class="cta-btn">Download the New Version</a>
+          </div>
+          <p style="color: #cccccc;">Your personal copy opens with the same password as before. Earlier versions stay available from your order page.</p>
+          <p>Best regards,<br>The Desi Prompts Team</p>
+        </div>
+        <div class="footer">
+          <p>© 2024 Desi Prompts. All rights reserved.</p>
+          <p>You are receiving this because you asked to hear about updates to your purchases. <a href="${unsubscribeLink}">Stop these emails</a></p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+};
@@ -0,0 +1,360 @@
+import * as crypto from 'crypto';
+import { PDFDocument, StandardFonts, rgb } from '@cantoo/pdf-lib';
+import { Invoice, IInvoice, IInvoiceLine } from '../models/Invoice.model';
+import { Order, IOrder } from '../models/Order.model';
+import { uploadFile } from './storage.utils';
+import { toPaise, fromPaise } from './pricing.utils';
+import { env } from '../config/environment.config';
+
+export const GSTIN_REGEX = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string): boolean => GSTIN_REGEX.test(gstin.trim().toUpperCase());
+
+// The first two digits of a GSTIN are the state code
+export const getStateCodeFromGstin = (gstin?: string): string | undefined => {
+  return gstin && isValidGstin(gstin) ? gstin.trim().substring(0, 2) : undefined;
+};
+
+// Indian financial year (April to March) in IST, e.g. "2025-26"
+export const getFinancialYear = (date: Date = new Date()): string => {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// GST invoice numbers are limited to 16 characters, e.g. "DP/25-26/000042"
+export const formatInvoiceNumber = (prefix: string, financialYear: string, sequence: number): string => {
+  return `${prefix}/${financialYear.substring(2)}/${String(sequence).padStart(6, '0')}`;
+};
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const twoDigitsInWords = (n: number): string => {
+  if (n < 20) return ONES[n];
+  return `${TENS[Math.floor(n / 10)]}${n % 10 ? ' ' + ONES[n % 10] : ''}`;
+};
+
+const threeDigitsInWords = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const parts: string[] = [];
+  if (hundreds) parts.push(`${ONES[hundreds]} Hundred`);
+  if (rest) parts.push(twoDigitsInWords(rest));
+  return parts.join(' ');
+};
+
+// Convert a whole number to words using the Indian numbering system (thousand, lakh, crore)
+export const numberToIndianWords = (value: number): string => {
+  if (value === 0) return 'Zero';
+
+  const crore = Math.floor(value / 10000000);
+  const lakh = Math.floor((value % 10000000) / 100000);
+  const thousand = Math.floor((value % 100000) / 1000);
+  const rest = value % 1000;
+
+  const parts: string[] = [];
+  if (crore) parts.push(`${numberToIndianWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigitsInWords(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigitsInWords(thousand)} Thousand`);
+  if (rest) parts.push(threeDigitsInWords(rest));
+
+  return parts.join(' ');
+};
+
+export const amountInWords = (amount: number): string => {
+  const paise = toPaise(amount);
+  const rupees = Math.floor(paise / 100);
+  const remainder = paise % 100;
+
+  let words = `Rupees ${numberToIndianWords(rupees)}`;
+  if (remainder) {
+    words += ` and ${twoDigitsInWords(remainder)} Paise`;
+  }
+  return `${words} Only`;
+};
+
+// Split a tax-inclusive amount into taxable value and CGST/SGST or IGST
+export const splitInclusiveGst = (
+  inclusiveAmount: number,
+  gstRate: number,
+  intraState: boolean
+): { taxableValue: number; cgst: number; sgst: number; igst: number } => {
+  const totalPaise = toPaise(inclusiveAmount);
+  const taxablePaise = Math.round(totalPaise / (1 + gstRate / 100));
+  const taxPaise = totalPaise - taxablePaise;
+
+  if (!intraState) {
+    return { taxableValue: fromPaise(taxablePaise), cgst: 0, sgst: 0, igst: fromPaise(taxPaise) };
+  }
+
+  const cgstPaise = Math.round(taxPaise / 2);
+  return {
+    taxableValue: fromPaise(taxablePaise),
+    cgst: fromPaise(cgstPaise),
+    sgst: fromPaise(taxPaise - cgstPaise),
+    igst: 0
+  };
+};
+
+// Build GST lines for an order. Prices are GST-inclusive. Without a known buyer state
+// the place of supply is the seller's state, so the invoice is intra-state.
+export const buildInvoiceLines = (
+  order: IOrder,
+  gstRate: number,
+  intraState: boolean,
+  sacCode: string
+): IInvoiceLine[] => {
+  return order.items.map(item => {
+    const lineTotal = item.lineTotal ?? item.price * item.quantity;
+    return {
+      description: item.name,
+      hsnSac: sacCode,
+      quantity: item.quantity,
+      ...splitInclusiveGst(lineTotal, gstRate, intraState),
+      total: lineTotal
+    };
+  });
+};
+
+const formatMoney = (amount: number): string => `Rs. ${amount.toFixed(2)}`;
+
+// Render a tax invoice PDF
+export const renderInvoicePdf = async (invoice: IInvoice): Promise<Buffer> => {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([595, 842]); // A4
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const dark = rgb(0.1, 0.1, 0.12);
+  const muted = rgb(0.4, 0.4, 0.4);
+
+  let y = 800;
+  const text = (value: string, x: number, size = 10, useBold = false, color = dark) => {
+    // Standard fonts only cover WinAnsi, so drop anything outside printable ASCII
+    page.drawText(value.replace(/[^\x20-\x7E]/g, ''), { x, y, size, font: useBold ? bold : font, color });
+  };
+
+  text('TAX INVOICE', 40, 20, true);
+  y -= 30;
+  text(invoice.seller.name, 40, 12, true);
+  text(`Invoice No: ${invoice.invoiceNumber}`, 350, 10, true);
+  y -= 15;
+  if (invoice.seller.address) text(invoice.seller.address.substring(0, 60), 40, 9, false, muted);
+  text(`Date: ${invoice.issuedAt.toLocaleDateString('en-IN')}`, 350);
+  y -= 15;
+  text(`GSTIN: ${invoice.seller.gstin || 'N/A'}`, 40, 9);
+  text(`Supply: ${invoice.supplyType}`, 350);
+
+  y -= 35;
+  text('Bill To', 40, 11, true);
+  y -= 15;
+  text(invoice.buyer.name, 40);
+  y -= 13;
+  if (invoice.buyer.email) {
+    text(invoice.buyer.email, 40, 9, false, muted);
+    y -= 13;
+  }
+  if (invoice.buyer.address) {
+    text(invoice.buyer.address.substring(0, 80), 40, 9, false, muted);
+    y -= 13;
+  }
+  if (invoice.buyer.gstin) {
+    text(`GSTIN: ${invoice.buyer.gstin}`, 40, 9);
+    y -= 13;
+  }
+
+  // Line items table
+  const columns = [
+    { label: 'Description', x: 40 },
+    { label: 'SAC', x: 210 },
+    { label: 'Qty', x: 255 },
+    { label: 'Taxable', x: 285 },
+    { label: 'CGST', x: 350 },
+    { label: 'SGST', x: 405 },
+    { label: 'IGST', x: 460 },
+    { label: 'Total', x: 515 }
+  ];
+
+  y -= 25;
+  columns.forEach(column => text(column.label, column.x, 9, true));
+  y -= 6;
+  page.drawLine({ start: { x: 40, y }, end: { x: 555, y }, thickness: 0.5, color: muted });
+
+  for (const line of invoice.lines) {
+    y -= 16;
+    const values = [
+      line.description.length > 30 ? `${line.description.substring(0, 29)}.` : line.description,
+      line.hsnSac,
+      String(line.quantity),
+      line.taxableValue.toFixed(2),
+      line.cgst.toFixed(2),
+      line.sgst.toFixed(2),
+      line.igst.toFixed(2),
+      line.total.toFixed(2)
+    ];
+    values.forEach((value, index) => text(value, columns[index].x, 9));
+  }
+
+  y -= 8;
+  page.drawLine({ start: { x: 40, y }, end: { x: 555, y }, thickness: 0.5, color: muted });
+
+  const halfRate = invoice.gstRate / 2;
+  const summary: Array<[string, number]> = [
+    ['Taxable Value', invoice.totals.taxableValue],
+    ...(invoice.supplyType === 'intra-state'
+      ? [[`CGST @ ${halfRate}%`, invoice.totals.cgst], [`SGST @ ${halfRate}%`, invoice.totals.sgst]] as Array<[string, number]>
+      : [[`IGST @ ${invoice.gstRate}%`, invoice.totals.igst]] as Array<[string, number]>),
+    ['Total', invoice.totals.total]
+  ];
+
+  for (const [label, amount] of summary) {
+    y -= 16;
+    const isTotal = label === 'Total';
+    text(label, 350, 10, isTotal);
+    text(formatMoney(amount), 460, 10, isTotal);
+  }
+
+  y -= 30;
+  text('Amount in words:', 40, 9, true);
+  y -= 13;
+  text(invoice.amountInWords, 40, 9);
+
+  y -= 40;
+  text('This is a computer generated invoice and does not require a signature.', 40, 8, false, muted);
+
+  return Buffer.from(await pdfDoc.save());
+};
+
+const MAX_NUMBERING_ATTEMPTS = 5;
+
+// Give a claimed invoice the next number in its financial year's sequence: the year's
+// highest plus one, set by an update that only matches while the invoice has no number.
+// Two invoices racing for the same number collide on the unique invoiceNumber index and
+// the loser takes the next one. A number only exists once an invoice holds it, so the
+// sequence has no gaps.
+const assignInvoiceNumber = async (invoice: IInvoice): Promise<void> => {
+  let attempts = 0;
+
+  while (!invoice.invoiceNumber) {
+    const latest = await Invoice.findOne({ financialYear: invoice.financialYear, sequence: { $exists: true } })
+      .sort({ sequence: -1 })
+      .select('sequence');
+    const sequence = (latest?.sequence || 0) + 1;
+
+    let numbered: IInvoice | null;
+    try {
+      numbered = await Invoice.findOneAndUpdate(
+        { _id: invoice._id, invoiceNumber: { $exists: false } },
+        { $set: { sequence, invoiceNumber: formatInvoiceNumber(env.invoice.prefix, invoice.financialYear, sequence) } },
+        { new: true }
+      );
+    } catch (error: any) {
+      if (error?.code === 11000 && ++attempts < MAX_NUMBERING_ATTEMPTS) {
+        continue;
+      }
+      throw error;
+    }
+
+    // No match means a concurrent completion numbered this invoice first
+    const current = numbered || await Invoice.findById(invoice._id).select('sequence invoiceNumber');
+    if (!current?.invoiceNumber) {
+      throw new Error('Invoice could not be numbered');
+    }
+    invoice.sequence = current.sequence;
+    invoice.invoiceNumber = current.invoiceNumber;
+  }
+};
+
+// Issue (or finish issuing) the tax invoice for a completed order. Never throws.
+// The invoice record is claimed per order before it is numbered, so concurrent
+// completions (verify-payment and the webhook) cannot burn invoice numbers.
+export const issueInvoiceForOrder = async (orderId: string): Promise<IInvoice | null> => {
+  try {
+    const order = await Order.findById(orderId).populate('user', 'name email');
+    if (!order || order.paymentStatus !== 'completed') {
+      console.log('Skipping invoice, order not completed:', { orderId, paymentStatus: order?.paymentStatus });
+      return null;
+    }
+
+    let invoice: IInvoice | null = await Invoice.findOne({ order: order._id });
+    if (invoice?.status === 'generated') {
+      return invoice;
+    }
+
+    if (!invoice) {
+      const buyerGstin = order.billingDetails?.gstin;
+      const buyerStateCode = order.billingDetails?.stateCode || getStateCodeFromGstin(buyerGstin);
+      const intraState = !buyerStateCode || !env.invoice.sellerStateCode || buyerStateCode === env.invoice.sellerStateCode;
+      const lines = buildInvoiceLines(order, env.invoice.gstRate, intraState, env.invoice.sacCode);
+      const sum = (field: keyof Omit<IInvoiceLine, 'description' | 'hsnSac'>) =>
+        fromPaise(lines.reduce((total, line) => total + toPaise(line[field]), 0));
+      const total = sum('total');
+      const customer = order.user as any;
+
+      try {
+        invoice = await Invoice.create({
+          order: order._id,
+          financialYear: getFinancialYear(),
+          issuedAt: new Date(),
+          seller: {
+            name: env.invoice.sellerName,
+            gstin: env.invoice.sellerGstin || undefined,
+            address: env.invoice.sellerAddress || undefined,
+            stateCode: env.invoice.sellerStateCode || undefined
+          },
+          buyer: {
+            name: order.billingDetails?.businessName || customer?.name || order.guestName || 'Customer',
+            email: customer?.email || order.guestEmail,
+            gstin: buyerGstin,
+            address: order.billingDetails?.address,
+            stateCode: buyerStateCode
+          },
+          supplyType: intraState ? 'intra-state' : 'inter-state',
+          gstRate: env.invoice.gstRate,
+          lines,
+          totals: {
+            taxableValue: sum('taxableValue'),
+            cgst: sum('cgst'),
+            sgst: sum('sgst'),
+            igst: sum('igst'),
+            total
+          },
+          amountInWords: amountInWords(total),
+          status: 'pending'
+        });
+      } catch (error: any) {
+        // Another request claimed this order's invoice first
+        if (error?.code === 11000) {
+          return Invoice.findOne({ order: order._id });
+        }
+        throw error;
+      }
+    }
+
+    await assignInvoiceNumber(invoice);
+
+    try {
+      const pdf = await renderInvoicePdf(invoice);
+      // Invoice numbers are sequential, so the key must not be derived from them
+      const key = invoice.pdfKey || `invoices/${invoice.financialYear}/${crypto.randomBytes(16).toString('hex')}.pdf`;
+      invoice.pdfKey = await uploadFile(pdf, key, 'application/pdf');
+      invoice.status = 'generated';
+      invoice.errorMessage = undefined;
+      console.log('🧾 Tax invoice generated:', { invoiceNumber: invoice.invoiceNumber, orderNumber: order.orderNumber });
+    } catch (error) {
+      // The number stays with this invoice; the PDF is retried on the next request
+      console.error('❌ Failed to generate invoice PDF:', error);
+      invoice.status = 'failed';
+      invoice.errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    await invoice.save();
+    return invoice;
+  } catch (error) {
+    console.error('❌ Failed to issue invoice for order:', orderId, error);
+    return null;
+  }
+};
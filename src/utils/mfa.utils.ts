@@ -0,0 +1,136 @@
+import * as jwt from 'jsonwebtoken';
+import { User, IUser } from '../models/User.model';
+import { env } from '../config/environment.config';
+import { hashAuthToken } from './auth.utils';
+import {
+  generateTotpSecret,
+  getOtpauthUri,
+  verifyTotpCode,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+  encryptTotpSecret,
+  decryptTotpSecret
+} from './totp.utils';
+
+export interface MfaChallengePayload {
+  purpose: 'mfa';
+  userId: string;
+  tokenVersion: number;
+}
+
+const MFA_CHALLENGE_TTL = '5m';
+
+export const isTwoFactorEnabled = (user: IUser): boolean => !!user.twoFactor?.enabled && !!user.twoFactor?.secret;
+
+// Short-lived token proving the password step passed; exchanged for a session with a 2FA code
+export const signMfaChallenge = (user: IUser): string => {
+  const payload: MfaChallengePayload = {
+    purpose: 'mfa',
+    userId: String(user._id),
+    tokenVersion: user.tokenVersion || 0
+  };
+  return jwt.sign(payload, env.jwtSecret, { expiresIn: MFA_CHALLENGE_TTL });
+};
+
+export const verifyMfaChallenge = (token: string): MfaChallengePayload | null => {
+  try {
+    const decoded = jwt.verify(token, env.jwtSecret) as any;
+    return decoded?.purpose === 'mfa' ? decoded as MfaChallengePayload : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Check a TOTP or recovery code. Both are single-use: a TOTP code's time step is recorded
+// and a recovery code's hash is removed, each with a conditional update.
+export const verifyTwoFactorCode = async (
+  user: IUser,
+  code: string
+): Promise<{ valid: boolean; method?: 'totp' | 'recovery_code'; recoveryCodesRemaining?: number }> => {
+  if (!isTwoFactorEnabled(user)) {
+    return { valid: false };
+  }
+
+  const step = verifyTotpCode(decryptTotpSecret(user.twoFactor!.secret!), code);
+  if (step !== null) {
+    const updated = await User.findOneAndUpdate(
+      {
+        _id: user._id,
+        $or: [{ 'twoFactor.lastUsedStep': { $lt: step } }, { 'twoFactor.lastUsedStep': { $exists: false } }]
+      },
+      { $set: { 'twoFactor.lastUsedStep': step } }
+    );
+    return updated ? { valid: true, method: 'totp' } : { valid: false };
+  }
+
+  const codeHash = hashAuthToken(normalizeRecoveryCode(code));
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id, 'twoFactor.recoveryCodeHashes': codeHash },
+    { $pull: { 'twoFactor.recoveryCodeHashes': codeHash } },
+    { new: true }
+  );
+  if (updated) {
+    const remaining = updated.twoFactor?.recoveryCodeHashes.length || 0;
+    console.warn('Recovery code used for sign-in:', { userId: user._id, remaining });
+    return { valid: true, method: 'recovery_code', recoveryCodesRemaining: remaining };
+  }
+
+  return { valid: false };
+};
+
+// Start enrolment with a new secret. It only takes effect once a code from it is confirmed.
+export const startTwoFactorSetup = async (user: IUser): Promise<{ secret: string; otpauthUri: string }> => {
+  const secret = generateTotpSecret();
+  await User.updateOne({ _id: user._id }, { $set: { 'twoFactor.pendingSecret': encryptTotpSecret(secret) } });
+  return { secret, otpauthUri: getOtpauthUri(secret, user.email) };
+};
+
+// Confirm enrolment with a code from the pending secret. Returns the recovery codes, shown once.
+export const confirmTwoFactorSetup = async (user: IUser, code: string): Promise<string[] | null> => {
+  const fresh = await User.findById(user._id);
+  const pendingSecret = fresh?.twoFactor?.pendingSecret;
+  if (!pendingSecret) {
+    return null;
+  }
+
+  const step = verifyTotpCode(decryptTotpSecret(pendingSecret), code);
+  if (step === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne(
+    { _id: user._id, 'twoFactor.pendingSecret': pendingSecret },
+    {
+      $set: {
+        'twoFactor.enabled': true,
+        'twoFactor.secret': pendingSecret,
+        'twoFactor.recoveryCodeHashes': recoveryCodes.map(recoveryCode => hashAuthToken(recoveryCode)),
+        'twoFactor.lastUsedStep': step,
+        'twoFactor.enabledAt': new Date()
+      },
+      $unset: { 'twoFactor.pendingSecret': 1 }
+    }
+  );
+
+  return recoveryCodes;
+};
+
+export const regenerateRecoveryCodes = async (user: IUser): Promise<string[]> => {
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { 'twoFactor.recoveryCodeHashes': recoveryCodes.map(recoveryCode => hashAuthToken(recoveryCode)) } }
+  );
+  return recoveryCodes;
+};
+
+export const disableTwoFactor = async (user: IUser): Promise<void> => {
+  await User.updateOne(
+    { _id: user._id },
+    {
+      $set: { 'twoFactor.enabled': false, 'twoFactor.recoveryCodeHashes': [] },
+      $unset: { 'twoFactor.secret': 1, 'twoFactor.pendingSecret': 1, 'twoFactor.lastUsedStep': 1, 'twoFactor.enabledAt': 1 }
+    }
+  );
+};
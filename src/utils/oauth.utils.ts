@@ -0,0 +1,87 @@
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { IUser } from '../models/User.model';
+import { env } from '../config/environment.config';
+
+export interface GoogleLinkPayload {
+  purpose: 'google_link';
+  userId: string;
+  tokenVersion: number;
+}
+
+export interface GoogleOAuthState {
+  purpose: 'google_state';
+  nonce: string;
+  linkToken?: string;
+}
+
+const GOOGLE_LINK_TTL = '10m';
+
+export const GOOGLE_STATE_COOKIE = 'google_oauth_state';
+export const GOOGLE_STATE_COOKIE_MAX_AGE_MS = 10 * 60 * 1000;
+
+// Short-lived token proving the user re-entered their credentials. It travels through
+// Google as the OAuth state, so the callback knows which account to link.
+export const signGoogleLinkToken = (user: IUser): string => {
+  const payload: GoogleLinkPayload = {
+    purpose: 'google_link',
+    userId: String(user._id),
+    tokenVersion: user.tokenVersion || 0
+  };
+  return jwt.sign(payload, env.jwtSecret, { expiresIn: GOOGLE_LINK_TTL });
+};
+
+export const verifyGoogleLinkToken = (token?: unknown): GoogleLinkPayload | null => {
+  if (typeof token !== 'string' || !token) return null;
+  try {
+    const decoded = jwt.verify(token, env.jwtSecret) as any;
+    return decoded?.purpose === 'google_link' ? decoded as GoogleLinkPayload : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const signStateNonce = (nonce: string): string => {
+  return crypto.createHmac('sha256', env.jwtSecret).update(`google_state:${nonce}`).digest('hex');
+};
+
+// Start a Google sign-in. The nonce goes both into the OAuth state and into a signed cookie
+// on the browser that started the flow, so a callback URL replayed in another browser is refused.
+export const createGoogleOAuthState = (linkToken?: string): { state: string; cookie: string } => {
+  const nonce = crypto.randomBytes(16).toString('hex');
+  const payload: GoogleOAuthState = { purpose: 'google_state', nonce, linkToken };
+  return {
+    state: jwt.sign(payload, env.jwtSecret, { expiresIn: GOOGLE_LINK_TTL }),
+    cookie: `${nonce}.${signStateNonce(nonce)}`
+  };
+};
+
+// The OAuth state, if it was issued to the browser that came back with it
+export const verifyGoogleOAuthState = (state: unknown, cookie?: string): GoogleOAuthState | null => {
+  if (typeof state !== 'string' || !state || !cookie) return null;
+
+  const [nonce, signature] = cookie.split('.');
+  const expected = nonce ? signStateNonce(nonce) : '';
+  if (!signature || signature.length !== expected.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+
+  try {
+    const decoded = jwt.verify(state, env.jwtSecret) as any;
+    return decoded?.purpose === 'google_state' && decoded.nonce === nonce ? decoded as GoogleOAuthState : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Read one cookie from a Cookie request header
+export const getCookie = (header: string | undefined, name: string): string | undefined => {
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0 && part.slice(0, index).trim() === name) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return undefined;
+};
@@ -17,6 +17,14 @@ if (env.razorpay?.keyId && env.razorpay?.keySecret) {
   console.warn('Razorpay keys not configured. Payment functionality will be disabled.');
 }
 
+// Orders still waiting on their payment. Only these may move to completed; a refunded
+// order stays refunded whatever payment proof turns up for it later.
+export const PAYABLE_ORDER_STATUSES = ['pending', 'processing', 'failed'];
+
+export const canCompletePayment = (paymentStatus: string): boolean => {
+  return PAYABLE_ORDER_STATUSES.includes(paymentStatus);
+};
+
 export const createRazorpayOrder = async (
   amount: number,
   currency: string = 'INR',
@@ -201,4 +209,43 @@ export const fetchPaymentDetails = async (paymentId: string) => {
     console.error('Error fetching payment details:', error);
     throw new Error('Failed to fetch payment details');
   }
-};
\ No newline at end of file
+};
+
+export const fetchOrderPayments = async (razorpayOrderId: string) => {
+  if (!razorpay) {
+    throw new Error('Razorpay not configured. Please set RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET');
+  }
+
+  try {
+    // @ts-ignore
+    const payments = await razorpay.orders.fetchPayments(razorpayOrderId);
+    return payments;
+  } catch (error) {
+    console.error('Error fetching order payments:', error);
+    throw new Error('Failed to fetch order payments');
+  }
+};
+
+export const createRazorpayRefund = async (
+  paymentId: string,
+  amountPaise: number,
+  options: { receipt?: string; notes?: Record<string, string> } = {}
+) => {
+  if (!razorpay) {
+    throw new Error('Razorpay not configured. Please set RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET');
+  }
+
+  try {
+    // @ts-ignore
+    const refund = await razorpay.payments.refund(paymentId, {
+      amount: amountPaise,
+      speed: 'normal',
+      receipt: options.receipt,
+      notes: options.notes
+    });
+    return refund;
+  } catch (error: any) {
+    console.error('Razorpay refund creation error:', error);
+    throw new Error(error?.error?.description || 'Failed to create refund');
+  }
+};
@@ -0,0 +1,158 @@
+import { PriceSchedule } from '../models/PriceSchedule.model';
+
+// The schedule fields price resolution needs. Lean documents from PriceSchedule.find() fit this shape.
+export interface PriceRule {
+  _id: any;
+  name: string;
+  discountType: 'percentage' | 'flat' | 'fixed';
+  discountValue: number;
+  products: any[];
+  categories: string[];
+  startsAt: Date;
+  endsAt?: Date | null;
+  isActive: boolean;
+}
+
+export interface PricedProduct {
+  _id: any;
+  category: string;
+  price: number;
+  originalPrice?: number;
+}
+
+export interface ActiveSale {
+  scheduleId: string;
+  name: string;
+  endsAt?: Date | null;
+}
+
+export interface ResolvedPrice {
+  price: number;
+  originalPrice?: number;
+  sale?: ActiveSale;
+}
+
+export const isScheduleLive = (schedule: PriceRule, now: Date = new Date()): boolean =>
+  schedule.isActive && schedule.startsAt <= now && (!schedule.endsAt || schedule.endsAt > now);
+
+// Same targeting as coupons: listed products or categories, or the whole catalog when neither is set
+export const scheduleAppliesTo = (schedule: PriceRule, product: PricedProduct): boolean => {
+  const products = (schedule.products || []).map(String);
+  const categories = schedule.categories || [];
+  if (products.length === 0 && categories.length === 0) return true;
+  return products.includes(String(product._id)) || categories.includes(product.category);
+};
+
+// Scheduled prices are rounded to whole rupees and never go below zero
+export const getScheduledPrice = (basePrice: number, schedule: Pick<PriceRule, 'discountType' | 'discountValue'>): number => {
+  let price: number;
+  if (schedule.discountType === 'percentage') {
+    price = basePrice * (1 - Math.min(schedule.discountValue, 100) / 100);
+  } else if (schedule.discountType === 'flat') {
+    price = basePrice - schedule.discountValue;
+  } else {
+    price = schedule.discountValue;
+  }
+  return Math.max(0, Math.round(price));
+};
+
+// The price a product sells for right now. When schedules overlap the buyer gets the lowest price.
+// A sale below the regular price shows the regular price (or the higher originalPrice) struck through.
+export const resolveProductPrice = (
+  product: PricedProduct,
+  schedules: PriceRule[],
+  now: Date = new Date()
+): ResolvedPrice => {
+  let best: { price: number; schedule: PriceRule } | null = null;
+
+  for (const schedule of schedules) {
+    if (!isScheduleLive(schedule, now) || !scheduleAppliesTo(schedule, product)) continue;
+
+    const price = getScheduledPrice(product.price, schedule);
+    if (!best || price < best.price) {
+      best = { price, schedule };
+    }
+  }
+
+  if (!best) {
+    return { price: product.price, originalPrice: product.originalPrice };
+  }
+
+  const regular = Math.max(product.price, product.originalPrice || 0);
+  return {
+    price: best.price,
+    originalPrice: best.price < regular ? regular : product.originalPrice,
+    sale: { scheduleId: String(best.schedule._id), name: best.schedule.name, endsAt: best.schedule.endsAt }
+  };
+};
+
+// Products with their current price, strikethrough price and any running sale filled in
+export const applyPriceSchedules = <T extends PricedProduct>(
+  products: T[],
+  schedules: PriceRule[],
+  now: Date = new Date()
+): (T & { sale?: ActiveSale })[] => {
+  return products.map(product => ({ ...product, ...resolveProductPrice(product, schedules, now) }));
+};
+
+export interface SchedulePreviewRow {
+  productId: string;
+  name: string;
+  category: string;
+  regularPrice: number;
+  scheduledPrice: number;
+  effectivePrice: number; // What buyers pay once the schedule runs, after overlapping schedules
+  originalPrice?: number;
+  overriddenBy?: string; // Name of an overlapping schedule that gives a lower price
+}
+
+// Products a schedule would change and the prices buyers would see when it runs
+export const previewSchedule = (
+  schedule: PriceRule,
+  products: (PricedProduct & { name: string })[],
+  otherSchedules: PriceRule[],
+  now: Date = new Date()
+): SchedulePreviewRow[] => {
+  const at = schedule.startsAt > now ? schedule.startsAt : now;
+  const others = otherSchedules.filter(other => String(other._id) !== String(schedule._id));
+
+  return products
+    .filter(product => scheduleAppliesTo(schedule, product))
+    .map(product => {
+      const resolved = resolveProductPrice(product, [{ ...schedule, isActive: true }, ...others], at);
+      return {
+        productId: String(product._id),
+        name: product.name,
+        category: product.category,
+        regularPrice: product.price,
+        scheduledPrice: getScheduledPrice(product.price, schedule),
+        effectivePrice: resolved.price,
+        originalPrice: resolved.originalPrice,
+        overriddenBy: resolved.sale && resolved.sale.scheduleId !== String(schedule._id) ? resolved.sale.name : undefined
+      };
+    });
+};
+
+const SCHEDULES_TTL_MS = 60 * 1000;
+let cachedSchedules: { schedules: PriceRule[]; loadedAt: number } | null = null;
+
+// Schedules that are running or still to come. Listings use a short cache;
+// checkout passes fresh so buyers are always charged the current price.
+export const getPriceSchedules = async (fresh: boolean = false): Promise<PriceRule[]> => {
+  if (!fresh && cachedSchedules && Date.now() - cachedSchedules.loadedAt < SCHEDULES_TTL_MS) {
+    return cachedSchedules.schedules;
+  }
+
+  const schedules = await PriceSchedule.find({
+    isActive: true,
+    $or: [{ endsAt: null }, { endsAt: { $gt: new Date() } }]
+  }).lean();
+
+  cachedSchedules = { schedules: schedules as PriceRule[], loadedAt: Date.now() };
+  return cachedSchedules.schedules;
+};
+
+// Call after creating, editing or ending a schedule
+export const invalidatePriceSchedules = (): void => {
+  cachedSchedules = null;
+};
@@ -0,0 +1,94 @@
+import { IOrder, IOrderPricing } from '../models/Order.model';
+import { CartLine } from './coupon.utils';
+import { DiscountBreakdown } from './discount.utils';
+
+export interface LinePricing {
+  productId: string;
+  price: number;
+  listPrice: number;
+  quantity: number;
+  couponDiscount: number;
+  firstTimeDiscount: number;
+  lineTotal: number;
+}
+
+export const toPaise = (amount: number): number => Math.round(amount * 100);
+
+export const fromPaise = (paise: number): number => paise / 100;
+
+// Split an amount (in paise) across lines proportionally to their weights using the
+// largest-remainder method, so the shares always add up to the exact amount
+export const allocatePaise = (amountPaise: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (amountPaise <= 0 || totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exactShares = weights.map(weight => (amountPaise * weight) / totalWeight);
+  const shares = exactShares.map(share => Math.floor(share));
+  let remainder = amountPaise - shares.reduce((sum, share) => sum + share, 0);
+
+  const byFraction = exactShares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction);
+
+  for (const { index } of byFraction) {
+    if (remainder <= 0) break;
+    shares[index] += 1;
+    remainder -= 1;
+  }
+
+  return shares;
+};
+
+// Build per-line and order-level pricing from a discount breakdown.
+// The coupon is spread over the lines it applies to, the first-time discount over what is left.
+export const buildOrderPricing = (
+  lines: CartLine[],
+  breakdown: DiscountBreakdown,
+  couponLineProductIds: string[] = []
+): { lines: LinePricing[]; pricing: IOrderPricing } => {
+  const lineSubtotalsPaise = lines.map(line => toPaise(line.price * line.quantity));
+
+  const couponWeights = lines.map((line, index) =>
+    couponLineProductIds.includes(line.productId) ? lineSubtotalsPaise[index] : 0
+  );
+  const couponShares = allocatePaise(toPaise(breakdown.couponDiscount), couponWeights);
+
+  const afterCouponPaise = lineSubtotalsPaise.map((subtotal, index) => subtotal - couponShares[index]);
+  const firstTimeShares = allocatePaise(toPaise(breakdown.firstTimeDiscount), afterCouponPaise);
+
+  const pricedLines: LinePricing[] = lines.map((line, index) => ({
+    productId: line.productId,
+    price: line.price,
+    listPrice: Math.max(line.listPrice ?? line.price, line.price),
+    quantity: line.quantity,
+    couponDiscount: fromPaise(couponShares[index]),
+    firstTimeDiscount: fromPaise(firstTimeShares[index]),
+    lineTotal: fromPaise(afterCouponPaise[index] - firstTimeShares[index])
+  }));
+
+  const listTotalPaise = pricedLines.reduce((sum, line) => sum + toPaise(line.listPrice * line.quantity), 0);
+  const subtotalPaise = lineSubtotalsPaise.reduce((sum, subtotal) => sum + subtotal, 0);
+  const totalPayablePaise = pricedLines.reduce((sum, line) => sum + toPaise(line.lineTotal), 0);
+
+  return {
+    lines: pricedLines,
+    pricing: {
+      currency: 'INR',
+      listTotal: fromPaise(listTotalPaise),
+      subtotal: fromPaise(subtotalPaise),
+      saleDiscount: fromPaise(listTotalPaise - subtotalPaise),
+      couponDiscount: breakdown.couponDiscount,
+      firstTimeDiscount: breakdown.firstTimeDiscount,
+      totalPayable: fromPaise(totalPayablePaise),
+      totalPayablePaise
+    }
+  };
+};
+
+// Amount we expect Razorpay to capture for an order, in paise.
+// Orders created before the pricing breakdown existed fall back to totalAmount.
+export const getExpectedAmountPaise = (order: IOrder): number => {
+  return order.pricing?.totalPayablePaise ?? toPaise(order.totalAmount);
+};
@@ -0,0 +1,247 @@
+import { IOrder, Order } from '../models/Order.model';
+import { Product } from '../models/Product.model';
+import { ProductStats } from '../models/ProductStats.model';
+
+export interface ProductSalesLine {
+  product: string;
+  units: number;
+  revenue: number;
+}
+
+export interface ProductStatsTotals {
+  realOrders: number;
+  realUnits: number;
+  realRevenue: number;
+  fakeOrders: number;
+  fakeUnits: number;
+  fakeRevenue: number;
+  refundedOrders: number;
+  refundedUnits: number;
+  refundedRevenue: number;
+  bundledUnits: number;
+  lastSoldAt?: Date;
+}
+
+type OrderLike = Pick<IOrder, 'items' | 'isFakeOrder' | 'createdAt'> & {
+  refunds?: { products?: unknown[]; status?: string }[];
+  salesReversedProducts?: unknown[];
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Units and amount charged per product in an order, optionally only for some products.
+// Uses the discounted line total when the order has one.
+export const summarizeOrderLines = (items: IOrder['items'], productIds?: string[]): ProductSalesLine[] => {
+  const lines = new Map<string, ProductSalesLine>();
+
+  for (const item of items) {
+    const product = String(item.product);
+    if (productIds && !productIds.includes(product)) continue;
+
+    const line = lines.get(product) || { product, units: 0, revenue: 0 };
+    line.units += item.quantity || 1;
+    line.revenue = round2(line.revenue + (item.lineTotal ?? item.price * (item.quantity || 1)));
+    lines.set(product, line);
+  }
+
+  return Array.from(lines.values());
+};
+
+// Units of each product delivered inside the order's bundle lines, optionally only for some bundles
+export const summarizeBundledUnits = (items: IOrder['items'], bundleIds?: string[]): { product: string; units: number }[] => {
+  const units = new Map<string, number>();
+
+  for (const item of items) {
+    if (!item.bundleItems?.length) continue;
+    if (bundleIds && !bundleIds.includes(String(item.product))) continue;
+
+    for (const component of item.bundleItems) {
+      const product = String(component.product);
+      units.set(product, (units.get(product) || 0) + (item.quantity || 1));
+    }
+  }
+
+  return Array.from(units, ([product, count]) => ({ product, units: count }));
+};
+
+// Products whose sales a processed refund has taken back
+export const getRefundedProducts = (order: OrderLike): string[] => {
+  const products = new Set((order.salesReversedProducts || []).map(String));
+  for (const refund of order.refunds || []) {
+    if (refund.status !== 'processed') continue;
+    for (const product of refund.products || []) products.add(String(product));
+  }
+  return Array.from(products);
+};
+
+export const emptyProductStats = (): ProductStatsTotals => ({
+  realOrders: 0,
+  realUnits: 0,
+  realRevenue: 0,
+  fakeOrders: 0,
+  fakeUnits: 0,
+  fakeRevenue: 0,
+  refundedOrders: 0,
+  refundedUnits: 0,
+  refundedRevenue: 0,
+  bundledUnits: 0
+});
+
+// Add one paid order to per-product totals, as the live updates below would have
+export const addOrderToStats = (totals: Map<string, ProductStatsTotals>, order: OrderLike): void => {
+  const refunded = new Set(getRefundedProducts(order));
+
+  for (const line of summarizeOrderLines(order.items)) {
+    const stats = totals.get(line.product) || emptyProductStats();
+
+    if (order.isFakeOrder) {
+      stats.fakeOrders++;
+      stats.fakeUnits += line.units;
+      stats.fakeRevenue = round2(stats.fakeRevenue + line.revenue);
+    } else if (refunded.has(line.product)) {
+      stats.refundedOrders++;
+      stats.refundedUnits += line.units;
+      stats.refundedRevenue = round2(stats.refundedRevenue + line.revenue);
+    } else {
+      stats.realOrders++;
+      stats.realUnits += line.units;
+      stats.realRevenue = round2(stats.realRevenue + line.revenue);
+    }
+
+    if (!order.isFakeOrder && (!stats.lastSoldAt || order.createdAt > stats.lastSoldAt)) {
+      stats.lastSoldAt = order.createdAt;
+    }
+
+    totals.set(line.product, stats);
+  }
+
+  if (order.isFakeOrder) return;
+
+  const keptBundles = order.items.map(item => String(item.product)).filter(product => !refunded.has(product));
+  for (const { product, units } of summarizeBundledUnits(order.items, keptBundles)) {
+    const stats = totals.get(product) || emptyProductStats();
+    stats.bundledUnits += units;
+    totals.set(product, stats);
+  }
+};
+
+// Count a completed order in product stats and the product sales counters. Runs once per
+// order however many times payment confirmation arrives; returns false if already counted.
+export const recordOrderSales = async (order: IOrder): Promise<boolean> => {
+  const claimed = await Order.findOneAndUpdate(
+    { _id: order._id, paymentStatus: 'completed', salesRecordedAt: null },
+    { $set: { salesRecordedAt: new Date() } }
+  );
+  if (!claimed) {
+    return false;
+  }
+
+  const lines = summarizeOrderLines(order.items);
+  const kind = order.isFakeOrder ? 'fake' : 'real';
+
+  await ProductStats.bulkWrite(lines.map(line => ({
+    updateOne: {
+      filter: { product: line.product },
+      update: {
+        $inc: { [`${kind}Orders`]: 1, [`${kind}Units`]: line.units, [`${kind}Revenue`]: line.revenue },
+        ...(order.isFakeOrder ? {} : { $max: { lastSoldAt: new Date() } })
+      },
+      upsert: true
+    }
+  })));
+
+  // Products inside a real bundle sale are tracked separately so the bundle keeps the sale and revenue
+  const bundled = order.isFakeOrder ? [] : summarizeBundledUnits(order.items);
+  if (bundled.length > 0) {
+    await ProductStats.bulkWrite(bundled.map(({ product, units }) => ({
+      updateOne: {
+        filter: { product },
+        update: { $inc: { bundledUnits: units } },
+        upsert: true
+      }
+    })));
+  }
+
+  // salesCount is shown on the storefront and includes fake sales; realSalesCount does not
+  await Product.bulkWrite(lines.map(line => ({
+    updateOne: {
+      filter: { _id: line.product },
+      update: { $inc: { salesCount: line.units, ...(order.isFakeOrder ? {} : { realSalesCount: line.units }) } }
+    }
+  })));
+
+  return true;
+};
+
+// Move refunded products' sales out of the real totals. Each product is reversed at most once per order.
+export const reverseOrderSales = async (order: IOrder, productIds: string[]): Promise<void> => {
+  for (const line of summarizeOrderLines(order.items, productIds)) {
+    const claimed = await Order.updateOne(
+      { _id: order._id, salesReversedProducts: { $ne: line.product } },
+      { $addToSet: { salesReversedProducts: line.product } }
+    );
+    if (claimed.modifiedCount !== 1) continue;
+
+    await ProductStats.updateOne(
+      { product: line.product },
+      {
+        $inc: {
+          realOrders: -1,
+          realUnits: -line.units,
+          realRevenue: -line.revenue,
+          refundedOrders: 1,
+          refundedUnits: line.units,
+          refundedRevenue: line.revenue
+        }
+      },
+      { upsert: true }
+    );
+
+    await Product.updateOne(
+      { _id: line.product },
+      { $inc: { salesCount: -line.units, realSalesCount: -line.units } }
+    );
+
+    for (const { product, units } of summarizeBundledUnits(order.items, [line.product])) {
+      await ProductStats.updateOne({ product }, { $inc: { bundledUnits: -units } }, { upsert: true });
+    }
+  }
+};
+
+// Real units sold per product, for listings
+export const getRealPurchaseCounts = async (productIds: unknown[]): Promise<Map<string, number>> => {
+  const stats = await ProductStats.find({ product: { $in: productIds } }).select('product realUnits');
+  return new Map(stats.map(entry => [String(entry.product), entry.realUnits]));
+};
+
+// Recount every product's stats from orders and mark the orders as counted.
+// For the first deploy of product stats, and to repair drift.
+export const rebuildProductStats = async (): Promise<{ orders: number; products: number }> => {
+  const totals = new Map<string, ProductStatsTotals>();
+  let orders = 0;
+
+  const cursor = Order.find({ paymentStatus: { $in: ['completed', 'refunded'] } })
+    .select('items isFakeOrder createdAt refunds salesReversedProducts')
+    .cursor();
+
+  for await (const order of cursor) {
+    addOrderToStats(totals, order);
+    await Order.updateOne(
+      { _id: order._id },
+      { $set: { salesRecordedAt: order.salesRecordedAt || order.createdAt, salesReversedProducts: getRefundedProducts(order) } }
+    );
+    orders++;
+  }
+
+  const products = await Product.find().select('_id');
+  for (const product of products) {
+    const stats = totals.get(String(product._id)) || emptyProductStats();
+    await ProductStats.updateOne({ product: product._id }, { $set: stats }, { upsert: true });
+    await Product.updateOne(
+      { _id: product._id },
+      { $set: { salesCount: stats.realUnits + stats.fakeUnits, realSalesCount: stats.realUnits } }
+    );
+  }
+
+  return { orders, products: products.length };
+};
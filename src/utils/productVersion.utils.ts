@@ -0,0 +1,235 @@
+import * as jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { Order, IOrder } from '../models/Order.model';
+import { Product, IProduct } from '../models/Product.model';
+import { User } from '../models/User.model';
+import { ProductVersion, IProductVersion } from '../models/ProductVersion.model';
+import { DownloadEntitlement } from '../models/DownloadEntitlement.model';
+import { env } from '../config/environment.config';
+import { getOrderDeliverables } from './bundle.utils';
+import { getRefundedProducts } from './productStats.utils';
+import { ensureEntitlement, renewEntitlement, getDownloadLink } from './download.utils';
+import { sendEmail, getProductUpdateEmail } from './email.utils';
+
+export interface VersionInfo {
+  version: number;
+  releasedAt: Date;
+}
+
+export interface UpdateRecipient {
+  email: string;
+  name: string;
+  orderId: string;
+}
+
+type RecipientOrder = Pick<IOrder, 'items' | 'guestEmail' | 'guestName' | 'isFakeOrder' | 'createdAt'> & {
+  _id: unknown;
+  user?: unknown;
+  refunds?: { products?: unknown[]; status?: string }[];
+  salesReversedProducts?: unknown[];
+};
+
+// A buyer gets the version that was current when they bought and every version released since
+export const getEntitledVersions = <T extends VersionInfo>(versions: T[], purchasedAt: Date): T[] => {
+  const sorted = [...versions].sort((a, b) => a.version - b.version);
+  const atPurchase = sorted.filter(version => version.releasedAt <= purchasedAt).pop();
+  return atPurchase ? sorted.filter(version => version.version >= atPurchase.version) : sorted;
+};
+
+// The version a download should be made from: the one asked for, or the latest.
+// Products without a version history only have their original file, version 1.
+export const resolveDownloadVersion = <T extends VersionInfo>(
+  versions: T[],
+  purchasedAt: Date,
+  requested?: number
+): { version: T | null; error?: string } => {
+  if (versions.length === 0) {
+    return requested && requested !== 1
+      ? { version: null, error: 'That version is not available for this purchase' }
+      : { version: null };
+  }
+
+  const entitled = getEntitledVersions(versions, purchasedAt);
+  const version = requested ? entitled.find(entry => entry.version === requested) : entitled[entitled.length - 1];
+  return version ? { version } : { version: null, error: 'That version is not available for this purchase' };
+};
+
+// One email per buyer who opted in and still owns the product, on its own or inside a bundle
+export const collectUpdateRecipients = (orders: RecipientOrder[], productId: string): UpdateRecipient[] => {
+  const recipients = new Map<string, UpdateRecipient>();
+
+  for (const order of orders) {
+    if (order.isFakeOrder) continue;
+
+    const customer = order.user as { email?: string; name?: string } | undefined;
+    const email = (order.guestEmail || customer?.email || '').toLowerCase();
+    if (!email || recipients.has(email)) continue;
+
+    const refunded = getRefundedProducts(order);
+    const owned = getOrderDeliverables(order.items).some(deliverable =>
+      deliverable.product.toString() === productId && !refunded.includes(deliverable.line.toString())
+    );
+    if (!owned) continue;
+
+    recipients.set(email, { email, name: order.guestName || customer?.name || 'Customer', orderId: String(order._id) });
+  }
+
+  return Array.from(recipients.values());
+};
+
+export const signUpdateEmailsToken = (email: string): string => {
+  return jwt.sign({ purpose: 'update-emails', email: email.toLowerCase() }, env.jwtSecret);
+};
+
+export const verifyUpdateEmailsToken = (token: string): string | null => {
+  try {
+    const decoded = jwt.verify(token, env.jwtSecret) as any;
+    return decoded?.purpose === 'update-emails' && typeof decoded.email === 'string' ? decoded.email : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Record a new file for a product and make it the current one. The first release also
+// records the file the product had until now as version 1, so it stays downloadable.
+export const releaseProductVersion = async (
+  previous: IProduct,
+  file: { pdfUrl: string; pdfPassword?: string },
+  changelog: string,
+  releasedBy?: string
+): Promise<IProductVersion> => {
+  const latest = await ProductVersion.findOne({ product: previous._id }).sort({ version: -1 });
+
+  if (!latest && previous.pdfUrl) {
+    await ProductVersion.updateOne(
+      { product: previous._id, version: 1 },
+      {
+        $setOnInsert: {
+          changelog: 'Original release',
+          fileKey: previous.pdfUrl,
+          pdfPassword: previous.pdfPassword,
+          releasedAt: previous.createdAt
+        }
+      },
+      { upsert: true }
+    );
+  }
+
+  const version = await ProductVersion.create({
+    product: previous._id,
+    version: (latest?.version || 1) + 1,
+    changelog,
+    fileKey: file.pdfUrl,
+    pdfPassword: file.pdfPassword ?? previous.pdfPassword,
+    releasedBy: releasedBy && mongoose.isValidObjectId(releasedBy) ? releasedBy : undefined
+  });
+
+  await Product.updateOne(
+    { _id: previous._id },
+    { $set: { pdfUrl: version.fileKey, pdfPassword: version.pdfPassword, currentVersion: version.version } }
+  );
+
+  console.log('📄 Product version released:', { productId: previous._id, version: version.version });
+  return version;
+};
+
+// Email every opted-in buyer of the product about a version. Claims the version first so
+// the campaign runs once however many times it is requested; returns false if it already ran.
+export const notifyPastBuyers = async (version: IProductVersion, requestedBy?: string): Promise<boolean> => {
+  const claimed = await ProductVersion.findOneAndUpdate(
+    { _id: version._id, 'notification.status': { $exists: false } },
+    {
+      $set: {
+        notification: {
+          status: 'sending',
+          requestedBy: requestedBy && mongoose.isValidObjectId(requestedBy) ? requestedBy : undefined,
+          requestedAt: new Date(),
+          recipients: 0,
+          sent: 0,
+          failed: 0
+        }
+      }
+    }
+  );
+  if (!claimed) {
+    return false;
+  }
+
+  sendVersionEmails(version).catch(error => {
+    console.error('❌ Failed to send product update emails:', { versionId: version._id }, error);
+  });
+
+  return true;
+};
+
+const sendVersionEmails = async (version: IProductVersion): Promise<void> => {
+  const product = await Product.findById(version.product).select('name');
+  const productId = String(version.product);
+
+  const orders = await Order.find({
+    paymentStatus: 'completed',
+    isFakeOrder: { $ne: true },
+    notifyOfUpdates: true,
+    $or: [{ 'items.product': version.product }, { 'items.bundleItems.product': version.product }]
+  })
+    .select('items user guestEmail guestName isFakeOrder createdAt refunds salesReversedProducts')
+    .populate('user', 'name email')
+    .sort({ createdAt: -1 });
+
+  const recipients = collectUpdateRecipients(orders, productId);
+  let sent = 0;
+  let failed = 0;
+
+  for (const recipient of recipients) {
+    try {
+      const existing = await DownloadEntitlement.findOne({ order: recipient.orderId, product: productId });
+      if (existing?.revokedAt) continue;
+
+      // Buyers from long ago have used up or outlived their downloads; the link in this email must work
+      const entitlement = existing ? await renewEntitlement(existing) : await ensureEntitlement(recipient.orderId, productId);
+      if (!entitlement) continue;
+
+      await sendEmail({
+        to: recipient.email,
+        subject: `${product?.name || 'Your prompt pack'} has been updated`,
+        html: getProductUpdateEmail(
+          recipient.name,
+          product?.name || 'Your prompt pack',
+          version.version,
+          version.changelog,
+          getDownloadLink(entitlement),
+          `${env.frontendUrl}/unsubscribe-updates?token=${signUpdateEmailsToken(recipient.email)}`
+        )
+      });
+      sent++;
+    } catch (error) {
+      failed++;
+      console.error('Failed to send product update email:', { email: recipient.email, versionId: version._id }, error);
+    }
+  }
+
+  await ProductVersion.updateOne(
+    { _id: version._id },
+    {
+      $set: {
+        'notification.status': 'sent',
+        'notification.completedAt': new Date(),
+        'notification.recipients': sent + failed,
+        'notification.sent': sent,
+        'notification.failed': failed
+      }
+    }
+  );
+
+  console.log('📧 Product update emails sent:', { productId, version: version.version, sent, failed });
+};
+
+// Stop update emails for every order placed with this email address
+export const optOutOfUpdateEmails = async (email: string): Promise<number> => {
+  const users = await User.find({ email: email.toLowerCase() }).select('_id');
+  const result = await Order.updateMany(
+    { $or: [{ guestEmail: email.toLowerCase() }, { user: { $in: users.map(user => user._id) } }], notifyOfUpdates: true },
+    { $set: { notifyOfUpdates: false } }
+  );
+  return result.modifiedCount;
+};
@@ -0,0 +1,183 @@
+import { User, IUser } from '../models/User.model';
+import { env } from '../config/environment.config';
+import { sendEmail, getAccountLockedEmail } from './email.utils';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: number; // Epoch ms when the window ends
+}
+
+// Counter storage for rate limits. Shaped after Redis (INCR + PEXPIRE, GET + PTTL, DEL)
+// so a shared store can replace the in-memory one when running several instances.
+export interface RateLimitStore {
+  // Add one hit to the key, starting a new window of windowMs if none is open
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  get(key: string): Promise<RateLimitHit | null>;
+  reset(key: string): Promise<void>;
+}
+
+export const createMemoryRateLimitStore = (now: () => number = Date.now): RateLimitStore & { size(): number; prune(): void } => {
+  const entries = new Map<string, RateLimitHit>();
+
+  const read = (key: string): RateLimitHit | null => {
+    const entry = entries.get(key);
+    if (!entry) return null;
+    if (entry.resetAt <= now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  return {
+    async increment(key, windowMs) {
+      const entry = read(key) || { count: 0, resetAt: now() + windowMs };
+      entry.count++;
+      entries.set(key, entry);
+      return { ...entry };
+    },
+    async get(key) {
+      const entry = read(key);
+      return entry ? { ...entry } : null;
+    },
+    async reset(key) {
+      entries.delete(key);
+    },
+    size: () => entries.size,
+    prune() {
+      for (const key of entries.keys()) read(key);
+    }
+  };
+};
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+export const getRateLimitStore = (): RateLimitStore => store;
+
+// Swap the storage, e.g. for a Redis-backed store
+export const setRateLimitStore = (next: RateLimitStore): void => {
+  store = next;
+};
+
+// Drop expired in-memory entries now and then so the map does not grow forever
+setInterval(() => {
+  const current = store as any;
+  if (typeof current.prune === 'function') current.prune();
+}, 10 * 60 * 1000).unref();
+
+const MINUTE_MS = 60 * 1000;
+
+export const LOGIN_FAILURE_WINDOW_MS = 60 * MINUTE_MS;
+export const LOGIN_DELAY_AFTER_FAILURES = 3;
+export const LOGIN_MAX_DELAY_MS = 30 * 1000;
+export const IP_LOGIN_FAILURE_LIMIT = 30; // Failed sign-ins from one IP per window, across all accounts
+
+// Wait required before the next sign-in attempt after this many consecutive failures:
+// none for the first few, then 1s, 2s, 4s... up to LOGIN_MAX_DELAY_MS
+export const getProgressiveDelayMs = (failures: number): number => {
+  if (failures < LOGIN_DELAY_AFTER_FAILURES) return 0;
+  return Math.min(1000 * 2 ** (failures - LOGIN_DELAY_AFTER_FAILURES), LOGIN_MAX_DELAY_MS);
+};
+
+const accountKey = (email: string) => `login:account:${email.toLowerCase().trim()}`;
+const delayKey = (email: string) => `login:delay:${email.toLowerCase().trim()}`;
+const ipKey = (ip: string) => `login:ip:${ip}`;
+
+export interface LoginThrottle {
+  allowed: boolean;
+  retryAfterSeconds?: number;
+  reason?: 'ip' | 'delay' | 'locked';
+}
+
+const retryAfter = (resetAt: number) => Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+
+export const isAccountLocked = (user: Pick<IUser, 'lockedUntil'> | null | undefined, now: Date = new Date()): boolean =>
+  !!user?.lockedUntil && user.lockedUntil.getTime() > now.getTime();
+
+// Whether a sign-in attempt for this email from this IP may go ahead. Keyed by email rather
+// than user so unknown emails are throttled the same way and do not reveal themselves.
+export const checkLoginThrottle = async (email: string, ip: string, user?: IUser | null): Promise<LoginThrottle> => {
+  const ipHits = await store.get(ipKey(ip));
+  if (ipHits && ipHits.count >= IP_LOGIN_FAILURE_LIMIT) {
+    return { allowed: false, retryAfterSeconds: retryAfter(ipHits.resetAt), reason: 'ip' };
+  }
+
+  if (user && isAccountLocked(user)) {
+    return { allowed: false, retryAfterSeconds: retryAfter(user.lockedUntil!.getTime()), reason: 'locked' };
+  }
+
+  const delay = await store.get(delayKey(email));
+  if (delay) {
+    return { allowed: false, retryAfterSeconds: retryAfter(delay.resetAt), reason: 'delay' };
+  }
+
+  return { allowed: true };
+};
+
+// Record a wrong password or code. Sets the next progressive delay and locks the account
+// once it reaches the lockout threshold; `locked` is true when this failure locked it.
+export const recordLoginFailure = async (email: string, ip: string, user?: IUser | null): Promise<{ locked: boolean; failures: number }> => {
+  await store.increment(ipKey(ip), LOGIN_FAILURE_WINDOW_MS);
+  const { count: failures } = await store.increment(accountKey(email), LOGIN_FAILURE_WINDOW_MS);
+
+  const delayMs = getProgressiveDelayMs(failures);
+  if (delayMs > 0) {
+    await store.reset(delayKey(email));
+    await store.increment(delayKey(email), delayMs);
+  }
+
+  if (user && failures >= env.accountLockout.maxFailures) {
+    await lockAccount(user, ip);
+    await store.reset(accountKey(email));
+    await store.reset(delayKey(email));
+    return { locked: true, failures };
+  }
+
+  return { locked: false, failures };
+};
+
+// Call once sign-in has fully completed, after the 2FA code when the account has one
+export const recordLoginSuccess = async (email: string): Promise<void> => {
+  await store.reset(accountKey(email));
+  await store.reset(delayKey(email));
+};
+
+// A correct password only ends the failure streak when it completes the sign-in. With 2FA
+// the streak carries on into the code step, so entering the password again cannot wipe
+// out wrong codes and buy more guesses.
+export const recordPasswordSuccess = async (email: string, twoFactorPending: boolean): Promise<void> => {
+  if (!twoFactorPending) {
+    await recordLoginSuccess(email);
+  }
+};
+
+// Lock the account for a while and tell the owner by email
+export const lockAccount = async (user: IUser, ip: string): Promise<void> => {
+  const lockedUntil = new Date(Date.now() + env.accountLockout.durationMinutes * MINUTE_MS);
+  await User.updateOne(
+    { _id: user._id },
+    { $set: { lockedUntil, lastLockedAt: new Date(), lastLockedIp: ip }, $inc: { lockoutCount: 1 } }
+  );
+
+  console.warn('🔒 Account locked after repeated failed sign-ins:', { userId: user._id, ip, lockedUntil });
+
+  sendEmail({
+    to: user.email,
+    subject: 'Your Desi Prompts account has been temporarily locked',
+    html: getAccountLockedEmail(user.name, lockedUntil, `${env.frontendUrl}/forgot-password`)
+  }).catch(error => {
+    console.error('Account locked email failed:', error);
+  });
+};
+
+export const unlockAccount = async (userId: unknown): Promise<IUser | null> => {
+  const user = await User.findOneAndUpdate(
+    { _id: userId, lockedUntil: { $ne: null } },
+    { $unset: { lockedUntil: 1 } },
+    { new: true }
+  );
+  if (user) {
+    await recordLoginSuccess(user.email);
+  }
+  return user;
+};
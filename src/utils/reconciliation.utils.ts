@@ -0,0 +1,325 @@
+import mongoose from 'mongoose';
+import { Order, IOrder } from '../models/Order.model';
+import { ReconciliationRun, IReconciliationRun, IReconciliationDiscrepancy, DiscrepancyType } from '../models/ReconciliationRun.model';
+import { env } from '../config/environment.config';
+import { fetchPaymentDetails, fetchOrderPayments } from './payment.utils';
+import { getExpectedAmountPaise } from './pricing.utils';
+import { dispatchRazorpayEvent } from './webhook.utils';
+import { retryOrderDelivery } from './delivery.utils';
+
+// The Razorpay calls reconciliation needs, so tests can swap in a mock
+export interface RazorpayPaymentsClient {
+  fetchPayment(paymentId: string): Promise<any>;
+  fetchOrderPayments(razorpayOrderId: string): Promise<any[]>;
+}
+
+export interface OrderInspection {
+  type: DiscrepancyType;
+  payment?: any;
+  expectedAmountPaise: number;
+  detail: string;
+}
+
+// Reconciliation runs that may retry an order's incomplete delivery before leaving it to a person
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+export const razorpayPaymentsClient: RazorpayPaymentsClient = {
+  fetchPayment: fetchPaymentDetails,
+  fetchOrderPayments: async (razorpayOrderId: string) => {
+    const response = await fetchOrderPayments(razorpayOrderId);
+    return response?.items || [];
+  }
+};
+
+const PAGE_SIZE = 50;
+const RUN_TIMEOUT_MS = 60 * 60 * 1000;
+
+const isCaptured = (payment: any) => payment?.captured === true || payment?.status === 'captured';
+
+// Offline payments (and legacy manual completions) have no Razorpay record to compare against
+const isOfflinePayment = (order: IOrder) =>
+  !!order.offlinePayment || (!!order.razorpayPaymentId && !order.razorpayPaymentId.startsWith('pay_'));
+
+// Compare one order with its payments at Razorpay. Returns null when they agree.
+export const inspectOrder = async (
+  order: IOrder,
+  client: RazorpayPaymentsClient
+): Promise<OrderInspection | null> => {
+  const expectedAmountPaise = getExpectedAmountPaise(order);
+
+  if (isOfflinePayment(order)) {
+    return null;
+  }
+
+  let payments: any[];
+  try {
+    payments = await client.fetchOrderPayments(order.razorpayOrderId!);
+    if (order.razorpayPaymentId && !payments.some(payment => payment.id === order.razorpayPaymentId)) {
+      payments = [...payments, await client.fetchPayment(order.razorpayPaymentId)];
+    }
+  } catch (error) {
+    return {
+      type: 'fetch_error',
+      expectedAmountPaise,
+      detail: error instanceof Error ? error.message : 'Failed to fetch payments'
+    };
+  }
+
+  const captured = payments.find(isCaptured);
+
+  if (order.paymentStatus === 'completed') {
+    if (!captured) {
+      return { type: 'completed_without_capture', expectedAmountPaise, detail: 'No captured payment at Razorpay' };
+    }
+    if (order.razorpayPaymentId !== captured.id) {
+      return {
+        type: 'payment_id_mismatch',
+        payment: captured,
+        expectedAmountPaise,
+        detail: `Order records ${order.razorpayPaymentId || 'no payment'}, Razorpay captured ${captured.id}`
+      };
+    }
+    if (!order.emailSent || !order.pdfDelivered) {
+      return {
+        type: 'undelivered',
+        payment: captured,
+        expectedAmountPaise,
+        detail: !order.emailSent ? 'Confirmation email was never sent' : 'Buyer copies were never delivered'
+      };
+    }
+    return null;
+  }
+
+  if (captured) {
+    // Already held for review by the webhook or verify-payment
+    if (order.paymentReview?.status === 'flagged' && order.razorpayPaymentId === captured.id) {
+      return null;
+    }
+
+    if (Number(captured.amount) !== expectedAmountPaise) {
+      return {
+        type: 'amount_mismatch',
+        payment: captured,
+        expectedAmountPaise,
+        detail: `Expected ${expectedAmountPaise} paise, captured ${captured.amount} paise`
+      };
+    }
+
+    return {
+      type: 'missed_capture',
+      payment: captured,
+      expectedAmountPaise,
+      detail: `Payment ${captured.id} was captured but the order is ${order.paymentStatus}`
+    };
+  }
+
+  const authorized = payments.find(payment => payment.status === 'authorized');
+  if (authorized) {
+    return {
+      type: 'authorized_not_captured',
+      payment: authorized,
+      expectedAmountPaise,
+      detail: `Payment ${authorized.id} is authorized but was never captured`
+    };
+  }
+
+  return null;
+};
+
+// Apply the fix for one discrepancy and say what was done
+const resolveDiscrepancy = async (
+  order: IOrder,
+  inspection: OrderInspection
+): Promise<Pick<IReconciliationDiscrepancy, 'action' | 'detail'>> => {
+  const orderId = String(order._id);
+
+  switch (inspection.type) {
+    case 'missed_capture':
+    case 'amount_mismatch': {
+      // Same path as a payment.captured webhook, including the amount check
+      await dispatchRazorpayEvent({ event: 'payment.captured', payload: { payment: { entity: inspection.payment } } });
+      const updated = await Order.findById(orderId);
+
+      if (updated?.paymentStatus === 'completed') {
+        return { action: 'fixed', detail: `${inspection.detail}; order completed` };
+      }
+      if (updated?.paymentReview?.status === 'flagged') {
+        return { action: 'flagged', detail: `${inspection.detail}; held for review` };
+      }
+      return { action: 'failed', detail: `${inspection.detail}; order is still ${updated?.paymentStatus}` };
+    }
+
+    case 'undelivered': {
+      // A copy that keeps failing needs a person, not another attempt every run
+      if ((order.deliveryAttempts || 0) >= MAX_DELIVERY_ATTEMPTS) {
+        return { action: 'reported', detail: `${inspection.detail}; gave up after ${MAX_DELIVERY_ATTEMPTS} attempts` };
+      }
+      await Order.updateOne({ _id: order._id }, { $inc: { deliveryAttempts: 1 } });
+
+      const { delivered } = await retryOrderDelivery(orderId, inspection.payment?.email);
+      return delivered
+        ? { action: 'fixed', detail: `${inspection.detail}; email and buyer copies sent` }
+        : { action: 'failed', detail: `${inspection.detail}; delivery is still incomplete` };
+    }
+
+    case 'fetch_error':
+      return { action: 'failed', detail: inspection.detail };
+
+    default:
+      // Needs a person: a refund, a second capture or a Razorpay-side auto refund
+      return { action: 'reported', detail: inspection.detail };
+  }
+};
+
+export interface ReconciliationOptions {
+  trigger: 'schedule' | 'admin';
+  triggeredBy?: string;
+  dryRun?: boolean;
+  lookbackHours?: number;
+}
+
+// Record a new run. Only one run at a time; returns the run already in progress instead.
+export const createReconciliationRun = async (
+  options: ReconciliationOptions
+): Promise<{ run: IReconciliationRun; alreadyRunning: boolean }> => {
+  const now = Date.now();
+  const running = await ReconciliationRun.findOne({
+    status: 'running',
+    startedAt: { $gt: new Date(now - RUN_TIMEOUT_MS) }
+  });
+  if (running) {
+    return { run: running, alreadyRunning: true };
+  }
+
+  const run = await ReconciliationRun.create({
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy && mongoose.isValidObjectId(options.triggeredBy) ? options.triggeredBy : undefined,
+    dryRun: !!options.dryRun,
+    windowStart: new Date(now - (options.lookbackHours ?? env.reconciliation.lookbackHours) * 60 * 60 * 1000),
+    windowEnd: new Date(now - env.reconciliation.minAgeMinutes * 60 * 1000)
+  });
+
+  return { run, alreadyRunning: false };
+};
+
+// Page through the run's orders, compare each with Razorpay and fix what can be fixed.
+// Never throws; a failure is recorded on the run.
+export const executeReconciliationRun = async (
+  run: IReconciliationRun,
+  client: RazorpayPaymentsClient = razorpayPaymentsClient
+): Promise<IReconciliationRun | null> => {
+  const { windowStart, windowEnd, dryRun } = run;
+  console.log('🔍 Payment reconciliation started:', { runId: run._id, trigger: run.trigger, dryRun });
+
+  try {
+    let lastId: unknown = null;
+    let ordersChecked = 0;
+
+    while (true) {
+      const page: IOrder[] = await Order.find({
+        razorpayOrderId: { $exists: true, $ne: null },
+        paymentStatus: { $in: ['pending', 'processing', 'failed', 'completed'] },
+        isFakeOrder: { $ne: true },
+        createdAt: { $gte: windowStart, $lte: windowEnd },
+        ...(lastId ? { _id: { $gt: lastId } } : {})
+      })
+        .sort({ _id: 1 })
+        .limit(PAGE_SIZE);
+
+      if (page.length === 0) break;
+      lastId = page[page.length - 1]._id;
+
+      for (const order of page) {
+        ordersChecked++;
+        const inspection = await inspectOrder(order, client);
+        if (!inspection) continue;
+
+        let outcome: Pick<IReconciliationDiscrepancy, 'action' | 'detail'> = { action: 'reported', detail: inspection.detail };
+        if (!dryRun) {
+          try {
+            outcome = await resolveDiscrepancy(order, inspection);
+          } catch (error) {
+            outcome = { action: 'failed', detail: `${inspection.detail}; ${error instanceof Error ? error.message : 'Unknown error'}` };
+          }
+        }
+
+        const discrepancy: IReconciliationDiscrepancy = {
+          order: order._id as mongoose.Types.ObjectId,
+          orderNumber: order.orderNumber,
+          razorpayOrderId: order.razorpayOrderId!,
+          type: inspection.type,
+          localStatus: order.paymentStatus,
+          razorpayPaymentId: inspection.payment?.id,
+          razorpayStatus: inspection.payment?.status,
+          expectedAmountPaise: inspection.expectedAmountPaise,
+          capturedAmountPaise: inspection.payment && isCaptured(inspection.payment) ? Number(inspection.payment.amount) : undefined,
+          ...outcome
+        };
+
+        console.log('⚠️ Reconciliation discrepancy:', {
+          orderNumber: discrepancy.orderNumber,
+          type: discrepancy.type,
+          action: discrepancy.action
+        });
+
+        await ReconciliationRun.updateOne(
+          { _id: run._id },
+          { $push: { discrepancies: discrepancy }, $inc: { [`summary.${discrepancy.action}`]: 1 } }
+        );
+      }
+
+      await ReconciliationRun.updateOne({ _id: run._id }, { $set: { ordersChecked } });
+    }
+
+    await ReconciliationRun.updateOne(
+      { _id: run._id },
+      { $set: { status: 'completed', ordersChecked, finishedAt: new Date() } }
+    );
+    console.log('✅ Payment reconciliation finished:', { runId: run._id, ordersChecked });
+  } catch (error) {
+    console.error('❌ Payment reconciliation failed:', error);
+    await ReconciliationRun.updateOne(
+      { _id: run._id },
+      {
+        $set: {
+          status: 'failed',
+          finishedAt: new Date(),
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        }
+      }
+    );
+  }
+
+  return ReconciliationRun.findById(run._id);
+};
+
+export const runReconciliation = async (
+  options: ReconciliationOptions,
+  client: RazorpayPaymentsClient = razorpayPaymentsClient
+): Promise<IReconciliationRun | null> => {
+  const { run, alreadyRunning } = await createReconciliationRun(options);
+  if (alreadyRunning) {
+    console.log('Payment reconciliation already running:', { runId: run._id });
+    return run;
+  }
+  return executeReconciliationRun(run, client);
+};
+
+// Run reconciliation on a timer. Returns the timer, or null when disabled.
+export const scheduleReconciliation = (): NodeJS.Timeout | null => {
+  if (env.reconciliation.intervalMinutes <= 0) {
+    console.log('Payment reconciliation schedule disabled');
+    return null;
+  }
+
+  const timer = setInterval(async () => {
+    try {
+      if (mongoose.connection.readyState !== 1) return;
+      await runReconciliation({ trigger: 'schedule' });
+    } catch (error) {
+      console.error('❌ Scheduled payment reconciliation failed:', error);
+    }
+  }, env.reconciliation.intervalMinutes * 60 * 1000);
+
+  return timer.unref();
+};
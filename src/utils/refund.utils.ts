@@ -0,0 +1,283 @@
+import mongoose from 'mongoose';
+import { Order, IOrder, IOrderRefund, RefundReasonCode } from '../models/Order.model';
+import { DownloadEntitlement } from '../models/DownloadEntitlement.model';
+import { createRazorpayRefund } from './payment.utils';
+import { getExpectedAmountPaise } from './pricing.utils';
+import { reverseOrderSales } from './productStats.utils';
+import { getDeliveredProductIds } from './bundle.utils';
+
+export interface RefundRequest {
+  idempotencyKey: string;
+  amountPaise?: number; // Defaults to everything still refundable
+  reasonCode: RefundReasonCode;
+  notes?: string;
+  productIds?: string[]; // Lines to withdraw access to; defaults to all lines for a full refund
+  requestedBy?: string;
+}
+
+export interface RefundResult {
+  status: number;
+  error?: string;
+  refund?: IOrderRefund;
+  order?: IOrder;
+  replayed?: boolean;
+}
+
+// Amount Razorpay actually captured for the order, in paise
+export const getCapturedAmountPaise = (order: IOrder): number => {
+  return order.paymentReview?.capturedAmountPaise ?? getExpectedAmountPaise(order);
+};
+
+// Work out how much to refund, or why the refund cannot be issued
+export const planRefundAmount = (
+  capturedPaise: number,
+  alreadyRequestedPaise: number,
+  requestedPaise?: number
+): { amountPaise: number; isFullRefund: boolean; error?: string } => {
+  const refundablePaise = Math.max(0, capturedPaise - alreadyRequestedPaise);
+  const amountPaise = requestedPaise ?? refundablePaise;
+
+  if (refundablePaise <= 0) {
+    return { amountPaise: 0, isFullRefund: false, error: 'Order has already been fully refunded' };
+  }
+
+  if (!Number.isInteger(amountPaise) || amountPaise <= 0) {
+    return { amountPaise: 0, isFullRefund: false, error: 'Refund amount must be a positive amount in paise' };
+  }
+
+  if (amountPaise > refundablePaise) {
+    return { amountPaise: 0, isFullRefund: false, error: `Refund exceeds refundable amount of ${refundablePaise} paise` };
+  }
+
+  return { amountPaise, isFullRefund: alreadyRequestedPaise + amountPaise >= capturedPaise };
+};
+
+const findRefund = (order: IOrder, idempotencyKey: string) => {
+  return order.refunds?.find(refund => refund.idempotencyKey === idempotencyKey);
+};
+
+// Issue a refund through Razorpay. Access and sales counts are only reversed once the
+// refund.processed webhook confirms it. Repeating a request with the same idempotency key
+// returns the original refund instead of refunding twice.
+export const initiateRefund = async (orderId: string, request: RefundRequest): Promise<RefundResult> => {
+  const order = await Order.findById(orderId);
+  if (!order) {
+    return { status: 404, error: 'Order not found' };
+  }
+
+  const existing = findRefund(order, request.idempotencyKey);
+  if (existing) {
+    return { status: 200, refund: existing, order, replayed: true };
+  }
+
+  if (!order.razorpayPaymentId || !['completed', 'processing'].includes(order.paymentStatus)) {
+    return { status: 400, error: 'Only captured payments can be refunded' };
+  }
+
+  const capturedPaise = getCapturedAmountPaise(order);
+  const plan = planRefundAmount(capturedPaise, order.refundRequestedPaise || 0, request.amountPaise);
+  if (plan.error) {
+    return { status: 400, error: plan.error };
+  }
+
+  const orderProductIds = order.items.map(item => item.product.toString());
+  const productIds = request.productIds ?? (plan.isFullRefund ? orderProductIds : []);
+  const unknownProduct = productIds.find(productId => !orderProductIds.includes(productId));
+  if (unknownProduct) {
+    return { status: 400, error: `Product ${unknownProduct} is not part of this order` };
+  }
+
+  // Claim the amount atomically so concurrent requests cannot refund more than was captured
+  const claimed = await Order.findOneAndUpdate(
+    {
+      _id: order._id,
+      'refunds.idempotencyKey': { $ne: request.idempotencyKey },
+      $expr: { $lte: [{ $add: [{ $ifNull: ['$refundRequestedPaise', 0] }, plan.amountPaise] }, capturedPaise] }
+    },
+    {
+      $push: {
+        refunds: {
+          idempotencyKey: request.idempotencyKey,
+          amountPaise: plan.amountPaise,
+          reasonCode: request.reasonCode,
+          notes: request.notes,
+          products: productIds,
+          status: 'requested',
+          requestedBy: request.requestedBy,
+          requestedAt: new Date()
+        }
+      },
+      $inc: { refundRequestedPaise: plan.amountPaise },
+      $set: { refundStatus: 'requested' }
+    },
+    { new: true }
+  );
+
+  if (!claimed) {
+    const current = await Order.findById(order._id);
+    const replay = current && findRefund(current, request.idempotencyKey);
+    if (replay) {
+      return { status: 200, refund: replay, order: current!, replayed: true };
+    }
+    return { status: 409, error: 'Another refund changed the refundable amount. Please retry.' };
+  }
+
+  try {
+    const razorpayRefund = await createRazorpayRefund(order.razorpayPaymentId, plan.amountPaise, {
+      receipt: request.idempotencyKey.substring(0, 40),
+      notes: {
+        orderNumber: order.orderNumber,
+        idempotencyKey: request.idempotencyKey,
+        reasonCode: request.reasonCode
+      }
+    });
+
+    const updated = await Order.findOneAndUpdate(
+      { _id: order._id, 'refunds.idempotencyKey': request.idempotencyKey },
+      { $set: { 'refunds.$.refundId': razorpayRefund.id } },
+      { new: true }
+    );
+
+    console.log('💸 Refund requested:', {
+      orderNumber: order.orderNumber,
+      refundId: razorpayRefund.id,
+      amountPaise: plan.amountPaise,
+      reasonCode: request.reasonCode
+    });
+
+    return { status: 201, refund: findRefund(updated!, request.idempotencyKey), order: updated! };
+  } catch (error) {
+    const failureReason = error instanceof Error ? error.message : 'Unknown error';
+    console.error('❌ Refund request failed:', { orderNumber: order.orderNumber, failureReason });
+
+    const failed = await Order.findOneAndUpdate(
+      { _id: order._id, refunds: { $elemMatch: { idempotencyKey: request.idempotencyKey, status: 'requested' } } },
+      {
+        $set: { 'refunds.$.status': 'failed', 'refunds.$.failureReason': failureReason, refundStatus: 'failed' },
+        $inc: { refundRequestedPaise: -plan.amountPaise }
+      },
+      { new: true }
+    );
+
+    return {
+      status: 502,
+      error: `Failed to create refund: ${failureReason}`,
+      refund: failed ? findRefund(failed, request.idempotencyKey) : undefined,
+      order: failed || undefined
+    };
+  }
+};
+
+// Withdraw access and reverse sales for the lines a processed refund covers
+const reverseFulfilment = async (order: IOrder, refund: IOrderRefund) => {
+  const productIds = refund.products.map(product => product.toString());
+  if (productIds.length === 0) {
+    return;
+  }
+
+  // Bundle lines withdraw every product they delivered
+  await DownloadEntitlement.updateMany(
+    { order: order._id, product: { $in: getDeliveredProductIds(order.items, productIds) }, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: `Refunded (${refund.reasonCode})` }
+  );
+
+  await reverseOrderSales(order, productIds);
+};
+
+// Apply a refund.created / refund.processed / refund.failed webhook to its order
+export const applyRefundEvent = async (
+  refundEntity: any,
+  event: 'created' | 'processed' | 'failed'
+): Promise<{ order: IOrder | null; error?: string }> => {
+  const order = await Order.findOne({ razorpayPaymentId: refundEntity.payment_id });
+  if (!order) {
+    return { order: null, error: 'Order not found' };
+  }
+
+  let refund = order.refunds.find(entry => entry.refundId === refundEntity.id) ||
+    (refundEntity.notes?.idempotencyKey ? findRefund(order, refundEntity.notes.idempotencyKey) : undefined);
+
+  if (!refund) {
+    // Refund created outside the admin panel (e.g. the Razorpay dashboard)
+    const capturedPaise = getCapturedAmountPaise(order);
+    const isFullRefund = (order.refundRequestedPaise || 0) + refundEntity.amount >= capturedPaise;
+    await Order.updateOne(
+      { _id: order._id, 'refunds.refundId': { $ne: refundEntity.id } },
+      {
+        $push: {
+          refunds: {
+            idempotencyKey: `razorpay:${refundEntity.id}`,
+            refundId: refundEntity.id,
+            amountPaise: refundEntity.amount,
+            reasonCode: 'other',
+            notes: 'Created outside the admin panel',
+            products: isFullRefund ? order.items.map(item => item.product) : [],
+            status: 'requested',
+            requestedAt: refundEntity.created_at ? new Date(refundEntity.created_at * 1000) : new Date()
+          }
+        },
+        $inc: { refundRequestedPaise: refundEntity.amount },
+        $set: { refundStatus: 'requested' }
+      }
+    );
+    const reloaded = await Order.findById(order._id);
+    refund = reloaded?.refunds.find(entry => entry.refundId === refundEntity.id);
+    if (!reloaded || !refund) {
+      return { order: reloaded };
+    }
+  }
+
+  const refundDocId = (refund as any)._id as mongoose.Types.ObjectId;
+
+  if (event === 'created') {
+    await Order.updateOne(
+      { _id: order._id, 'refunds._id': refundDocId },
+      { $set: { 'refunds.$.refundId': refundEntity.id } }
+    );
+  } else if (event === 'processed') {
+    // Only the first processed event for this refund reverses fulfilment
+    const result = await Order.updateOne(
+      { _id: order._id, refunds: { $elemMatch: { _id: refundDocId, status: { $ne: 'processed' } } } },
+      {
+        $set: {
+          'refunds.$.refundId': refundEntity.id,
+          'refunds.$.status': 'processed',
+          'refunds.$.processedAt': new Date(),
+          refundStatus: 'processed'
+        },
+        $inc: {
+          refundedAmountPaise: refundEntity.amount,
+          // A refund that had failed is committed again
+          ...(refund.status === 'failed' ? { refundRequestedPaise: refundEntity.amount } : {})
+        }
+      }
+    );
+
+    if (result.modifiedCount === 1) {
+      await reverseFulfilment(order, refund);
+
+      const updated = await Order.findById(order._id);
+      if (updated && updated.refundedAmountPaise >= getCapturedAmountPaise(updated)) {
+        updated.paymentStatus = 'refunded';
+        await updated.save();
+      }
+      console.log('✅ Refund processed:', { orderNumber: order.orderNumber, refundId: refundEntity.id });
+    }
+  } else {
+    await Order.updateOne(
+      { _id: order._id, refunds: { $elemMatch: { _id: refundDocId, status: 'requested' } } },
+      {
+        $set: {
+          'refunds.$.refundId': refundEntity.id,
+          'refunds.$.status': 'failed',
+          'refunds.$.failureReason': refundEntity.error_description || 'Refund failed at Razorpay',
+          refundStatus: 'failed'
+        },
+        $inc: { refundRequestedPaise: -refund.amountPaise }
+      }
+    );
+    console.log('❌ Refund failed:', { orderNumber: order.orderNumber, refundId: refundEntity.id });
+  }
+
+  return { order: await Order.findById(order._id) };
+};
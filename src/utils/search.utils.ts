@@ -0,0 +1,436 @@
+import { Product } from '../models/Product.model';
+import { applyPriceSchedules, getPriceSchedules } from './priceSchedule.utils';
+
+// The product fields search needs. Lean documents from Product.find() fit this shape.
+export interface SearchableProduct {
+  _id: any;
+  name: string;
+  slug: string;
+  description?: string;
+  detailedDescription?: string;
+  category: string;
+  subcategory: string;
+  tags?: string[];
+  features?: string[];
+  price: number;
+  averageRating?: number;
+  totalReviews?: number;
+  salesCount?: number;
+  order?: number;
+  createdAt?: Date;
+  [key: string]: any;
+}
+
+export type SearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'rating' | 'newest' | 'bestselling';
+
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'price_asc', 'price_desc', 'rating', 'newest', 'bestselling'];
+
+export interface SearchParams {
+  q: string;
+  categories: string[];
+  subcategories: string[];
+  priceBands: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  sort: SearchSort;
+  page: number;
+  limit: number;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  category: FacetCount[];
+  subcategory: FacetCount[];
+  priceBand: (FacetCount & { label: string; min: number; max?: number })[];
+  rating: (FacetCount & { label: string; min: number })[];
+}
+
+export interface SearchResult {
+  products: (SearchableProduct & { relevance?: number })[];
+  facets: SearchFacets;
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+export interface CatalogSearchIndex {
+  products: SearchableProduct[];
+  postings: Map<string, Map<number, number>>; // term -> product position -> heaviest field weight it appears in
+}
+
+// How much a match in each field counts towards relevance
+const FIELD_WEIGHTS: { field: keyof SearchableProduct; weight: number }[] = [
+  { field: 'name', weight: 5 },
+  { field: 'tags', weight: 3 },
+  { field: 'category', weight: 2 },
+  { field: 'subcategory', weight: 2 },
+  { field: 'features', weight: 1.5 },
+  { field: 'description', weight: 1 },
+  { field: 'detailedDescription', weight: 0.5 }
+];
+
+// Match quality: a word typed in full beats the start of a word, which beats a typo
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const FUZZY_MATCH = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'with', 'or']);
+
+// Prices in rupees; the last band is open-ended
+export const PRICE_BANDS: { value: string; label: string; min: number; max?: number }[] = [
+  { value: 'under_200', label: 'Under ₹200', min: 0, max: 200 },
+  { value: '200_499', label: '₹200 – ₹499', min: 200, max: 500 },
+  { value: '500_999', label: '₹500 – ₹999', min: 500, max: 1000 },
+  { value: '1000_plus', label: '₹1000 & above', min: 1000 }
+];
+
+export const RATING_FACETS = [4, 3, 2, 1];
+
+export const SEARCH_MAX_LIMIT = 50;
+
+// Lowercase words without accents. Letters from any script count, so Hindi text is searchable too.
+export const tokenize = (text: unknown): string[] => {
+  if (typeof text !== 'string' || !text) return [];
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{M}\p{N}]+/u) // Keep combining marks such as Devanagari vowel signs
+    .filter(Boolean);
+};
+
+// Words of a search query, without filler words unless the query is nothing but
+const tokenizeQuery = (query: string): string[] => {
+  const tokens = Array.from(new Set(tokenize(query)));
+  const meaningful = tokens.filter(token => !STOP_WORDS.has(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+};
+
+// Edit distance between two words, giving up (returning max + 1) once it exceeds max
+export const boundedLevenshtein = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Typos tolerated for a query word: none for short words, more for long ones
+const allowedEdits = (token: string) => (token.length < 4 ? 0 : token.length < 8 ? 1 : 2);
+
+// How well a query word matches an indexed term, 0 for no match
+export const matchTerm = (token: string, term: string, allowPrefix: boolean = true): number => {
+  if (term === token) return EXACT_MATCH;
+  if (allowPrefix && token.length >= 2 && term.startsWith(token)) return PREFIX_MATCH;
+
+  const edits = allowedEdits(token);
+  if (edits > 0 && boundedLevenshtein(token, term, edits) <= edits) return FUZZY_MATCH;
+
+  return 0;
+};
+
+export const buildSearchIndex = (products: SearchableProduct[]): CatalogSearchIndex => {
+  const postings = new Map<string, Map<number, number>>();
+
+  products.forEach((product, position) => {
+    for (const { field, weight } of FIELD_WEIGHTS) {
+      const value = product[field];
+      const terms = Array.isArray(value) ? value.flatMap(tokenize) : tokenize(value);
+      for (const term of terms) {
+        let docs = postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          postings.set(term, docs);
+        }
+        docs.set(position, Math.max(docs.get(position) || 0, weight));
+      }
+    }
+  });
+
+  return { products, postings };
+};
+
+// Relevance of each product matching every word of the query, by position in the index
+export const scoreQuery = (index: CatalogSearchIndex, query: string): Map<number, number> => {
+  const tokens = tokenizeQuery(query);
+  let scores: Map<number, number> | null = null;
+
+  for (const token of tokens) {
+    const best = new Map<number, number>();
+    for (const [term, docs] of index.postings) {
+      const quality = matchTerm(token, term);
+      if (quality === 0) continue;
+      for (const [position, weight] of docs) {
+        best.set(position, Math.max(best.get(position) || 0, weight * quality));
+      }
+    }
+
+    // Every query word has to match somewhere
+    const next = new Map<number, number>();
+    for (const [position, score] of best) {
+      if (scores === null || scores.has(position)) {
+        next.set(position, (scores?.get(position) || 0) + score);
+      }
+    }
+    scores = next;
+  }
+
+  // Small bonus when the name contains the query as typed
+  const phrase = tokens.join(' ');
+  for (const [position, score] of scores || []) {
+    if (tokens.length > 1 && tokenize(index.products[position].name).join(' ').includes(phrase)) {
+      scores!.set(position, score + 2);
+    }
+  }
+
+  return scores || new Map();
+};
+
+export const getPriceBand = (price: number) =>
+  PRICE_BANDS.find(band => price >= band.min && (band.max === undefined || price < band.max));
+
+const splitList = (value: unknown): string[] => {
+  const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return values.map(item => String(item).trim()).filter(Boolean);
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Read search options from a query string, ignoring values that do not make sense
+export const parseSearchParams = (query: Record<string, any>): SearchParams => {
+  const q = String(query.q ?? query.search ?? '').trim().slice(0, 100);
+  const sort = SEARCH_SORTS.includes(query.sort) ? query.sort : 'relevance';
+  const limit = Math.min(Math.max(Math.floor(toNumber(query.limit) || 12), 1), SEARCH_MAX_LIMIT);
+
+  return {
+    q,
+    categories: splitList(query.category),
+    subcategories: splitList(query.subcategory),
+    priceBands: splitList(query.priceBand).filter(value => PRICE_BANDS.some(band => band.value === value)),
+    minPrice: toNumber(query.minPrice),
+    maxPrice: toNumber(query.maxPrice),
+    minRating: toNumber(query.minRating),
+    sort,
+    page: Math.max(Math.floor(toNumber(query.page) || 1), 1),
+    limit
+  };
+};
+
+export interface ListingQuery {
+  filter: Record<string, any>;
+  sort: Record<string, 1 | -1>;
+  page: number;
+  limit: number;
+}
+
+// Catalog order as arranged by admins breaks ties in every listing sort
+const LISTING_SORTS: Record<SearchSort, Record<string, 1 | -1>> = {
+  relevance: { order: 1, createdAt: -1 },
+  price_asc: { price: 1, order: 1, createdAt: -1 },
+  price_desc: { price: -1, order: 1, createdAt: -1 },
+  rating: { averageRating: -1, totalReviews: -1, order: 1, createdAt: -1 },
+  newest: { createdAt: -1 },
+  bestselling: { salesCount: -1, order: 1, createdAt: -1 }
+};
+
+// Read the plain product listing's options: one exact category, a list of subcategories
+// and a range on the regular price. Only text queries go through searchCatalog, so sorting
+// the listing never changes which products it matches.
+export const parseListingQuery = (query: Record<string, any>): ListingQuery => {
+  const filter: Record<string, any> = { isActive: true };
+
+  if (query.category) filter.category = String(query.category);
+
+  const subcategories = splitList(query.subcategory);
+  if (subcategories.length > 0) filter.subcategory = { $in: subcategories };
+
+  const minPrice = toNumber(query.minPrice);
+  const maxPrice = toNumber(query.maxPrice);
+  if (minPrice !== undefined || maxPrice !== undefined) {
+    filter.price = {};
+    if (minPrice !== undefined) filter.price.$gte = minPrice;
+    if (maxPrice !== undefined) filter.price.$lte = maxPrice;
+  }
+
+  return {
+    filter,
+    sort: LISTING_SORTS[SEARCH_SORTS.includes(query.sort) ? query.sort as SearchSort : 'relevance'],
+    page: Math.max(Math.floor(toNumber(query.page) || 1), 1),
+    limit: Math.max(Math.floor(toNumber(query.limit) || 12), 1)
+  };
+};
+
+type FilterName = 'category' | 'subcategory' | 'price' | 'rating';
+
+// Whether a product passes the filters, leaving one out. Each facet is counted without its
+// own filter so picking one category still shows how many results the others would give.
+const passesFilters = (product: SearchableProduct, params: SearchParams, skip?: FilterName): boolean => {
+  if (skip !== 'category' && params.categories.length > 0 && !params.categories.includes(product.category)) return false;
+  if (skip !== 'subcategory' && params.subcategories.length > 0 && !params.subcategories.includes(product.subcategory)) return false;
+
+  if (skip !== 'price') {
+    if (params.minPrice !== undefined && product.price < params.minPrice) return false;
+    if (params.maxPrice !== undefined && product.price > params.maxPrice) return false;
+    if (params.priceBands.length > 0 && !params.priceBands.includes(getPriceBand(product.price)?.value || '')) return false;
+  }
+
+  if (skip !== 'rating' && params.minRating !== undefined && (product.averageRating || 0) < params.minRating) return false;
+
+  return true;
+};
+
+const countBy = (products: SearchableProduct[], key: (product: SearchableProduct) => string | undefined): FacetCount[] => {
+  const counts = new Map<string, number>();
+  for (const product of products) {
+    const value = key(product);
+    if (value) counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+export const buildFacets = (matches: SearchableProduct[], params: SearchParams): SearchFacets => {
+  const without = (skip: FilterName) => matches.filter(product => passesFilters(product, params, skip));
+  const priceMatches = without('price');
+  const ratingMatches = without('rating');
+
+  return {
+    category: countBy(without('category'), product => product.category),
+    subcategory: countBy(without('subcategory'), product => product.subcategory),
+    priceBand: PRICE_BANDS.map(band => ({
+      ...band,
+      count: priceMatches.filter(product => getPriceBand(product.price)?.value === band.value).length
+    })),
+    rating: RATING_FACETS.map(min => ({
+      value: String(min),
+      label: `${min}★ & up`,
+      min,
+      count: ratingMatches.filter(product => (product.averageRating || 0) >= min).length
+    }))
+  };
+};
+
+const time = (date?: Date) => (date ? new Date(date).getTime() : 0);
+
+// Catalog order as arranged by admins; used when there is nothing to rank by
+const byFeatured = (a: SearchableProduct, b: SearchableProduct) =>
+  (a.order || 0) - (b.order || 0) || time(b.createdAt) - time(a.createdAt);
+
+const COMPARATORS: Record<Exclude<SearchSort, 'relevance'>, (a: SearchableProduct, b: SearchableProduct) => number> = {
+  price_asc: (a, b) => a.price - b.price || byFeatured(a, b),
+  price_desc: (a, b) => b.price - a.price || byFeatured(a, b),
+  rating: (a, b) => (b.averageRating || 0) - (a.averageRating || 0) || (b.totalReviews || 0) - (a.totalReviews || 0) || byFeatured(a, b),
+  newest: (a, b) => time(b.createdAt) - time(a.createdAt),
+  bestselling: (a, b) => (b.salesCount || 0) - (a.salesCount || 0) || byFeatured(a, b)
+};
+
+// Search, filter, count facets, sort and paginate the catalog
+export const searchCatalog = (index: CatalogSearchIndex, params: SearchParams): SearchResult => {
+  let matches: (SearchableProduct & { relevance?: number })[];
+
+  if (params.q) {
+    const scores = scoreQuery(index, params.q);
+    matches = Array.from(scores, ([position, relevance]) => ({
+      ...index.products[position],
+      relevance: Math.round(relevance * 100) / 100
+    }));
+  } else {
+    matches = [...index.products];
+  }
+
+  const facets = buildFacets(matches, params);
+  const filtered = matches.filter(product => passesFilters(product, params));
+
+  if (params.sort === 'relevance') {
+    filtered.sort(params.q
+      ? (a, b) => (b.relevance || 0) - (a.relevance || 0) || COMPARATORS.bestselling(a, b)
+      : byFeatured);
+  } else {
+    filtered.sort(COMPARATORS[params.sort]);
+  }
+
+  const skip = (params.page - 1) * params.limit;
+  return {
+    products: filtered.slice(skip, skip + params.limit),
+    facets,
+    total: filtered.length,
+    page: params.page,
+    limit: params.limit,
+    pages: Math.ceil(filtered.length / params.limit)
+  };
+};
+
+export interface AutocompleteSuggestions {
+  terms: string[];
+  products: { _id: any; name: string; slug: string; image?: string; price: number }[];
+}
+
+// Suggestions while typing: completions of the last word, and the best matching products
+export const autocomplete = (index: CatalogSearchIndex, query: string, limit: number = 5): AutocompleteSuggestions => {
+  const tokens = tokenize(query);
+  const last = tokens[tokens.length - 1];
+  if (!last) return { terms: [], products: [] };
+
+  const leading = tokens.slice(0, -1).join(' ');
+  const terms = Array.from(index.postings)
+    .filter(([term]) => term !== last && term.startsWith(last) && term.length > 2)
+    .sort((a, b) => b[1].size - a[1].size || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([term]) => (leading ? `${leading} ${term}` : term));
+
+  const scores = scoreQuery(index, query);
+  const products = Array.from(scores)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([position]) => {
+      const product = index.products[position];
+      return { _id: product._id, name: product.name, slug: product.slug, image: product.images?.[0], price: product.price };
+    });
+
+  return { terms, products };
+};
+
+// The index is rebuilt from the database at most once a minute, or right after a catalog change
+const INDEX_TTL_MS = 60 * 1000;
+let cachedIndex: { index: CatalogSearchIndex; builtAt: number } | null = null;
+
+export const getCatalogSearchIndex = async (): Promise<CatalogSearchIndex> => {
+  if (cachedIndex && Date.now() - cachedIndex.builtAt < INDEX_TTL_MS) {
+    return cachedIndex.index;
+  }
+
+  const products = await Product.find({ isActive: true })
+    .select('-pdfUrl -pdfPassword')
+    .lean();
+
+  // Sorting and price facets use the price buyers currently pay
+  const priced = applyPriceSchedules(products as SearchableProduct[], await getPriceSchedules());
+  cachedIndex = { index: buildSearchIndex(priced), builtAt: Date.now() };
+  return cachedIndex.index;
+};
+
+// Call after creating, editing or hiding products so search picks it up straight away
+export const invalidateCatalogSearchIndex = (): void => {
+  cachedIndex = null;
+};
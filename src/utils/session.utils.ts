@@ -0,0 +1,254 @@
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { Session, ISession, SessionRevokedReason } from '../models/Session.model';
+import { User, IUser } from '../models/User.model';
+import { env } from '../config/environment.config';
+import { hashAuthToken } from './auth.utils';
+import { getClientIp } from './download.utils';
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+  session: ISession;
+}
+
+export interface AccessTokenPayload {
+  userId: string;
+  sessionId: string;
+  tokenVersion: number;
+}
+
+// Access tokens for magic-link guest sessions carry the email instead of a user
+export interface GuestAccessTokenPayload {
+  scope: 'guest';
+  guestEmail: string;
+  sessionId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_PREVIOUS_TOKENS = 20;
+export const GUEST_SESSION_TTL_DAYS = 7;
+
+// A short label for the sessions list, e.g. "Chrome on Windows"
+export const getDeviceName = (userAgent?: string): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+};
+
+// Refresh tokens are "<sessionId>.<secret>" so the session can be found without the secret
+export const parseRefreshToken = (refreshToken: string): { sessionId: string; secret: string } | null => {
+  const [sessionId, secret, ...rest] = (refreshToken || '').split('.');
+  if (rest.length > 0 || !secret || !mongoose.isValidObjectId(sessionId)) {
+    return null;
+  }
+  return { sessionId, secret };
+};
+
+const newRefreshSecret = () => crypto.randomBytes(32).toString('hex');
+
+export const signAccessToken = (user: IUser, sessionId: string): string => {
+  const payload: AccessTokenPayload = {
+    userId: (user._id as any).toString(),
+    sessionId,
+    tokenVersion: user.tokenVersion || 0
+  };
+  // @ts-ignore
+  return jwt.sign(payload, env.jwtSecret, { expiresIn: env.jwtExpiresIn });
+};
+
+export const signGuestAccessToken = (guestEmail: string, sessionId: string): string => {
+  const payload: GuestAccessTokenPayload = { scope: 'guest', guestEmail, sessionId };
+  // @ts-ignore
+  return jwt.sign(payload, env.jwtSecret, { expiresIn: env.jwtExpiresIn });
+};
+
+// Start a session for a user who just signed in
+export const createSession = async (
+  user: IUser,
+  req: Request,
+  options: { mfaVerified?: boolean } = {}
+): Promise<SessionTokens> => {
+  const secret = newRefreshSecret();
+  const userAgent = req.header('user-agent');
+  const session = await Session.create({
+    user: user._id,
+    refreshTokenHash: hashAuthToken(secret),
+    deviceName: getDeviceName(userAgent),
+    userAgent,
+    ipAddress: getClientIp(req),
+    lastSeenAt: new Date(),
+    mfaVerifiedAt: options.mfaVerified ? new Date() : undefined,
+    expiresAt: new Date(Date.now() + env.refreshTokenTtlDays * DAY_MS)
+  });
+
+  const sessionId = String(session._id);
+  return {
+    token: signAccessToken(user, sessionId),
+    refreshToken: `${sessionId}.${secret}`,
+    expiresIn: env.jwtExpiresIn,
+    session
+  };
+};
+
+// Start a guest session for an email whose magic link was just used. It can see that
+// email's orders, downloads and tickets, and nothing that needs an account.
+export const createGuestSession = async (guestEmail: string, req: Request): Promise<SessionTokens> => {
+  const secret = newRefreshSecret();
+  const userAgent = req.header('user-agent');
+  const session = await Session.create({
+    guestEmail: guestEmail.toLowerCase(),
+    refreshTokenHash: hashAuthToken(secret),
+    deviceName: getDeviceName(userAgent),
+    userAgent,
+    ipAddress: getClientIp(req),
+    lastSeenAt: new Date(),
+    expiresAt: new Date(Date.now() + GUEST_SESSION_TTL_DAYS * DAY_MS)
+  });
+
+  const sessionId = String(session._id);
+  return {
+    token: signGuestAccessToken(session.guestEmail!, sessionId),
+    refreshToken: `${sessionId}.${secret}`,
+    expiresIn: env.jwtExpiresIn,
+    session
+  };
+};
+
+// Record that the session's user just passed two-factor authentication (e.g. on enrolment)
+export const markSessionMfaVerified = async (sessionId: unknown): Promise<void> => {
+  await Session.updateOne({ _id: sessionId, revokedAt: null }, { $set: { mfaVerifiedAt: new Date() } });
+};
+
+export const revokeSession = async (sessionId: unknown, reason: SessionRevokedReason): Promise<ISession | null> => {
+  return Session.findOneAndUpdate(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } },
+    { new: true }
+  );
+};
+
+// Revoke every active session of a user, optionally keeping one (the caller's own)
+export const revokeUserSessions = async (
+  userId: unknown,
+  reason: SessionRevokedReason,
+  exceptSessionId?: unknown
+): Promise<number> => {
+  const result = await Session.updateMany(
+    {
+      user: userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { _id: { $ne: exceptSessionId } } : {})
+    },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount;
+};
+
+// Exchange a refresh token for a new access token and refresh token.
+// Presenting a token that was already rotated out means it was copied, so the whole
+// session is revoked and both the thief and the owner have to sign in again.
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  req: Request
+): Promise<{ status: number; error?: string; tokens?: Omit<SessionTokens, 'session'> }> => {
+  const parsed = parseRefreshToken(refreshToken);
+  if (!parsed) {
+    return { status: 401, error: 'Invalid refresh token' };
+  }
+
+  const now = new Date();
+  const presentedHash = hashAuthToken(parsed.secret);
+  const nextSecret = newRefreshSecret();
+
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: parsed.sessionId,
+      refreshTokenHash: presentedHash,
+      revokedAt: null,
+      expiresAt: { $gt: now }
+    },
+    {
+      $set: {
+        refreshTokenHash: hashAuthToken(nextSecret),
+        lastSeenAt: now,
+        lastRefreshedAt: now,
+        ipAddress: getClientIp(req)
+      },
+      $push: { previousTokenHashes: { $each: [presentedHash], $slice: -MAX_PREVIOUS_TOKENS } }
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    const existing = await Session.findById(parsed.sessionId);
+    if (existing && !existing.revokedAt && existing.previousTokenHashes.includes(presentedHash)) {
+      await revokeSession(existing._id, 'refresh_token_reuse');
+      console.warn('🚨 Refresh token reuse detected, session revoked:', {
+        sessionId: existing._id,
+        userId: existing.user,
+        ipAddress: getClientIp(req)
+      });
+      return { status: 401, error: 'Session has been revoked. Please log in again.' };
+    }
+    return { status: 401, error: 'Invalid or expired refresh token' };
+  }
+
+  const sessionId = String(session._id);
+  if (session.guestEmail) {
+    return {
+      status: 200,
+      tokens: {
+        token: signGuestAccessToken(session.guestEmail, sessionId),
+        refreshToken: `${sessionId}.${nextSecret}`,
+        expiresIn: env.jwtExpiresIn
+      }
+    };
+  }
+
+  const user = await User.findById(session.user);
+  if (!user) {
+    await revokeSession(session._id, 'revoked_by_admin');
+    return { status: 401, error: 'User not found' };
+  }
+
+  return {
+    status: 200,
+    tokens: {
+      token: signAccessToken(user, sessionId),
+      refreshToken: `${sessionId}.${nextSecret}`,
+      expiresIn: env.jwtExpiresIn
+    }
+  };
+};
+
+// Load the active session an access token belongs to, touching its last-seen time
+export const getActiveSession = async (sessionId: string): Promise<ISession | null> => {
+  if (!mongoose.isValidObjectId(sessionId)) return null;
+
+  const session = await Session.findOne({ _id: sessionId, revokedAt: null, expiresAt: { $gt: new Date() } });
+  if (session && Date.now() - session.lastSeenAt.getTime() > 60 * 1000) {
+    await Session.updateOne({ _id: session._id }, { $set: { lastSeenAt: new Date() } });
+  }
+  return session;
+};
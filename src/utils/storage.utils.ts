@@ -14,6 +14,13 @@ export const s3Client = new S3Client({
   forcePathStyle: true // Use path-style URLs for better compatibility
 });
 
+// Product and demo images are the only files the public signer and proxy may serve.
+// PDFs, buyer copies and invoices live under other prefixes.
+export const PUBLIC_KEY_PREFIX = 'images/';
+
+export const isPublicKey = (key: string): boolean =>
+  key.startsWith(PUBLIC_KEY_PREFIX) && !key.split('/').includes('..');
+
 export const uploadFile = async (
   file: Buffer,
   key: string,
@@ -115,6 +122,33 @@ export const getSignedDownloadUrl = async (
   }
 };
 
+// Read a stored file into memory. Accepts an S3 key or, for local development, a full URL.
+export const getFileBuffer = async (keyOrUrl: string): Promise<Buffer> => {
+  if (keyOrUrl.startsWith('http') && !keyOrUrl.includes('amazonaws.com')) {
+    const response = await fetch(keyOrUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch file: ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  const key = keyOrUrl.startsWith('http')
+    ? new URL(keyOrUrl).pathname.split('/').slice(2).join('/')
+    : keyOrUrl;
+
+  const command = new GetObjectCommand({
+    Bucket: env.s3.bucketName!,
+    Key: key
+  });
+
+  const result = await s3Client.send(command);
+  if (!result.Body) {
+    throw new Error(`File not found: ${key}`);
+  }
+
+  return Buffer.from(await result.Body.transformToByteArray());
+};
+
 // Add a function to check if a file exists in S3
 export const checkFileExists = async (key: string): Promise<boolean> => {
   try {
@@ -0,0 +1,124 @@
+import * as crypto from 'crypto';
+import { env } from '../config/environment.config';
+
+// RFC 6238 time-based one-time passwords, compatible with Google Authenticator, Authy, 1Password etc.
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const getTotpStep = (now: Date = new Date()): number => Math.floor(now.getTime() / 1000 / TOTP_STEP_SECONDS);
+
+export const getTotpCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+// Returns the time step the code matched (to stop it being used twice), or null.
+// Accepts one step either side to allow for clock drift.
+export const verifyTotpCode = (secret: string, code: string, now: Date = new Date(), window: number = 1): number | null => {
+  const normalized = (code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = getTotpStep(now);
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = Buffer.from(getTotpCode(secret, current + offset));
+    if (crypto.timingSafeEqual(candidate, Buffer.from(normalized))) {
+      return current + offset;
+    }
+  }
+
+  return null;
+};
+
+export const getOtpauthUri = (secret: string, accountName: string, issuer: string = 'Desi Prompts'): string => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Recovery codes look like "a1b2c-3d4e5"; only their hashes are stored
+export const generateRecoveryCodes = (count: number = 10): string[] => {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+  });
+};
+
+export const normalizeRecoveryCode = (code: string): string => (code || '').trim().toLowerCase();
+
+// Secrets are encrypted at rest so a database leak alone does not expose them
+const getEncryptionKey = (): Buffer => {
+  return crypto.createHash('sha256').update(env.twoFactorEncryptionKey || `${env.jwtSecret}:totp`).digest();
+};
+
+export const encryptTotpSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+};
+
+export const decryptTotpSecret = (payload: string): string => {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,1166 @@
+import * as crypto from 'crypto';
+import { Order, IOrder } from '../models/Order.model';
+import { RazorpayEvent, IRazorpayEvent, IRazorpayEventReplay } from '../models/RazorpayEvent.model';
+import { sendEmail, getOrderConfirmationEmail } from './email.utils';
+import { recordOrderDiscounts } from './discount.utils';
+import { getExpectedAmountPaise } from './pricing.utils';
+import { applyRefundEvent, getCapturedAmountPaise } from './refund.utils';
+import { issueInvoiceForOrder } from './invoice.utils';
+import { prepareOrderDeliveries, getOrderDownloads } from './delivery.utils';
+import { recordOrderSales } from './productStats.utils';
+import { getOrderDeliverables } from './bundle.utils';
+import { canCompletePayment } from './payment.utils';
+import { releaseCouponReservation } from './coupon.utils';
+
+// An event still "processing" after this long is assumed to have crashed mid-way and may be retried
+export const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export type ClaimResult =
+  | { claimed: true; event: IRazorpayEvent }
+  | { claimed: false; event: IRazorpayEvent | null; reason: 'duplicate' | 'in_progress' };
+
+// Razorpay sends a unique id per event in the x-razorpay-event-id header.
+// Fall back to a hash of the body so a missing header still dedupes exact redeliveries.
+export const getWebhookEventId = (headerEventId: string | undefined, rawBody: string): string => {
+  if (headerEventId) {
+    return headerEventId;
+  }
+  return `body_${crypto.createHash('sha256').update(rawBody).digest('hex')}`;
+};
+
+// Take over a failed or stale event so exactly one worker processes it.
+// With includeHandled, events that already finished (processed/duplicate) can be taken over too.
+const reclaimRazorpayEvent = async (
+  id: unknown,
+  now: Date = new Date(),
+  includeHandled: boolean = false
+): Promise<IRazorpayEvent | null> => {
+  return RazorpayEvent.findOneAndUpdate(
+    {
+      _id: id,
+      $or: [
+        { status: { $in: includeHandled ? ['failed', 'processed', 'duplicate'] : ['failed'] } },
+        { status: 'processing', processingStartedAt: { $lt: new Date(now.getTime() - STALE_PROCESSING_MS) } }
+      ]
+    },
+    {
+      $set: { status: 'processing', processingStartedAt: now },
+      $inc: { attempts: 1 },
+      $unset: { errorMessage: 1 }
+    },
+    { new: true }
+  );
+};
+
+// Atomically claim an event by its Razorpay event id. The unique eventId index guarantees
+// only one delivery inserts the record; later deliveries see it and are treated as duplicates,
+// unless the earlier attempt failed or has been stuck in processing for too long.
+export const claimRazorpayEvent = async (eventData: Record<string, any>): Promise<ClaimResult> => {
+  const now = new Date();
+  let existing: IRazorpayEvent | null;
+
+  try {
+    existing = await RazorpayEvent.findOneAndUpdate(
+      { eventId: eventData.eventId },
+      { $setOnInsert: { ...eventData, status: 'processing', processingStartedAt: now, attempts: 1 } },
+      { upsert: true, new: false }
+    );
+  } catch (error: any) {
+    // Another delivery inserted it between our read and write
+    if (error?.code !== 11000) throw error;
+    existing = await RazorpayEvent.findOne({ eventId: eventData.eventId });
+  }
+
+  if (!existing) {
+    const event = await RazorpayEvent.findOne({ eventId: eventData.eventId });
+    return { claimed: true, event: event! };
+  }
+
+  if (existing.status === 'failed' || existing.status === 'processing') {
+    const reclaimed = await reclaimRazorpayEvent(existing._id, now);
+    if (reclaimed) {
+      return { claimed: true, event: reclaimed };
+    }
+  }
+
+  await RazorpayEvent.updateOne({ _id: existing._id }, { $inc: { duplicateCount: 1 } });
+  return {
+    claimed: false,
+    event: existing,
+    reason: existing.status === 'processing' ? 'in_progress' : 'duplicate'
+  };
+};
+
+// Route a verified Razorpay event body to its handler. Handlers record their own outcome on the event.
+export const dispatchRazorpayEvent = async (body: any, eventDocId?: string) => {
+  const { event, payload } = body;
+
+  switch (event) {
+    case 'payment.captured':
+      console.log('💰 PROCESSING PAYMENT.CAPTURED EVENT');
+      console.log('Payment details:', {
+        paymentId: payload.payment.entity.id,
+        orderId: payload.payment.entity.order_id,
+        amount: payload.payment.entity.amount
+      });
+      await handlePaymentCaptured(payload.payment.entity, eventDocId);
+      break;
+    
+    case 'payment.failed':
+      console.log('❌ PROCESSING PAYMENT.FAILED EVENT');
+      console.log('Payment failure details:', {
+        paymentId: payload.payment.entity.id,
+        orderId: payload.payment.entity.order_id,
+        errorCode: payload.payment.entity.error_code,
+        errorDescription: payload.payment.entity.error_description
+      });
+      await handlePaymentFailed(payload.payment.entity, eventDocId);
+      break;
+    
+    case 'refund.created':
+      console.log('🚨 PROCESSING REFUND.CREATED EVENT - AUTO REFUND DETECTED');
+      console.log('Refund details:', {
+        refundId: payload.refund.entity.id,
+        paymentId: payload.refund.entity.payment_id,
+        amount: payload.refund.entity.amount,
+        speed: payload.refund.entity.speed,
+        notes: payload.refund.entity.notes,
+        createdAt: payload.refund.entity.created_at
+      });
+      await handleRefundEvent(payload.refund.entity, 'created', eventDocId);
+      break;
+    
+    case 'refund.processed':
+      console.log('💸 PROCESSING REFUND.PROCESSED EVENT:', {
+        refundId: payload.refund.entity.id,
+        paymentId: payload.refund.entity.payment_id,
+        amount: payload.refund.entity.amount
+      });
+      await handleRefundEvent(payload.refund.entity, 'processed', eventDocId);
+      break;
+    
+    case 'refund.failed':
+      console.log('❌ PROCESSING REFUND.FAILED EVENT:', {
+        refundId: payload.refund.entity.id,
+        paymentId: payload.refund.entity.payment_id,
+        amount: payload.refund.entity.amount
+      });
+      await handleRefundEvent(payload.refund.entity, 'failed', eventDocId);
+      break;
+    
+    case 'payment.authorized':
+      console.log('Processing payment.authorized event:', {
+        paymentId: payload.payment.entity.id,
+        orderId: payload.payment.entity.order_id,
+        amount: payload.payment.entity.amount
+      });
+      await handlePaymentAuthorized(payload.payment.entity, eventDocId);
+      break;
+      
+    case 'order.paid':
+      console.log('Processing order.paid event:', {
+        orderId: payload.order.entity.id,
+        amount: payload.order.entity.amount
+      });
+      await handleOrderPaid(payload.order.entity, eventDocId);
+      break;
+      
+    case 'payment.dispute.created':
+      console.log('Processing payment.dispute.created event:', {
+        paymentId: payload.payment.entity.id,
+        disputeId: payload.dispute.entity.id,
+        amount: payload.dispute.entity.amount,
+        reason: payload.dispute.entity.reason,
+        status: payload.dispute.entity.status
+      });
+      await handlePaymentDisputeCreated(payload.dispute.entity, eventDocId);
+      break;
+      
+    case 'payment.dispute.won':
+      console.log('Processing payment.dispute.won event:', {
+        paymentId: payload.payment.entity.id,
+        disputeId: payload.dispute.entity.id,
+        amount: payload.dispute.entity.amount,
+        status: payload.dispute.entity.status
+      });
+      await handlePaymentDisputeWon(payload.dispute.entity, eventDocId);
+      break;
+      
+    case 'payment.dispute.lost':
+      console.log('Processing payment.dispute.lost event:', {
+        paymentId: payload.payment.entity.id,
+        disputeId: payload.dispute.entity.id,
+        amount: payload.dispute.entity.amount,
+        status: payload.dispute.entity.status
+      });
+      await handlePaymentDisputeLost(payload.dispute.entity, eventDocId);
+      break;
+      
+    case 'payment.dispute.closed':
+      console.log('Processing payment.dispute.closed event:', {
+        paymentId: payload.payment.entity.id,
+        disputeId: payload.dispute.entity.id,
+        amount: payload.dispute.entity.amount,
+        status: payload.dispute.entity.status
+      });
+      await handlePaymentDisputeClosed(payload.dispute.entity, eventDocId);
+      break;
+      
+    case 'subscription.activated':
+      console.log('Processing subscription.activated event:', {
+        subscriptionId: payload.subscription.entity.id,
+        customerId: payload.subscription.entity.customer_id,
+        status: payload.subscription.entity.status
+      });
+      await handleSubscriptionActivated(payload.subscription.entity, eventDocId);
+      break;
+      
+    case 'subscription.cancelled':
+      console.log('Processing subscription.cancelled event:', {
+        subscriptionId: payload.subscription.entity.id,
+        customerId: payload.subscription.entity.customer_id,
+        status: payload.subscription.entity.status
+      });
+      await handleSubscriptionCancelled(payload.subscription.entity, eventDocId);
+      break;
+      
+    default:
+      console.log(`Unhandled webhook event: ${event}`);
+      console.log('Full event data:', JSON.stringify(body, null, 2));
+      
+      // Update event status if it exists
+      if (eventDocId) {
+        try {
+          await RazorpayEvent.findByIdAndUpdate(eventDocId, {
+            status: 'processed',
+            errorMessage: `Unhandled event type: ${event}`
+          });
+        } catch (error) {
+          console.error('Failed to update webhook event status:', error);
+        }
+      }
+  }
+
+};
+
+// Run a claimed event and make sure it never stays in "processing"
+export const processClaimedEvent = async (razorpayEvent: IRazorpayEvent) => {
+  const eventDocId = String(razorpayEvent._id);
+
+  try {
+    await dispatchRazorpayEvent(razorpayEvent.payload, eventDocId);
+    await RazorpayEvent.updateOne(
+      { _id: razorpayEvent._id, status: 'processing' },
+      { $set: { status: 'processed', processedAt: new Date() } }
+    );
+  } catch (error) {
+    console.error('❌ Failed to process webhook event:', razorpayEvent.eventId, error);
+    await RazorpayEvent.updateOne(
+      { _id: razorpayEvent._id },
+      { $set: { status: 'failed', errorMessage: error instanceof Error ? error.message : 'Unknown error' } }
+    );
+  }
+};
+
+// Retry events whose processing was interrupted (e.g. by a restart) and left in "processing"
+export const retryStuckRazorpayEvents = async (limit: number = 20): Promise<number> => {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+  const stuck = await RazorpayEvent.find({ status: 'processing', processingStartedAt: { $lt: staleBefore } })
+    .sort({ processingStartedAt: 1 })
+    .limit(limit);
+
+  let retried = 0;
+  for (const candidate of stuck) {
+    const reclaimed = await reclaimRazorpayEvent(candidate._id);
+    if (!reclaimed) continue;
+
+    console.log('🔁 Retrying stuck webhook event:', { eventId: reclaimed.eventId, attempts: reclaimed.attempts });
+    await processClaimedEvent(reclaimed);
+    retried++;
+  }
+
+  return retried;
+};
+
+export interface ReplayPreview {
+  eventType: string;
+  changes: string[];
+  warnings: string[];
+}
+
+export interface ReplayResult {
+  eventId: string;
+  eventType: string;
+  dryRun: boolean;
+  outcome: 'processed' | 'failed' | 'skipped';
+  statusBefore: string;
+  statusAfter: string;
+  changes: string[];
+  warnings: string[];
+  errorMessage?: string;
+}
+
+const describeOrder = (order: IOrder) => `Order ${order.orderNumber}`;
+
+// Describe what dispatching an event body would change, without writing anything
+export const previewRazorpayEvent = async (body: any): Promise<ReplayPreview> => {
+  const { event, payload } = body || {};
+  const changes: string[] = [];
+  const warnings: string[] = [];
+
+  if (event === 'payment.captured' || event === 'payment.failed') {
+    const payment = payload?.payment?.entity;
+    const order = payment ? await Order.findOne({ razorpayOrderId: payment.order_id }) : null;
+    if (!order) {
+      warnings.push(`No order found for Razorpay order ${payment?.order_id}; the replay would fail`);
+      return { eventType: event, changes, warnings };
+    }
+
+    if (event === 'payment.failed') {
+      if (order.paymentStatus === 'completed') {
+        warnings.push(`${describeOrder(order)} is completed; replaying this event would mark it failed`);
+      }
+      changes.push(`${describeOrder(order)}: paymentStatus ${order.paymentStatus} -> failed`);
+      return { eventType: event, changes, warnings };
+    }
+
+    if (order.paymentStatus === 'completed') {
+      changes.push(`None: ${describeOrder(order)} is already completed`);
+      return { eventType: event, changes, warnings };
+    }
+
+    const expectedAmountPaise = getExpectedAmountPaise(order);
+    if (Number(payment.amount) !== expectedAmountPaise) {
+      changes.push(
+        `${describeOrder(order)}: paymentStatus ${order.paymentStatus} -> processing, flagged for review ` +
+        `(expected ${expectedAmountPaise} paise, captured ${payment.amount} paise)`
+      );
+      return { eventType: event, changes, warnings };
+    }
+
+    changes.push(`${describeOrder(order)}: paymentStatus ${order.paymentStatus} -> completed`);
+    changes.push('Record coupon and first-time discount usage');
+    changes.push('Issue tax invoice');
+    changes.push(`Prepare buyer copies for ${order.items.length} product(s)`);
+    changes.push(`Increase sales count for ${order.items.length} product(s)`);
+    changes.push(`Send confirmation email to ${payment.email || order.guestEmail || 'no email on file'}`);
+    return { eventType: event, changes, warnings };
+  }
+
+  if (event === 'refund.created' || event === 'refund.processed' || event === 'refund.failed') {
+    const refund = payload?.refund?.entity;
+    const order = refund ? await Order.findOne({ razorpayPaymentId: refund.payment_id }) : null;
+    if (!order) {
+      warnings.push(`No order found for Razorpay payment ${refund?.payment_id}; the replay would fail`);
+      return { eventType: event, changes, warnings };
+    }
+
+    const entry = order.refunds?.find(item => item.refundId === refund.id) ||
+      order.refunds?.find(item => item.idempotencyKey === refund.notes?.idempotencyKey);
+    if (!entry) {
+      changes.push(`${describeOrder(order)}: record refund ${refund.id} created outside the admin panel`);
+    }
+
+    if (event === 'refund.created') {
+      changes.push(`${describeOrder(order)}: link refund ${refund.id} (${refund.amount} paise)`);
+    } else if (event === 'refund.processed') {
+      if (entry?.status === 'processed') {
+        changes.push(`None: refund ${refund.id} is already processed`);
+      } else {
+        const refundedAfter = (order.refundedAmountPaise || 0) + refund.amount;
+        changes.push(`${describeOrder(order)}: refundedAmountPaise ${order.refundedAmountPaise || 0} -> ${refundedAfter}`);
+        if (refundedAfter >= getCapturedAmountPaise(order)) {
+          changes.push(`${describeOrder(order)}: paymentStatus ${order.paymentStatus} -> refunded`);
+        }
+        if (entry?.products?.length) {
+          changes.push(`Revoke downloads and reverse sales for ${entry.products.length} product(s)`);
+        }
+      }
+    } else if (entry?.status === 'requested' || !entry) {
+      changes.push(`${describeOrder(order)}: refund ${refund.id} -> failed`);
+    } else {
+      changes.push(`None: refund ${refund.id} is already ${entry.status}`);
+    }
+    return { eventType: event, changes, warnings };
+  }
+
+  changes.push('None: this event type is only logged');
+  return { eventType: event || 'unknown', changes, warnings };
+};
+
+const recordReplay = async (eventDocId: unknown, replay: IRazorpayEventReplay) => {
+  await RazorpayEvent.updateOne(
+    { _id: eventDocId },
+    {
+      $push: { replays: { $each: [replay], $slice: -50 } },
+      $set: { lastReplayedAt: replay.replayedAt }
+    }
+  );
+};
+
+// Re-run a stored event through the webhook handlers. Only failed or stuck events are
+// replayed unless force is set. Every attempt, including dry runs, is recorded on the event.
+export const replayRazorpayEvent = async (
+  id: string,
+  options: { dryRun?: boolean; force?: boolean; replayedBy?: string } = {}
+): Promise<ReplayResult | null> => {
+  const stored = await RazorpayEvent.findById(id);
+  if (!stored) {
+    return null;
+  }
+
+  const dryRun = !!options.dryRun;
+  const preview = await previewRazorpayEvent(stored.payload);
+  const result: ReplayResult = {
+    eventId: stored.eventId,
+    eventType: stored.eventType,
+    dryRun,
+    outcome: 'skipped',
+    statusBefore: stored.status,
+    statusAfter: stored.status,
+    changes: preview.changes,
+    warnings: preview.warnings
+  };
+
+  // Events that failed signature verification were never trusted and must not be processed
+  if (stored.eventId.startsWith('invalid_') || stored.errorMessage === 'Invalid signature') {
+    result.errorMessage = 'Event signature was not verified';
+  } else if (!dryRun) {
+    const claimed = await reclaimRazorpayEvent(stored._id, new Date(), !!options.force);
+    if (!claimed) {
+      result.errorMessage = stored.status === 'processing'
+        ? 'Event is currently being processed'
+        : `Event is ${stored.status}; use force to replay it`;
+    } else {
+      console.log('🔁 Replaying webhook event:', { eventId: stored.eventId, eventType: stored.eventType });
+      await processClaimedEvent(claimed);
+
+      const after = await RazorpayEvent.findById(stored._id);
+      result.statusAfter = after?.status || 'unknown';
+      result.outcome = after?.status === 'processed' ? 'processed' : 'failed';
+      result.errorMessage = after?.errorMessage;
+    }
+  }
+
+  await recordReplay(stored._id, {
+    replayedAt: new Date(),
+    replayedBy: options.replayedBy as any,
+    dryRun,
+    outcome: result.outcome,
+    statusBefore: result.statusBefore,
+    statusAfter: result.statusAfter,
+    changes: result.changes,
+    errorMessage: result.errorMessage
+  });
+
+  return result;
+};
+
+// Handle payment authorized
+async function handlePaymentAuthorized(payment: any, eventId?: string) {
+  try {
+    console.log('💳 HANDLING PAYMENT AUTHORIZED EVENT 💳', {
+      paymentId: payment.id,
+      orderId: payment.order_id,
+      amount: payment.amount,
+      email: payment.email,
+      contact: payment.contact,
+      status: payment.status,
+      method: payment.method,
+      authorizedAt: payment.authorized_at
+    });
+
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling payment authorized:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle order paid
+async function handleOrderPaid(order: any, eventId?: string) {
+  try {
+    console.log('💳 HANDLING ORDER PAID EVENT 💳', {
+      orderId: order.id,
+      amount: order.amount,
+      status: order.status,
+      paidAt: order.paid_at
+    });
+
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling order paid:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle successful payment
+async function handlePaymentCaptured(payment: any, eventId?: string) {
+  try {
+    console.log('=== 💳 CRITICAL: HANDLING PAYMENT CAPTURED EVENT 💳 ===');
+    console.log('Payment captured details:', {
+      paymentId: payment.id,
+      orderId: payment.order_id,
+      amount: payment.amount,
+      email: payment.email,
+      contact: payment.contact,
+      captured: payment.captured,
+      status: payment.status,
+      method: payment.method,
+      capturedAt: payment.captured_at
+    });
+
+    console.log('🔍 SEARCHING FOR ORDER WITH RAZORPAY ORDER ID:', payment.order_id);
+    const order = await Order.findOne({ 
+      razorpayOrderId: payment.order_id 
+    }).populate('items.product');
+
+    if (!order) {
+      console.error('🚨 CRITICAL ERROR: ORDER NOT FOUND FOR PAYMENT');
+      console.error('This is causing auto-refunds! Order must exist for payment to be confirmed.');
+      console.error('Payment details:', {
+        paymentId: payment.id,
+        orderId: payment.order_id,
+        email: payment.email
+      });
+      
+      // Update event status if it exists
+      if (eventId) {
+        try {
+          await RazorpayEvent.findByIdAndUpdate(eventId, {
+            status: 'failed',
+            errorMessage: 'Order not found'
+          });
+          console.log('💾 Updated webhook event status to failed: Order not found');
+        } catch (error) {
+          console.error('❌ Failed to update webhook event status:', error);
+        }
+      }
+      
+      return;
+    }
+
+    console.log('✅ FOUND ORDER FOR PAYMENT:', {
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      currentStatus: order.paymentStatus,
+      razorpayOrderId: order.razorpayOrderId
+    });
+
+    // Skip orders that are already completed (duplicate event) or refunded (must stay refunded)
+    if (!canCompletePayment(order.paymentStatus)) {
+      console.log(`⚠️ ORDER ALREADY ${order.paymentStatus.toUpperCase()}, SKIPPING PROCESSING`);
+      if (eventId) {
+        try {
+          await RazorpayEvent.findByIdAndUpdate(eventId, {
+            status: 'processed',
+            errorMessage: `Order already ${order.paymentStatus}`
+          });
+          console.log(`💾 Updated webhook event status to processed: Order already ${order.paymentStatus}`);
+        } catch (error) {
+          console.error('❌ Failed to update webhook event status:', error);
+        }
+      }
+      return;
+    }
+
+    // Reconcile the captured amount against the order's pricing breakdown
+    const expectedAmountPaise = getExpectedAmountPaise(order);
+    const capturedAmountPaise = Number(payment.amount);
+    if (capturedAmountPaise !== expectedAmountPaise) {
+      console.error('🚨 CAPTURED AMOUNT DOES NOT MATCH ORDER PRICING:', {
+        orderNumber: order.orderNumber,
+        expectedAmountPaise,
+        capturedAmountPaise
+      });
+
+      // Hold the order for manual review instead of delivering the product
+      order.paymentStatus = 'processing';
+      order.razorpayPaymentId = payment.id;
+      order.paymentReview = {
+        status: 'flagged',
+        reason: 'Captured amount does not match order pricing',
+        expectedAmountPaise,
+        capturedAmountPaise,
+        flaggedAt: new Date()
+      };
+      await order.save();
+
+      if (eventId) {
+        try {
+          await RazorpayEvent.findByIdAndUpdate(eventId, {
+            status: 'failed',
+            errorMessage: `Amount mismatch: expected ${expectedAmountPaise}, captured ${capturedAmountPaise}`
+          });
+        } catch (error) {
+          console.error('❌ Failed to update webhook event status:', error);
+        }
+      }
+      return;
+    }
+
+    // Update order status
+    console.log('🔄 UPDATING ORDER STATUS TO COMPLETED');
+    order.paymentStatus = 'completed';
+    order.razorpayPaymentId = payment.id;
+    await order.save();
+    console.log('✅ UPDATED ORDER STATUS TO COMPLETED');
+
+    await recordOrderDiscounts(order);
+    await issueInvoiceForOrder(String(order._id));
+    await prepareOrderDeliveries(String(order._id));
+
+    // Update product stats and sales counts
+    console.log('🔄 UPDATING PRODUCT SALES FOR', order.items.length, 'ITEMS');
+    try {
+      await recordOrderSales(order);
+      console.log('✅ Updated product sales for order:', order.orderNumber);
+    } catch (error) {
+      console.error('❌ Failed to update product sales:', error);
+    }
+
+    // Send confirmation email
+    try {
+      console.log('📧 SENDING ORDER CONFIRMATION EMAIL');
+      const products = order.items.map((item: any) => ({
+        name: item.name,
+        price: item.price
+      }));
+
+      const downloads = await getOrderDownloads(String(order._id));
+      const customerEmail = payment.email || order.guestEmail;
+      const customerName = order.guestName || 'Customer';
+
+      console.log('Email details:', {
+        to: customerEmail,
+        orderNumber: order.orderNumber,
+        productCount: order.items.length,
+        downloadsReady: downloads.length
+      });
+
+      if (customerEmail) {
+        await sendEmail({
+          to: customerEmail,
+          subject: `Order Confirmation - ${order.orderNumber}`,
+          html: getOrderConfirmationEmail(
+            customerName,
+            order.orderNumber,
+            order.purchaseId, // Fix: Use purchaseId instead of order ID
+            products,
+            order.totalAmount,
+            downloads
+          )
+        });
+
+        order.emailSent = true;
+        order.emailSentAt = new Date();
+        if (downloads.length === getOrderDeliverables(order.items).length) {
+          order.pdfDelivered = true;
+          order.pdfDeliveredAt = new Date();
+        }
+        await order.save();
+        
+        console.log('📧 ORDER CONFIRMATION EMAIL SENT SUCCESSFULLY');
+      } else {
+        console.warn('⚠️ NO CUSTOMER EMAIL FOUND, SKIPPING EMAIL SEND');
+      }
+    } catch (error) {
+      console.error('❌ FAILED TO SEND CONFIRMATION EMAIL:', error);
+    }
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+        console.log('💾 UPDATED WEBHOOK EVENT STATUS TO PROCESSED');
+      } catch (error) {
+        console.error('❌ Failed to update webhook event status:', error);
+      }
+    }
+    
+    console.log('=== 🎉 PAYMENT CAPTURED HANDLING COMPLETE ===');
+  } catch (error) {
+    console.error('🚨 CRITICAL ERROR: FAILED TO HANDLE PAYMENT CAPTURED EVENT', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+        console.log('💾 Updated webhook event status to failed due to error');
+      } catch (updateError) {
+        console.error('❌ Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle failed payment
+async function handlePaymentFailed(payment: any, eventId?: string) {
+  try {
+    console.log('💳 HANDLING PAYMENT FAILED EVENT 💳', {
+      paymentId: payment.id,
+      orderId: payment.order_id,
+      amount: payment.amount,
+      email: payment.email,
+      contact: payment.contact,
+      errorCode: payment.error_code,
+      errorDescription: payment.error_description,
+      status: payment.status,
+      method: payment.method,
+      createdAt: payment.created_at
+    });
+
+    const order = await Order.findOne({ 
+      razorpayOrderId: payment.order_id 
+    });
+
+    if (!order) {
+      console.error('Order not found for failed payment:', {
+        paymentId: payment.id,
+        orderId: payment.order_id
+      });
+      
+      // Update event status if it exists
+      if (eventId) {
+        try {
+          await RazorpayEvent.findByIdAndUpdate(eventId, {
+            status: 'failed',
+            errorMessage: 'Order not found'
+          });
+        } catch (error) {
+          console.error('Failed to update webhook event status:', error);
+        }
+      }
+      
+      return;
+    }
+
+    console.log('Found order for failed payment:', {
+      orderId: order._id,
+      orderNumber: order.orderNumber,
+      currentStatus: order.paymentStatus
+    });
+
+    const wasCompleted = order.paymentStatus === 'completed';
+    order.paymentStatus = 'failed';
+    order.razorpayPaymentId = payment.id;
+    await order.save();
+    
+    console.log('Updated order status to failed');
+
+    if (!wasCompleted) {
+      await releaseCouponReservation(order._id);
+    }
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling payment failed:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle refund lifecycle events (created, processed, failed)
+async function handleRefundEvent(refund: any, refundEvent: 'created' | 'processed' | 'failed', eventId?: string) {
+  try {
+    console.log(`🚨 HANDLING REFUND ${refundEvent.toUpperCase()} EVENT 🚨`, {
+      refundId: refund.id,
+      paymentId: refund.payment_id,
+      amount: refund.amount,
+      speed: refund.speed,
+      notes: refund.notes,
+      createdAt: refund.created_at,
+      entityId: refund.entity_id,
+      refundStatus: refund.status
+    });
+
+    const { order, error } = await applyRefundEvent(refund, refundEvent);
+
+    if (!order) {
+      console.error('Order not found for refund:', {
+        refundId: refund.id,
+        paymentId: refund.payment_id
+      });
+    } else {
+      console.log('Applied refund event to order:', {
+        orderNumber: order.orderNumber,
+        paymentStatus: order.paymentStatus,
+        refundStatus: order.refundStatus,
+        refundedAmountPaise: order.refundedAmountPaise
+      });
+    }
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, error
+          ? { status: 'failed', errorMessage: error }
+          : { status: 'processed' });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling refund:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle payment dispute created
+async function handlePaymentDisputeCreated(dispute: any, eventId?: string) {
+  try {
+    console.log('⚖️ HANDLING PAYMENT DISPUTE CREATED EVENT ⚖️', {
+      disputeId: dispute.id,
+      paymentId: dispute.payment_id,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      reason: dispute.reason,
+      status: dispute.status,
+      createdAt: dispute.created_at
+    });
+
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling payment dispute created:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle payment dispute won
+async function handlePaymentDisputeWon(dispute: any, eventId?: string) {
+  try {
+    console.log('✅ HANDLING PAYMENT DISPUTE WON EVENT ✅', {
+      disputeId: dispute.id,
+      paymentId: dispute.payment_id,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      status: dispute.status,
+      resolvedAt: dispute.resolved_at
+    });
+
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling payment dispute won:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle payment dispute lost
+async function handlePaymentDisputeLost(dispute: any, eventId?: string) {
+  try {
+    console.log('❌ HANDLING PAYMENT DISPUTE LOST EVENT ❌', {
+      disputeId: dispute.id,
+      paymentId: dispute.payment_id,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      status: dispute.status,
+      resolvedAt: dispute.resolved_at
+    });
+
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling payment dispute lost:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle payment dispute closed
+async function handlePaymentDisputeClosed(dispute: any, eventId?: string) {
+  try {
+    console.log('🔒 HANDLING PAYMENT DISPUTE CLOSED EVENT 🔒', {
+      disputeId: dispute.id,
+      paymentId: dispute.payment_id,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      status: dispute.status,
+      resolvedAt: dispute.resolved_at
+    });
+
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling payment dispute closed:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle subscription activated
+async function handleSubscriptionActivated(subscription: any, eventId?: string) {
+  try {
+    console.log('🔄 HANDLING SUBSCRIPTION ACTIVATED EVENT 🔄', {
+      subscriptionId: subscription.id,
+      customerId: subscription.customer_id,
+      status: subscription.status,
+      currentStart: subscription.current_start,
+      currentEnd: subscription.current_end
+    });
+
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling subscription activated:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+// Handle subscription cancelled
+async function handleSubscriptionCancelled(subscription: any, eventId?: string) {
+  try {
+    console.log('⏹️ HANDLING SUBSCRIPTION CANCELLED EVENT ⏹️', {
+      subscriptionId: subscription.id,
+      customerId: subscription.customer_id,
+      status: subscription.status,
+      endedAt: subscription.ended_at
+    });
+
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'processed'
+        });
+      } catch (error) {
+        console.error('Failed to update webhook event status:', error);
+      }
+    }
+  } catch (error) {
+    console.error('Error handling subscription cancelled:', error);
+    
+    // Update event status if it exists
+    if (eventId) {
+      try {
+        await RazorpayEvent.findByIdAndUpdate(eventId, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } catch (updateError) {
+        console.error('Failed to update webhook event status:', updateError);
+      }
+    }
+  }
+}
+
+export interface ReplayFilter {
+  status?: 'failed' | 'processing' | 'processed' | 'duplicate';
+  eventType?: string;
+  from?: Date;
+  to?: Date;
+  eventIds?: string[];
+}
+
+// Replay every stored event matching the filter, oldest first and one at a time so
+// handlers for the same order never run concurrently. Defaults to the failed events.
+export const replayRazorpayEvents = async (
+  filter: ReplayFilter,
+  options: { dryRun?: boolean; force?: boolean; limit?: number; replayedBy?: string } = {}
+) => {
+  const query: any = { eventId: { $not: /^invalid_/ } };
+  if (filter.eventIds?.length) {
+    query.eventId = { $in: filter.eventIds, $not: /^invalid_/ };
+  } else {
+    query.status = filter.status || 'failed';
+  }
+  if (filter.eventType) {
+    query.eventType = filter.eventType;
+  }
+  if (filter.from || filter.to) {
+    query.createdAt = {
+      ...(filter.from ? { $gte: filter.from } : {}),
+      ...(filter.to ? { $lte: filter.to } : {})
+    };
+  }
+
+  const limit = Math.min(options.limit ?? 50, 100);
+  const [candidates, matched] = await Promise.all([
+    RazorpayEvent.find(query).sort({ createdAt: 1 }).limit(limit).select('_id'),
+    RazorpayEvent.countDocuments(query)
+  ]);
+
+  const results: ReplayResult[] = [];
+  for (const candidate of candidates) {
+    const result = await replayRazorpayEvent(String(candidate._id), options);
+    if (result) results.push(result);
+  }
+
+  return {
+    matched,
+    attempted: results.length,
+    processed: results.filter(result => result.outcome === 'processed').length,
+    failed: results.filter(result => result.outcome === 'failed').length,
+    skipped: results.filter(result => result.outcome === 'skipped').length,
+    results
+  };
+};
@@ -19,3 +19,44 @@ export const resetPasswordSchema = z.object({
   token: z.string(),
   password: z.string().min(6).max(100)
 });
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6).max(20) // 6-digit TOTP code or a recovery code
+});
+
+export const verifyTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().trim().min(6).max(20)
+});
+
+export const magicLinkSchema = z.object({
+  email: z.string().email()
+});
+
+export const verifyMagicLinkSchema = z.object({
+  token: z.string().min(1)
+});
+
+export const upgradeGuestSchema = z.object({
+  name: z.string().min(2).max(100),
+  password: z.string().min(6).max(100)
+});
+
+export const setPasswordSchema = z.object({
+  newPassword: z.string().min(6).max(100)
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6).max(100)
+});
+
+// Re-entering credentials before linking or unlinking Google
+export const confirmCredentialsSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().trim().min(6).max(20).optional() // Required when 2FA is enabled
+});
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+export const createCouponSchema = z.object({
+  code: z.string().min(3).max(40).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, - and _'),
+  description: z.string().max(300).optional(),
+  discountType: z.enum(['percentage', 'flat']),
+  discountValue: z.number().positive(),
+  maxDiscountAmount: z.number().positive().optional(),
+  minOrderAmount: z.number().min(0).optional(),
+  applicableProducts: z.array(z.string()).optional(),
+  applicableCategories: z.array(z.string()).optional(),
+  validFrom: z.coerce.date().optional(),
+  validUntil: z.coerce.date().optional(),
+  usageLimit: z.number().int().min(1).optional(),
+  perCustomerLimit: z.number().int().min(1).optional(),
+  stackableWithFirstTimeDiscount: z.boolean().optional(),
+  isActive: z.boolean().optional()
+});
+
+export const updateCouponSchema = createCouponSchema.partial();
+
+export const checkDiscountSchema = z.object({
+  items: z.array(z.object({
+    productId: z.string(),
+    quantity: z.number().min(1).default(1)
+  })).min(1),
+  couponCode: z.string().optional(),
+  guestEmail: z.string().email().optional()
+});
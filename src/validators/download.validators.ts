@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+export const revokeDownloadSchema = z.object({
+  reason: z.string().max(300).optional()
+});
+
+export const resetDownloadSchema = z.object({
+  maxDownloads: z.number().int().min(1).optional(),
+  maxDevices: z.number().int().min(1).optional(),
+  maxIpAddresses: z.number().int().min(1).optional(),
+  expiresInDays: z.number().int().min(1).max(365).optional()
+});
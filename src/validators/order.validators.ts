@@ -6,7 +6,19 @@ export const createOrderSchema = z.object({
     quantity: z.number().min(1).default(1)
   })).min(1),
   guestEmail: z.string().email().optional(),
-  guestName: z.string().min(2).max(100).optional()
+  guestName: z.string().min(2).max(100).optional(),
+  guestDetails: z.object({ // Older clients send the guest's details nested
+    email: z.string().email().optional(),
+    name: z.string().min(2).max(100).optional()
+  }).optional(),
+  couponCode: z.string().max(40).optional(),
+  billingDetails: z.object({
+    businessName: z.string().max(200).optional(),
+    gstin: z.string().regex(/^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/i, 'Invalid GSTIN').optional(),
+    address: z.string().max(500).optional(),
+    stateCode: z.string().max(2).optional()
+  }).optional(),
+  notifyOfUpdates: z.boolean().optional()
 });
 
 export const verifyPaymentSchema = z.object({
@@ -14,3 +26,15 @@ export const verifyPaymentSchema = z.object({
   razorpayPaymentId: z.string(),
   razorpaySignature: z.string()
 });
+
+export const markOrderPaidSchema = z.object({
+  paymentReference: z.string().trim().min(3).max(100), // UTR, transaction or receipt number
+  method: z.enum(['bank_transfer', 'upi', 'cash', 'other']).default('bank_transfer'),
+  notes: z.string().max(500).optional(),
+  sendEmail: z.boolean().optional()
+});
+
+export const linkGuestRecordsSchema = z.object({
+  dryRun: z.boolean().optional(),
+  limit: z.number().int().min(1).max(5000).optional()
+});
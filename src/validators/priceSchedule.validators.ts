@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+const objectId = z.string().regex(/^[a-f\d]{24}$/i, 'must be a valid product ID');
+
+export const createPriceScheduleSchema = z.object({
+  name: z.string().min(2).max(100),
+  description: z.string().max(300).optional(),
+  discountType: z.enum(['percentage', 'flat', 'fixed']),
+  discountValue: z.number().min(0),
+  products: z.array(objectId).optional(),
+  categories: z.array(z.string()).optional(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().nullable().optional(),
+  isActive: z.boolean().optional()
+});
+
+export const updatePriceScheduleSchema = createPriceScheduleSchema.partial();
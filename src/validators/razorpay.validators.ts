@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+export const replayEventSchema = z.object({
+  dryRun: z.boolean().optional(),
+  force: z.boolean().optional() // Also replay events that were already processed
+});
+
+export const replayEventsSchema = z.object({
+  status: z.enum(['failed', 'processing', 'processed', 'duplicate']).optional(),
+  eventType: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  eventIds: z.array(z.string()).max(100).optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+  dryRun: z.boolean().optional(),
+  force: z.boolean().optional()
+});
+
+export const reconciliationRunSchema = z.object({
+  lookbackHours: z.number().int().min(1).max(24 * 30).optional(),
+  dryRun: z.boolean().optional()
+});
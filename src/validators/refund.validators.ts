@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const createRefundSchema = z.object({
+  amount: z.number().positive().optional(), // In rupees; omit to refund everything still refundable
+  reasonCode: z.enum(['customer_request', 'duplicate_payment', 'product_issue', 'fraudulent', 'goodwill', 'other']),
+  notes: z.string().max(500).optional(),
+  productIds: z.array(z.string()).optional(),
+  idempotencyKey: z.string().min(8).max(100).optional()
+});
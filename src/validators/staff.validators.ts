@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { ADMIN_PERMISSIONS, AdminPermission } from '../models/User.model';
+
+const permissionsSchema = z
+  .array(z.enum(ADMIN_PERMISSIONS as [AdminPermission, ...AdminPermission[]]))
+  .min(1, 'Give at least one permission');
+
+export const addStaffSchema = z.object({
+  email: z.string().email(),
+  permissions: permissionsSchema
+});
+
+export const updateStaffSchema = z.object({
+  permissions: permissionsSchema
+});